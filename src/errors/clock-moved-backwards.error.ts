@@ -0,0 +1,18 @@
+import { IdError } from './id.error';
+
+/**
+ * Thrown by a Snowflake generator when the clock moved backwards and the
+ * clock backwards strategy refuses to generate IDs
+ */
+export class ClockMovedBackwardsError extends IdError {
+   /**
+    * How far the clock moved backwards, in milliseconds
+    */
+   public readonly drift: number;
+
+   constructor(message: string, drift: number) {
+      super(message, 'CLOCK_MOVED_BACKWARDS');
+      this.name = 'ClockMovedBackwardsError';
+      this.drift = drift;
+   }
+}
@@ -0,0 +1,12 @@
+import { IdError } from './id.error';
+
+/**
+ * Thrown when generator options or method arguments are invalid
+ * (worker or process ID out of range, unknown preset, invalid prefix, ...)
+ */
+export class IdConfigurationError extends IdError {
+   constructor(message: string) {
+      super(message, 'ID_CONFIGURATION_ERROR');
+      this.name = 'IdConfigurationError';
+   }
+}
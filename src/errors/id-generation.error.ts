@@ -0,0 +1,12 @@
+import { IdError } from './id.error';
+
+/**
+ * Thrown when a generator cannot produce more IDs, e.g. because the timestamp
+ * field of its format is exhausted
+ */
+export class IdGenerationError extends IdError {
+   constructor(message: string) {
+      super(message, 'ID_GENERATION_FAILED');
+      this.name = 'IdGenerationError';
+   }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'bun:test';
+import { IdError } from './id.error';
+import { IdConfigurationError } from './id-configuration.error';
+import { InvalidIdError } from './invalid-id.error';
+import { UnsupportedGeneratorError } from './unsupported-generator.error';
+import { ClockMovedBackwardsError } from './clock-moved-backwards.error';
+import { IdGenerationError } from './id-generation.error';
+import { SequenceExhaustedError } from './sequence-exhausted.error';
+
+describe('IdError', () => {
+   it('should expose a stable code and name on every error', () => {
+      const errors: [IdError, string, string][] = [
+         [
+            new IdConfigurationError('Worker ID must be between 0 and 31'),
+            'ID_CONFIGURATION_ERROR',
+            'IdConfigurationError',
+         ],
+         [new InvalidIdError('Invalid ULID'), 'INVALID_ID', 'InvalidIdError'],
+         [
+            new UnsupportedGeneratorError('objectid'),
+            'UNSUPPORTED_GENERATOR',
+            'UnsupportedGeneratorError',
+         ],
+         [
+            new ClockMovedBackwardsError('Clock moved backwards', 5),
+            'CLOCK_MOVED_BACKWARDS',
+            'ClockMovedBackwardsError',
+         ],
+         [
+            new IdGenerationError('Timestamp overflow'),
+            'ID_GENERATION_FAILED',
+            'IdGenerationError',
+         ],
+         [
+            new SequenceExhaustedError(1000, 1001, 4096),
+            'SEQUENCE_EXHAUSTED',
+            'SequenceExhaustedError',
+         ],
+      ];
+
+      for (const [error, code, name] of errors) {
+         expect(error).toBeInstanceOf(Error);
+         expect(error).toBeInstanceOf(IdError);
+         expect(error.code).toBe(code);
+         expect(error.name).toBe(name);
+      }
+   });
+
+   it('should keep the message', () => {
+      expect(new IdConfigurationError('Unknown preset').message).toBe(
+         'Unknown preset'
+      );
+   });
+
+   it('should carry error details', () => {
+      expect(new UnsupportedGeneratorError('objectid')).toMatchObject({
+         type: 'objectid',
+         message: "Unsupported generator type: 'objectid'",
+      });
+      expect(new ClockMovedBackwardsError('Clock moved', 12).drift).toBe(12);
+      expect(new SequenceExhaustedError(1000, 1001, 4096)).toMatchObject({
+         timestamp: 1000,
+         retryAt: 1001,
+         message:
+            'Sequence exhausted. All 4096 IDs of the tick at 1000 have been issued',
+      });
+   });
+});
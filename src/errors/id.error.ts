@@ -0,0 +1,36 @@
+/**
+ * Stable machine-readable codes of the errors thrown by this library
+ */
+export type IdErrorCode =
+   | 'ID_CONFIGURATION_ERROR'
+   | 'INVALID_ID'
+   | 'UNSUPPORTED_GENERATOR'
+   | 'CLOCK_MOVED_BACKWARDS'
+   | 'SEQUENCE_EXHAUSTED'
+   | 'ID_GENERATION_FAILED';
+
+/**
+ * Base class of all errors thrown by this library
+ * Match on `code` (or `instanceof`) instead of the message, which may change
+ *
+ * @example
+ * try {
+ *   idService.getSnowflake({ workerId: 99 });
+ * } catch (error) {
+ *   if (error instanceof IdError && error.code === 'ID_CONFIGURATION_ERROR') {
+ *     // Fix the configuration
+ *   }
+ * }
+ */
+export class IdError extends Error {
+   /**
+    * Stable error code
+    */
+   public readonly code: IdErrorCode;
+
+   constructor(message: string, code: IdErrorCode) {
+      super(message);
+      this.name = 'IdError';
+      this.code = code;
+   }
+}
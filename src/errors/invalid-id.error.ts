@@ -0,0 +1,12 @@
+import { IdError } from './id.error';
+
+/**
+ * Thrown when an ID cannot be parsed, decoded or encoded because it is
+ * malformed or out of range
+ */
+export class InvalidIdError extends IdError {
+   constructor(message: string) {
+      super(message, 'INVALID_ID');
+      this.name = 'InvalidIdError';
+   }
+}
@@ -0,0 +1,36 @@
+import { IdError } from './id.error';
+
+/**
+ * Thrown by a Snowflake generator using the 'throw' sequence exhausted
+ * strategy when every sequence number of the current tick has been issued
+ *
+ * @example
+ * try {
+ *   generator.getId();
+ * } catch (error) {
+ *   if (error instanceof SequenceExhaustedError) {
+ *     // Retry after error.retryAt
+ *   }
+ * }
+ */
+export class SequenceExhaustedError extends IdError {
+   /**
+    * Unix timestamp in milliseconds of the exhausted tick
+    */
+   public readonly timestamp: number;
+
+   /**
+    * Unix timestamp in milliseconds at which IDs are available again
+    */
+   public readonly retryAt: number;
+
+   constructor(timestamp: number, retryAt: number, sequenceSize: number) {
+      super(
+         `Sequence exhausted. All ${sequenceSize} IDs of the tick at ${timestamp} have been issued`,
+         'SEQUENCE_EXHAUSTED'
+      );
+      this.name = 'SequenceExhaustedError';
+      this.timestamp = timestamp;
+      this.retryAt = retryAt;
+   }
+}
@@ -0,0 +1,17 @@
+import { IdError } from './id.error';
+
+/**
+ * Thrown when a generator type is requested that no generator exists for
+ */
+export class UnsupportedGeneratorError extends IdError {
+   /**
+    * The requested generator type
+    */
+   public readonly type: string;
+
+   constructor(type: string) {
+      super(`Unsupported generator type: '${type}'`, 'UNSUPPORTED_GENERATOR');
+      this.name = 'UnsupportedGeneratorError';
+      this.type = type;
+   }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'bun:test';
+import { CuidGenerator } from './cuid-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { SeededRandom } from '../providers/random.provider';
+
+describe('CuidGenerator', () => {
+   it('should generate a valid CUID with default settings', () => {
+      const generator = new CuidGenerator();
+      const id = generator.getId();
+
+      // Default CUID has 24 lowercase base36 characters
+      expect(id.length).toBe(24);
+      expect(id).toMatch(/^[0-9a-z]+$/);
+   });
+
+   it('should always start with a letter', () => {
+      const generator = new CuidGenerator({ length: 2 });
+
+      for (let i = 0; i < 200; i++) {
+         expect(generator.getId()).toMatch(/^[a-z]/);
+      }
+   });
+
+   it('should generate IDs with custom length', () => {
+      [2, 10, 24, 32].forEach((length) => {
+         const generator = new CuidGenerator({ length });
+         expect(generator.getId().length).toBe(length);
+      });
+   });
+
+   it('should generate multiple unique IDs in sequence', () => {
+      const generator = new CuidGenerator();
+      const ids = new Set<string>();
+
+      for (let i = 0; i < 1000; i++) {
+         ids.add(generator.getId());
+      }
+
+      // All IDs should be unique
+      expect(ids.size).toBe(1000);
+   });
+
+   it('should accept a custom fingerprint', () => {
+      const fixed = new CuidGenerator({ fingerprint: 'api-eu-1' });
+      let calls = 0;
+      const computed = new CuidGenerator({
+         fingerprint: () => {
+            calls++;
+            return 'api-eu-2';
+         },
+      });
+
+      expect(fixed.getId().length).toBe(24);
+      expect(computed.getId().length).toBe(24);
+      expect(calls).toBe(1);
+   });
+
+   it('should throw error for invalid length', () => {
+      expect(() => new CuidGenerator({ length: 1 })).toThrow(
+         'CUID length must be between 2 and 32'
+      );
+      expect(() => new CuidGenerator({ length: 33 })).toThrow(
+         'CUID length must be between 2 and 32'
+      );
+   });
+
+   it('should generate reproducible IDs with injected clock, random source and fingerprint', () => {
+      const create = () =>
+         new CuidGenerator({
+            clock: new FixedClock(1700000000000),
+            random: new SeededRandom(42),
+            fingerprint: 'test-host',
+         });
+      const a = create();
+      const b = create();
+
+      expect([a.getId(), a.getId()]).toEqual([b.getId(), b.getId()]);
+   });
+});
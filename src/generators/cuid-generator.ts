@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { hostname } from 'os';
+import {
+   IIdGenerator,
+   ClockProvider,
+   RandomProvider,
+} from '../interfaces/id-generator.interface';
+import type { Cuid, CuidOptions } from '../interfaces/id-generator.interface';
+import { SystemClock } from '../providers/clock.provider';
+import { CryptoRandom, randomInt } from '../providers/random.provider';
+import {
+   MAX_CUID_LENGTH,
+   validateCuidOptions,
+} from '../utils/validate-options';
+
+/**
+ * CUID generator implementation
+ * Generates collision-resistant, non-guessable IDs following the CUID2 design
+ *
+ * Each ID is a random lowercase letter followed by a base36 SHA3-512 hash of:
+ * - Current timestamp
+ * - Random salt (CSPRNG by default)
+ * - Per-generator counter (random start)
+ * - Host fingerprint
+ */
+export class CuidGenerator implements IIdGenerator<Cuid> {
+   private readonly length: number;
+   private readonly fingerprint: string;
+   private readonly clock: ClockProvider;
+   private readonly random: RandomProvider;
+   private counter: number;
+
+   private readonly DEFAULT_LENGTH = 24;
+
+   // Upper bound for the random counter start
+   private readonly INITIAL_COUNT_MAX = 476782367;
+
+   private readonly LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+   constructor(options?: CuidOptions) {
+      this.clock = options?.clock ?? new SystemClock();
+      this.random = options?.random ?? new CryptoRandom();
+
+      validateCuidOptions(options);
+      this.length = options?.length ?? this.DEFAULT_LENGTH;
+
+      const fingerprint = options?.fingerprint;
+      this.fingerprint =
+         typeof fingerprint === 'function'
+            ? fingerprint()
+            : (fingerprint ?? this.createFingerprint());
+
+      this.counter = randomInt(this.random, this.INITIAL_COUNT_MAX);
+   }
+
+   /**
+    * Generates a new CUID
+    * @returns A collision-resistant ID that always starts with a letter
+    * @example
+    * const generator = new CuidGenerator();
+    * const id = generator.getId(); // 'tz4a98xxat96iws9zmbrgj3a'
+    */
+   public getId(): Cuid {
+      const time = this.clock.now().toString(36);
+      const salt = this.createEntropy(this.length);
+      const count = (this.counter++).toString(36);
+      const firstLetter =
+         this.LETTERS[randomInt(this.random, this.LETTERS.length)];
+
+      const hashed = this.hash(`${time}${salt}${count}${this.fingerprint}`);
+
+      return `${firstLetter}${hashed.substring(1, this.length)}` as Cuid;
+   }
+
+   /**
+    * Hashes the input with SHA3-512 and encodes it in base36
+    * The first character is dropped because it is biased
+    */
+   private hash(input: string): string {
+      const digest = createHash('sha3-512').update(input).digest('hex');
+      return BigInt(`0x${digest}`).toString(36).slice(1);
+   }
+
+   /**
+    * Creates a random base36 string of the given length
+    */
+   private createEntropy(length: number): string {
+      let entropy = '';
+      while (entropy.length < length) {
+         entropy += randomInt(this.random, 36).toString(36);
+      }
+      return entropy;
+   }
+
+   /**
+    * Creates the default host fingerprint
+    */
+   private createFingerprint(): string {
+      const source = `${hostname()}${process.pid}${Object.keys(globalThis).join(',')}`;
+      return this.hash(
+         `${source}${this.createEntropy(MAX_CUID_LENGTH)}`
+      ).substring(0, MAX_CUID_LENGTH);
+   }
+}
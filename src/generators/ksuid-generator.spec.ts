@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'bun:test';
+import { KsuidGenerator, KSUID_EPOCH } from './ksuid-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { SeededRandom } from '../providers/random.provider';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { IdGenerationError } from '../errors/id-generation.error';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+describe('KsuidGenerator', () => {
+   // KSUID format: 27 Base62 characters
+   const ksuidRegex = /^[0-9A-Za-z]{27}$/;
+
+   it('should generate a valid KSUID', () => {
+      const generator = new KsuidGenerator();
+      const id = generator.getId();
+
+      expect(id).toMatch(ksuidRegex);
+      expect(id.length).toBe(27);
+   });
+
+   it('should parse the reference implementation example', () => {
+      const generator = new KsuidGenerator();
+
+      expect(generator.parse('0ujtsYcgvSTl8PAuAdqWYSMnLOv')).toEqual({
+         timestamp: 1507608047000,
+         date: new Date('2017-10-10T04:00:47.000Z'),
+         payload: 'b5a1cd34b5f99d1154fb6853345c9735',
+      });
+   });
+
+   it('should embed the current timestamp in seconds', () => {
+      const generator = new KsuidGenerator({
+         clock: new FixedClock(1700000000999),
+      });
+
+      expect(generator.getTimestamp(generator.getId())).toBe(1700000000000);
+   });
+
+   it('should sort by creation second', () => {
+      const clock = new FixedClock(1700000000000);
+      const generator = new KsuidGenerator({ clock });
+      const ids: string[] = [];
+
+      for (let i = 0; i < 100; i++) {
+         ids.push(generator.getId());
+         clock.advance(1000);
+      }
+
+      expect([...ids].sort()).toEqual(ids);
+   });
+
+   it('should generate reproducible IDs with injected clock and random source', () => {
+      const create = () =>
+         new KsuidGenerator({
+            clock: new FixedClock(1700000000000),
+            random: new SeededRandom(42),
+         });
+
+      expect(create().getId()).toBe(create().getId());
+   });
+
+   it('should apply a custom epoch', () => {
+      const epoch = Date.parse('2024-01-01T00:00:00Z');
+      const generator = new KsuidGenerator({
+         epoch,
+         clock: new FixedClock(epoch + 5000),
+      });
+      const id = generator.getId();
+
+      expect(id.startsWith('00000')).toBe(true);
+      expect(generator.getTimestamp(id)).toBe(epoch + 5000);
+      expect(new KsuidGenerator().getTimestamp(id)).toBe(KSUID_EPOCH + 5000);
+   });
+
+   it('should refuse timestamps out of the 32-bit range', () => {
+      const before = new KsuidGenerator({
+         clock: new FixedClock(KSUID_EPOCH - 1000),
+      });
+      const after = new KsuidGenerator({
+         clock: new FixedClock(KSUID_EPOCH + 2 ** 32 * 1000),
+      });
+
+      expect(() => before.getId()).toThrow(IdGenerationError);
+      expect(() => after.getId()).toThrow(IdGenerationError);
+   });
+
+   it('should reject invalid epochs and IDs', () => {
+      expect(() => new KsuidGenerator({ epoch: -1 })).toThrow(
+         new IdConfigurationError(
+            'Epoch must be a non-negative integer (Unix timestamp in milliseconds)'
+         )
+      );
+      expect(() => new KsuidGenerator({ epoch: Date.now() + 60000 })).toThrow(
+         IdConfigurationError
+      );
+
+      const generator = new KsuidGenerator();
+      expect(() => generator.parse('0ujtsYcgvSTl8PAuAdqWYSMnLO')).toThrow(
+         new InvalidIdError('KSUID must be 27 characters long, got 26')
+      );
+      expect(() => generator.parse('0ujtsYcgvSTl8PAuAdqWYSMnLO_')).toThrow(
+         InvalidIdError
+      );
+      expect(() => generator.parse('zzzzzzzzzzzzzzzzzzzzzzzzzzz')).toThrow(
+         'ID value does not fit in 160 bits'
+      );
+   });
+});
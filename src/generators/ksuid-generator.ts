@@ -0,0 +1,129 @@
+import {
+   IIdGenerator,
+   ClockProvider,
+   RandomProvider,
+} from '../interfaces/id-generator.interface';
+import type {
+   Ksuid,
+   KsuidComponents,
+   KsuidOptions,
+} from '../interfaces/id-generator.interface';
+import { decodeId, encodeId } from '../utils/id-encoding';
+import { validateKsuidOptions } from '../utils/validate-options';
+import { SystemClock } from '../providers/clock.provider';
+import { CryptoRandom } from '../providers/random.provider';
+import { IdGenerationError } from '../errors/id-generation.error';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * Epoch of the reference KSUID implementation: 2014-05-13T16:53:20.000Z
+ */
+export const KSUID_EPOCH = 1400000000000;
+
+/**
+ * KSUID generator implementation
+ * Generates K-sortable IDs compatible with Segment's KSUID format
+ *
+ * ID Structure (160 bits, 27 Base62 characters):
+ * - 32 bits: Seconds since the epoch
+ * - 128 bits: Random payload
+ *
+ * IDs sort by creation second. IDs minted within the same second are ordered
+ * by their random payload, not by generation order.
+ */
+export class KsuidGenerator implements IIdGenerator<Ksuid> {
+   private readonly epoch: number;
+   private readonly clock: ClockProvider;
+   private readonly random: RandomProvider;
+
+   // Encoded length
+   private readonly LENGTH = 27;
+
+   // Bit lengths
+   private readonly PAYLOAD_BITS = 128n;
+   private readonly TOTAL_BITS = 160;
+
+   // Maximum values
+   private readonly MAX_TIMESTAMP = 2 ** 32 - 1;
+
+   constructor(options?: KsuidOptions) {
+      validateKsuidOptions(options);
+
+      this.epoch = options?.epoch ?? KSUID_EPOCH;
+      this.clock = options?.clock ?? new SystemClock();
+      this.random = options?.random ?? new CryptoRandom();
+   }
+
+   /**
+    * Generates a new KSUID
+    * @returns A 27-character KSUID string
+    * @throws IdGenerationError if the current time is before the epoch or
+    * more than 2^32 seconds after it
+    * @example
+    * const generator = new KsuidGenerator();
+    * const id = generator.getId(); // '0ujtsYcgvSTl8PAuAdqWYSMnLOv'
+    */
+   public getId(): Ksuid {
+      const now = this.clock.now();
+      const timestamp = Math.floor((now - this.epoch) / 1000);
+      if (timestamp < 0 || timestamp > this.MAX_TIMESTAMP) {
+         throw new IdGenerationError(
+            `Cannot encode ${new Date(now).toISOString()} in a KSUID: the timestamp must be between the epoch and 2^32 seconds after it`
+         );
+      }
+
+      const value =
+         (BigInt(timestamp) << this.PAYLOAD_BITS) | this.randomPayload();
+      return encodeId(value, 'base62', { bits: this.TOTAL_BITS }) as Ksuid;
+   }
+
+   /**
+    * Decodes a KSUID into its timestamp and random payload
+    * @param id The KSUID string
+    * @returns The timestamp (with the generator's epoch) and the payload
+    * @throws InvalidIdError if the ID is not a valid KSUID
+    * @example
+    * generator.parse('0ujtsYcgvSTl8PAuAdqWYSMnLOv');
+    * // { timestamp: 1507608047000, date: 2017-10-10T04:00:47.000Z,
+    * //   payload: 'b5a1cd34b5f99d1154fb6853345c9735' }
+    */
+   public parse(id: string): KsuidComponents {
+      if (id.length !== this.LENGTH) {
+         throw new InvalidIdError(
+            `KSUID must be ${this.LENGTH} characters long, got ${id.length}`
+         );
+      }
+
+      const value = decodeId(id, 'base62', { bits: this.TOTAL_BITS });
+      const timestamp = Number(value >> this.PAYLOAD_BITS) * 1000 + this.epoch;
+      return {
+         timestamp,
+         date: new Date(timestamp),
+         payload: (value & ((1n << this.PAYLOAD_BITS) - 1n))
+            .toString(16)
+            .padStart(32, '0'),
+      };
+   }
+
+   /**
+    * Extracts the embedded timestamp from a KSUID
+    * @param id The KSUID string
+    * @returns The Unix timestamp in milliseconds (whole seconds)
+    * @throws InvalidIdError if the ID is not a valid KSUID
+    */
+   public getTimestamp(id: string): number {
+      return this.parse(id).timestamp;
+   }
+
+   /**
+    * Draws the 128-bit random payload from the random provider
+    */
+   private randomPayload(): bigint {
+      const bytes = this.random.getRandomValues(new Uint8Array(16));
+      let value = 0n;
+      for (const byte of bytes) {
+         value = (value << 8n) | BigInt(byte);
+      }
+      return value;
+   }
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'bun:test';
 import { NanoIdGenerator } from './nano-id-generator';
+import { SeededRandom } from '../providers/random.provider';
+import { IdConfigurationError } from '../errors/id-configuration.error';
 
 describe('NanoIdGenerator', () => {
    it('should generate a valid NanoId with default settings', () => {
@@ -65,4 +67,103 @@ describe('NanoIdGenerator', () => {
          expect(id.length).toBe(size);
       });
    });
+
+   it('should generate reproducible IDs with a seeded random source', () => {
+      const a = new NanoIdGenerator({ random: new SeededRandom(42) });
+      const b = new NanoIdGenerator({ random: new SeededRandom(42) });
+      const custom = new NanoIdGenerator({
+         random: new SeededRandom(42),
+         alphabet: '0123456789',
+         size: 12,
+      });
+
+      expect(a.getId()).toBe(b.getId());
+      expect(a.getId().length).toBe(21);
+      expect(custom.getId()).toMatch(/^\d{12}$/);
+   });
+
+   describe('Options validation', () => {
+      it('should reject invalid alphabets and sizes', () => {
+         expect(() => new NanoIdGenerator({ alphabet: '' })).toThrow(
+            'NanoId alphabet must contain between 2 and 256 characters'
+         );
+         expect(() => new NanoIdGenerator({ alphabet: 'abcabc' })).toThrow(
+            "NanoId alphabet contains duplicate character 'a'"
+         );
+         expect(() => new NanoIdGenerator({ size: 0 })).toThrow(
+            IdConfigurationError
+         );
+      });
+
+      it('should report low entropy for the expected volume', () => {
+         let warned = false;
+         new NanoIdGenerator({
+            size: 6,
+            expectedIds: 1e6,
+            onLowEntropy: () => {
+               warned = true;
+            },
+         });
+
+         expect(warned).toBe(true);
+      });
+   });
+
+   describe('Batch generation', () => {
+      it('should generate the requested number of unique IDs', () => {
+         const generator = new NanoIdGenerator();
+         const ids = generator.getIds(1000);
+
+         expect(ids.length).toBe(1000);
+         expect(new Set(ids).size).toBe(1000);
+         ids.forEach((id) => expect(id.length).toBe(21));
+      });
+
+      it('should honour custom alphabets that need rejection sampling', () => {
+         const generator = new NanoIdGenerator({
+            alphabet: '0123456789',
+            size: 12,
+         });
+         const ids = generator.getIds(500);
+
+         expect(ids.length).toBe(500);
+         ids.forEach((id) => expect(id).toMatch(/^\d{12}$/));
+      });
+
+      it('should draw random bytes in one pool', () => {
+         let calls = 0;
+         const random = new SeededRandom(1);
+         const generator = new NanoIdGenerator({
+            random: {
+               getRandomValues: (bytes) => {
+                  calls++;
+                  return random.getRandomValues(bytes);
+               },
+            },
+         });
+
+         generator.getIds(1000);
+         expect(calls).toBe(1);
+      });
+
+      it('should generate reproducible batches with a seeded random source', () => {
+         const a = new NanoIdGenerator({ random: new SeededRandom(5) });
+         const b = new NanoIdGenerator({ random: new SeededRandom(5) });
+
+         expect(a.getIds(3)).toEqual(b.getIds(3));
+      });
+
+      it('should throw error for invalid counts', () => {
+         const generator = new NanoIdGenerator();
+
+         expect(generator.getIds(0)).toEqual([]);
+         expect(() => generator.getIds(-1)).toThrow(
+            'Count must be a non-negative integer'
+         );
+         expect(() => generator.getIds(1.5)).toThrow(
+            'Count must be a non-negative integer'
+         );
+         expect(() => generator.getIds(-1)).toThrow(IdConfigurationError);
+      });
+   });
 });
@@ -1,26 +1,34 @@
-import { nanoid, customAlphabet } from 'nanoid';
-import { IIdGenerator } from '../interfaces/id-generator.interface';
-import type { NanoIdOptions } from '../interfaces/id-generator.interface';
+import { random as cryptoRandom, urlAlphabet } from 'nanoid';
+import {
+   IIdGenerator,
+   RandomProvider,
+} from '../interfaces/id-generator.interface';
+import type {
+   NanoId,
+   NanoIdOptions,
+} from '../interfaces/id-generator.interface';
+import { assertValidCount } from '../utils/generate-ids';
+import { validateNanoIdOptions } from '../utils/validate-options';
 
 /**
  * NanoId generator implementation
  * Generates URL-friendly unique string IDs
  */
-export class NanoIdGenerator implements IIdGenerator {
-   private generator: () => string;
+export class NanoIdGenerator implements IIdGenerator<NanoId> {
+   private readonly alphabet: string;
+   private readonly size: number;
+   private readonly random?: RandomProvider;
+
+   // Bit mask covering the alphabet indexes, used for rejection sampling
+   private readonly mask: number;
 
    constructor(options?: NanoIdOptions) {
-      if (options?.alphabet) {
-         // Custom alphabet generator
-         const size = options.size || 21;
-         this.generator = customAlphabet(options.alphabet, size);
-      } else if (options?.size) {
-         // Custom size with default alphabet
-         this.generator = () => nanoid(options.size);
-      } else {
-         // Default nanoid
-         this.generator = nanoid;
-      }
+      validateNanoIdOptions(options);
+
+      this.alphabet = options?.alphabet ?? urlAlphabet;
+      this.size = options?.size ?? 21;
+      this.random = options?.random;
+      this.mask = (2 << (31 - Math.clz32((this.alphabet.length - 1) | 1))) - 1;
    }
 
    /**
@@ -30,7 +38,57 @@ export class NanoIdGenerator implements IIdGenerator {
     * const generator = new NanoIdGenerator();
     * const id = generator.getId(); // 'V1StGXR8_Z5jdHi6B-myT'
     */
-   public getId(): string {
-      return this.generator();
+   public getId(): NanoId {
+      return this.getIds(1)[0];
+   }
+
+   /**
+    * Generates multiple NanoIds
+    * Random bytes for the whole batch are drawn in one pool
+    * @param count The number of IDs to generate
+    * @returns The generated IDs
+    * @throws IdConfigurationError if count is not a non-negative integer
+    * @example
+    * const generator = new NanoIdGenerator({ size: 10 });
+    * const ids = generator.getIds(1000);
+    */
+   public getIds(count: number): NanoId[] {
+      assertValidCount(count);
+
+      const ids: NanoId[] = [];
+      let id = '';
+
+      while (ids.length < count) {
+         // Expected number of bytes, with headroom for rejected bytes
+         const remaining = (count - ids.length) * this.size - id.length;
+         const headroom = this.mask + 1 === this.alphabet.length ? 1 : 1.6;
+         const poolSize = Math.ceil(
+            (headroom * (this.mask + 1) * remaining) / this.alphabet.length
+         );
+         const pool = this.getRandomBytes(poolSize);
+
+         for (let i = 0; i < pool.length && ids.length < count; i++) {
+            const index = pool[i] & this.mask;
+            if (index >= this.alphabet.length) {
+               continue;
+            }
+            id += this.alphabet[index];
+            if (id.length === this.size) {
+               ids.push(id as NanoId);
+               id = '';
+            }
+         }
+      }
+
+      return ids;
+   }
+
+   /**
+    * Draws random bytes from the configured source (CSPRNG by default)
+    */
+   private getRandomBytes(size: number): Uint8Array {
+      return this.random
+         ? this.random.getRandomValues(new Uint8Array(size))
+         : cryptoRandom(size);
    }
 }
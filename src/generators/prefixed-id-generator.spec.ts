@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'bun:test';
+import { PrefixedIdGenerator } from './prefixed-id-generator';
+import { UlidGenerator } from './ulid-generator';
+import { NanoIdGenerator } from './nano-id-generator';
+import { SnowflakeGenerator } from './snowflake-generator';
+import type { PrefixedId, Ulid } from '../interfaces/id-generator.interface';
+
+describe('PrefixedIdGenerator', () => {
+   it('should prefix IDs from the wrapped generator', () => {
+      const generator = new PrefixedIdGenerator(new UlidGenerator(), {
+         prefix: 'user',
+      });
+      const id: PrefixedId<'user'> = generator.getId();
+
+      expect(id).toMatch(/^user_[0-9A-HJKMNP-TV-Z]{26}$/);
+   });
+
+   it('should use a custom separator', () => {
+      const generator = new PrefixedIdGenerator(
+         new NanoIdGenerator({ size: 10 }),
+         { prefix: 'ord', separator: '-' }
+      );
+
+      expect(generator.getId()).toMatch(/^ord-[A-Za-z0-9_-]{10}$/);
+   });
+
+   it('should generate prefixed batches', () => {
+      const generator = new PrefixedIdGenerator(new SnowflakeGenerator(), {
+         prefix: 'evt',
+      });
+      const ids = generator.getIds(100);
+
+      expect(ids).toHaveLength(100);
+      expect(new Set(ids).size).toBe(100);
+      expect(ids.every((id) => id.startsWith('evt_'))).toBe(true);
+   });
+
+   describe('Prefix Validation', () => {
+      it('should reject empty or too long prefixes', () => {
+         expect(
+            () => new PrefixedIdGenerator(new UlidGenerator(), { prefix: '' })
+         ).toThrow('Prefix must be between 1 and 32 characters long');
+         expect(
+            () =>
+               new PrefixedIdGenerator(new UlidGenerator(), {
+                  prefix: 'a'.repeat(33),
+               })
+         ).toThrow('Prefix must be between 1 and 32 characters long');
+      });
+
+      it('should reject prefixes outside the charset', () => {
+         for (const prefix of ['User', '1user', 'user_id', 'us-er']) {
+            expect(
+               () => new PrefixedIdGenerator(new UlidGenerator(), { prefix })
+            ).toThrow(
+               `Prefix '${prefix}' must start with a lowercase letter and contain only lowercase letters and digits`
+            );
+         }
+      });
+
+      it('should reject unsupported separators', () => {
+         expect(
+            () =>
+               new PrefixedIdGenerator(new UlidGenerator(), {
+                  prefix: 'user',
+                  // @ts-expect-error - Testing invalid separator
+                  separator: '/',
+               })
+         ).toThrow("Separator must be one of '_', '-', '.', ':'");
+      });
+   });
+
+   describe('Parsing', () => {
+      const generator = new PrefixedIdGenerator(new UlidGenerator(), {
+         prefix: 'user',
+      });
+
+      it('should split prefix and ID', () => {
+         const id = generator.getId();
+         const parsed = generator.parse(id);
+         const ulid: Ulid = parsed.id;
+
+         expect(parsed.prefix).toBe('user');
+         expect(`user_${ulid}`).toBe(id);
+      });
+
+      it('should keep separators inside the wrapped ID', () => {
+         const nanoIds = new PrefixedIdGenerator(
+            new NanoIdGenerator({ alphabet: '_-', size: 4 }),
+            { prefix: 'key' }
+         );
+         const id = nanoIds.getId();
+
+         expect(nanoIds.parse(id).id).toBe(id.slice(4));
+      });
+
+      it('should reject IDs with another prefix', () => {
+         expect(() =>
+            generator.parse('ord_01ARZ3NDEKTSV4RRFFQ69G5FAV')
+         ).toThrow("ID must start with prefix 'user_'");
+         expect(() => generator.parse('user_')).toThrow(
+            "ID is missing after prefix 'user_'"
+         );
+      });
+
+      it('should check the prefix with isPrefixed', () => {
+         expect(generator.isPrefixed(generator.getId())).toBe(true);
+         expect(generator.isPrefixed('ord_01ARZ3NDEKTSV4RRFFQ69G5FAV')).toBe(
+            false
+         );
+         expect(generator.isPrefixed(42)).toBe(false);
+      });
+   });
+});
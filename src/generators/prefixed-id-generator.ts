@@ -0,0 +1,105 @@
+import { IIdGenerator } from '../interfaces/id-generator.interface';
+import type {
+   ParsedPrefixedId,
+   PrefixedId,
+   PrefixedIdOptions,
+   PrefixSeparator,
+} from '../interfaces/id-generator.interface';
+import { generateIds } from '../utils/generate-ids';
+import { validatePrefixedIdOptions } from '../utils/validate-options';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * Prefixed ID generator implementation
+ * Wraps any generator to produce Stripe-style IDs such as `user_01HV...`
+ *
+ * Prefixes are 1-32 characters long, start with a lowercase letter and contain
+ * only lowercase letters and digits, so the first separator always marks the
+ * end of the prefix even when the wrapped ID contains the separator itself.
+ */
+export class PrefixedIdGenerator<
+   P extends string,
+   T extends string = string,
+   S extends PrefixSeparator = '_',
+> implements IIdGenerator<PrefixedId<P, S>> {
+   private readonly generator: IIdGenerator<T>;
+   private readonly prefix: P;
+   private readonly separator: S;
+
+   constructor(generator: IIdGenerator<T>, options: PrefixedIdOptions<P, S>) {
+      validatePrefixedIdOptions(options);
+
+      this.generator = generator;
+      this.prefix = options.prefix;
+      this.separator = options.separator ?? ('_' as S);
+   }
+
+   /**
+    * Generates a new prefixed ID
+    * @returns The wrapped generator's ID, prefixed
+    * @example
+    * const generator = new PrefixedIdGenerator(new UlidGenerator(), {
+    *   prefix: 'user',
+    * });
+    * const id = generator.getId(); // 'user_01ARZ3NDEKTSV4RRFFQ69G5FAV'
+    */
+   public getId(): PrefixedId<P, S> {
+      return this.format(this.generator.getId());
+   }
+
+   /**
+    * Generates multiple prefixed IDs
+    * Uses the wrapped generator's batch generation when available
+    * @param count The number of IDs to generate
+    * @returns The generated IDs, in generation order
+    * @throws IdConfigurationError if count is not a non-negative integer
+    */
+   public getIds(count: number): PrefixedId<P, S>[] {
+      return generateIds(this.generator, count).map((id) => this.format(id));
+   }
+
+   /**
+    * Splits a prefixed ID into prefix and wrapped ID
+    * @param id The prefixed ID
+    * @returns The prefix and the ID without prefix
+    * @throws InvalidIdError if the ID does not carry this generator's prefix
+    * @example
+    * generator.parse('user_01ARZ3NDEKTSV4RRFFQ69G5FAV');
+    * // { prefix: 'user', id: '01ARZ3NDEKTSV4RRFFQ69G5FAV' }
+    */
+   public parse(id: string): ParsedPrefixedId<P, T> {
+      const expected = `${this.prefix}${this.separator}`;
+      if (!id.startsWith(expected)) {
+         throw new InvalidIdError(`ID must start with prefix '${expected}'`);
+      }
+      if (id.length === expected.length) {
+         throw new InvalidIdError(`ID is missing after prefix '${expected}'`);
+      }
+
+      return {
+         prefix: this.prefix,
+         id: id.slice(expected.length) as T,
+      };
+   }
+
+   /**
+    * Checks whether an ID carries this generator's prefix
+    * @param id The value to check
+    * @returns True if the value is a prefixed ID of this generator
+    */
+   public isPrefixed(id: unknown): id is PrefixedId<P, S> {
+      const expected = `${this.prefix}${this.separator}`;
+      return (
+         typeof id === 'string' &&
+         id.startsWith(expected) &&
+         id.length > expected.length
+      );
+   }
+
+   /**
+    * Prepends prefix and separator to an ID
+    */
+   private format(id: T): PrefixedId<P, S> {
+      return `${this.prefix}${this.separator}${id}` as PrefixedId<P, S>;
+   }
+}
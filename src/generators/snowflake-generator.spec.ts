@@ -1,5 +1,17 @@
-import { describe, it, expect } from 'bun:test';
+import { describe, it, expect, spyOn } from 'bun:test';
 import { SnowflakeGenerator } from './snowflake-generator';
+import { snowflakeFromDate } from './snowflake-layout';
+import { FixedClock, SteppingClock } from '../providers/clock.provider';
+import { decodeId } from '../utils/id-encoding';
+import { SequenceExhaustedError } from '../errors/sequence-exhausted.error';
+import { ClockMovedBackwardsError } from '../errors/clock-moved-backwards.error';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { IdGenerationError } from '../errors/id-generation.error';
+import type {
+   ClockBackwardsEvent,
+   ClockBackwardsStrategy,
+   SequenceExhaustedStrategy,
+} from '../interfaces/id-generator.interface';
 
 describe('SnowflakeGenerator', () => {
    it('should generate a valid Snowflake ID', () => {
@@ -114,6 +126,24 @@ describe('SnowflakeGenerator', () => {
       expect(
          () => new SnowflakeGenerator({ workerId: -1, processId: 1 })
       ).toThrow('Worker ID must be between 0 and 31');
+      expect(() => new SnowflakeGenerator({ workerId: 32 })).toThrow(
+         IdConfigurationError
+      );
+   });
+
+   it('should honour epoch 0', () => {
+      const generator = new SnowflakeGenerator({
+         epoch: 0,
+         clock: new FixedClock(1800000000000),
+      });
+
+      expect(BigInt(generator.getId()) >> 22n).toBe(1800000000000n);
+   });
+
+   it('should reject epochs in the future', () => {
+      expect(
+         () => new SnowflakeGenerator({ epoch: Date.now() + 60000 })
+      ).toThrow(IdConfigurationError);
    });
 
    it('should throw error for invalid processId', () => {
@@ -138,4 +168,723 @@ describe('SnowflakeGenerator', () => {
       // All IDs should still be unique
       expect(ids.size).toBe(5000);
    });
+
+   describe('Bit layouts', () => {
+      it('should honour a custom layout in getId() and deconstruct()', () => {
+         const generator = new SnowflakeGenerator({
+            workerId: 1000,
+            processId: 0,
+            layout: {
+               timestampBits: 41,
+               workerIdBits: 10,
+               processIdBits: 0,
+               sequenceBits: 12,
+            },
+         });
+         const id = generator.getId();
+         const deconstructed = generator.deconstruct(id);
+
+         expect(deconstructed.workerId).toBe(1000);
+         expect(deconstructed.processId).toBe(0);
+         expect(
+            Math.abs(deconstructed.timestamp - Date.now())
+         ).toBeLessThanOrEqual(5);
+      });
+
+      it('should use the worker/sequence widths of a layout', () => {
+         const generator = new SnowflakeGenerator({
+            workerId: 3,
+            layout: {
+               timestampBits: 41,
+               workerIdBits: 10,
+               processIdBits: 0,
+               sequenceBits: 12,
+            },
+         });
+         const id = BigInt(generator.getId());
+
+         expect(Number((id >> 12n) & 1023n)).toBe(3);
+      });
+
+      it('should honour the sonyflake preset with 10ms ticks', () => {
+         const generator = new SnowflakeGenerator({
+            preset: 'sonyflake',
+            workerId: 65535,
+         });
+         const before = Date.now();
+         const deconstructed = generator.deconstruct(generator.getId());
+
+         expect(deconstructed.workerId).toBe(65535);
+         expect(deconstructed.processId).toBe(0);
+         expect(deconstructed.timestamp % 10).toBe(0);
+         expect(before - deconstructed.timestamp).toBeLessThan(20);
+      });
+
+      it('should handle sequence overflow with a small sequence field', () => {
+         const generator = new SnowflakeGenerator({
+            preset: 'sonyflake',
+            workerId: 1,
+         });
+         const ids = new Set<string>();
+
+         // 256 IDs per 10ms tick
+         for (let i = 0; i < 600; i++) {
+            ids.add(generator.getId());
+         }
+
+         expect(ids.size).toBe(600);
+      });
+
+      it('should honour the discord preset epoch', () => {
+         const generator = new SnowflakeGenerator({ preset: 'discord' });
+         // Snowflake minted by Discord on 2016-04-30T11:18:25.796Z
+         const deconstructed = generator.deconstruct('175928847299117063');
+
+         expect(deconstructed.date.toISOString()).toBe(
+            '2016-04-30T11:18:25.796Z'
+         );
+      });
+
+      it('should let explicit options override the preset', () => {
+         const epoch = new Date('2020-01-01T00:00:00.000Z').getTime();
+         const generator = new SnowflakeGenerator({ preset: 'discord', epoch });
+         const deconstructed = generator.deconstruct(generator.getId());
+
+         expect(
+            Math.abs(deconstructed.timestamp - Date.now())
+         ).toBeLessThanOrEqual(5);
+      });
+
+      it('should reject worker IDs that do not fit the layout', () => {
+         expect(
+            () =>
+               new SnowflakeGenerator({
+                  workerId: 1024,
+                  layout: {
+                     timestampBits: 41,
+                     workerIdBits: 10,
+                     processIdBits: 0,
+                     sequenceBits: 12,
+                  },
+               })
+         ).toThrow('Worker ID must be between 0 and 1023');
+      });
+
+      it('should reject invalid layouts', () => {
+         expect(
+            () =>
+               new SnowflakeGenerator({
+                  layout: {
+                     timestampBits: 42,
+                     workerIdBits: 10,
+                     processIdBits: 5,
+                     sequenceBits: 12,
+                  },
+               })
+         ).toThrow('Snowflake layout uses 69 bits, maximum is 64');
+
+         expect(
+            () =>
+               new SnowflakeGenerator({
+                  layout: {
+                     timestampBits: 41,
+                     workerIdBits: -1,
+                     processIdBits: 5,
+                     sequenceBits: 12,
+                  },
+               })
+         ).toThrow(
+            'Snowflake layout workerIdBits must be a non-negative integer'
+         );
+
+         expect(
+            () =>
+               new SnowflakeGenerator({
+                  layout: {
+                     timestampBits: 41,
+                     workerIdBits: 5,
+                     processIdBits: 5,
+                     sequenceBits: 0,
+                  },
+               })
+         ).toThrow('Snowflake layout sequenceBits must be at least 1');
+      });
+
+      it('should reject invalid tick durations', () => {
+         expect(() => new SnowflakeGenerator({ tickDuration: 0 })).toThrow(
+            'Tick duration must be a positive integer'
+         );
+      });
+
+      it('should throw when the timestamp field overflows', () => {
+         const generator = new SnowflakeGenerator({
+            epoch: new Date('2020-01-01T00:00:00.000Z').getTime(),
+            layout: {
+               timestampBits: 20,
+               workerIdBits: 5,
+               processIdBits: 5,
+               sequenceBits: 12,
+            },
+         });
+
+         expect(() => generator.getId()).toThrow('Timestamp overflow');
+      });
+
+      it('should refuse a clock before the epoch', () => {
+         const epoch = 1733011200000;
+         const strategies: ClockBackwardsStrategy[] = ['throw', 'borrow'];
+         for (const clockBackwardsStrategy of strategies) {
+            const generator = new SnowflakeGenerator({
+               clock: new FixedClock(epoch - 1),
+               clockBackwardsStrategy,
+               clockBackwardsTolerance: 10000,
+            });
+
+            const error = new IdGenerationError(
+               'Clock reads 2024-11-30T23:59:59.999Z, before the epoch 2024-12-01T00:00:00.000Z'
+            );
+            expect(() => generator.getId()).toThrow(error);
+            expect(() => generator.getIds(2)).toThrow(error);
+            expect(generator.getStats().clockRegressions).toBe(0);
+         }
+      });
+   });
+
+   describe('Clock regression', () => {
+      const now = 1765000000000;
+
+      it('should throw by default when the clock moves backwards', () => {
+         const generator = new SnowflakeGenerator();
+         const nowSpy = spyOn(Date, 'now').mockReturnValue(now);
+
+         try {
+            generator.getId();
+            nowSpy.mockReturnValue(now - 5);
+
+            expect(() => generator.getId()).toThrow(
+               'Clock moved backwards. Refusing to generate ID for 5 milliseconds'
+            );
+         } finally {
+            nowSpy.mockRestore();
+         }
+      });
+
+      it('should throw a ClockMovedBackwardsError carrying the drift', () => {
+         const times = [now, now - 7];
+         const generator = new SnowflakeGenerator({
+            clock: { now: () => times.shift() ?? now },
+         });
+         generator.getId();
+
+         let error: unknown;
+         try {
+            generator.getId();
+         } catch (caught) {
+            error = caught;
+         }
+
+         expect(error).toBeInstanceOf(ClockMovedBackwardsError);
+         expect((error as ClockMovedBackwardsError).code).toBe(
+            'CLOCK_MOVED_BACKWARDS'
+         );
+         expect((error as ClockMovedBackwardsError).drift).toBe(7);
+      });
+
+      it('should wait for the clock to catch up with the wait strategy', () => {
+         const events: ClockBackwardsEvent[] = [];
+         const generator = new SnowflakeGenerator({
+            clockBackwardsStrategy: 'wait',
+            onClockBackwards: (event) => events.push(event),
+         });
+         const nowSpy = spyOn(Date, 'now').mockReturnValue(now);
+
+         try {
+            const id1 = generator.getId();
+
+            // Clock jumps back 3ms, then ticks forward on every read
+            let current = now - 3;
+            nowSpy.mockImplementation(() => current++);
+            const id2 = generator.getId();
+
+            expect(BigInt(id2) > BigInt(id1)).toBe(true);
+            expect(generator.deconstruct(id2).timestamp).toBeGreaterThanOrEqual(
+               now
+            );
+            expect(events).toEqual([
+               {
+                  drift: 3,
+                  lastTimestamp: now,
+                  currentTimestamp: now - 3,
+                  strategy: 'wait',
+               },
+            ]);
+         } finally {
+            nowSpy.mockRestore();
+         }
+      });
+
+      it('should throw when the drift exceeds the tolerance', () => {
+         const generator = new SnowflakeGenerator({
+            clockBackwardsStrategy: 'wait',
+            clockBackwardsTolerance: 10,
+         });
+         const nowSpy = spyOn(Date, 'now').mockReturnValue(now);
+
+         try {
+            generator.getId();
+            nowSpy.mockReturnValue(now - 11);
+
+            expect(() => generator.getId()).toThrow(
+               'Drift of 11 milliseconds exceeds the tolerance of 10 milliseconds'
+            );
+         } finally {
+            nowSpy.mockRestore();
+         }
+      });
+
+      it('should keep using the last timestamp with the borrow strategy', () => {
+         const generator = new SnowflakeGenerator({
+            clockBackwardsStrategy: 'borrow',
+            layout: {
+               timestampBits: 41,
+               workerIdBits: 5,
+               processIdBits: 5,
+               sequenceBits: 2,
+            },
+         });
+         const nowSpy = spyOn(Date, 'now').mockReturnValue(now);
+
+         try {
+            const ids = [generator.getId()];
+            nowSpy.mockReturnValue(now - 100);
+
+            // 3 remaining sequence values, then the next tick is borrowed
+            for (let i = 0; i < 4; i++) {
+               ids.push(generator.getId());
+            }
+
+            const timestamps = ids.map(
+               (id) => generator.deconstruct(id).timestamp
+            );
+            expect(timestamps).toEqual([now, now, now, now, now + 1]);
+            for (let i = 1; i < ids.length; i++) {
+               expect(BigInt(ids[i]) > BigInt(ids[i - 1])).toBe(true);
+            }
+         } finally {
+            nowSpy.mockRestore();
+         }
+      });
+
+      it('should report regressions through the hook before throwing', () => {
+         let drift = 0;
+         const generator = new SnowflakeGenerator({
+            onClockBackwards: (event) => {
+               drift = event.drift;
+            },
+         });
+         const nowSpy = spyOn(Date, 'now').mockReturnValue(now);
+
+         try {
+            generator.getId();
+            nowSpy.mockReturnValue(now - 42);
+
+            expect(() => generator.getId()).toThrow('Clock moved backwards');
+            expect(drift).toBe(42);
+         } finally {
+            nowSpy.mockRestore();
+         }
+      });
+
+      it('should wait without blocking in getIdAsync()', async () => {
+         const generator = new SnowflakeGenerator({
+            clockBackwardsStrategy: 'wait',
+         });
+         const realNow = Date.now();
+         const nowSpy = spyOn(Date, 'now');
+
+         try {
+            nowSpy.mockReturnValue(realNow + 5);
+            const id1 = await generator.getIdAsync();
+
+            // Clock is 5ms behind the last ID until real time catches up
+            nowSpy.mockRestore();
+            const id2 = await generator.getIdAsync();
+
+            expect(BigInt(id2) > BigInt(id1)).toBe(true);
+            expect(Date.now()).toBeGreaterThanOrEqual(realNow + 5);
+         } finally {
+            nowSpy.mockRestore();
+         }
+      });
+
+      it('should handle sequence overflow in getIdAsync()', async () => {
+         const generator = new SnowflakeGenerator();
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 5000; i++) {
+            ids.add(await generator.getIdAsync());
+         }
+
+         expect(ids.size).toBe(5000);
+      });
+
+      it('should reject invalid clock regression settings', () => {
+         expect(
+            () =>
+               new SnowflakeGenerator({
+                  clockBackwardsStrategy: 'ignore' as ClockBackwardsStrategy,
+               })
+         ).toThrow("Unknown clock backwards strategy: 'ignore'");
+         expect(
+            () => new SnowflakeGenerator({ clockBackwardsTolerance: -1 })
+         ).toThrow('Clock backwards tolerance must be a non-negative number');
+      });
+   });
+
+   describe('Injected clock', () => {
+      it('should generate reproducible IDs with a fixed clock', () => {
+         const epoch = 1733011200000;
+         const generator = new SnowflakeGenerator({
+            clock: new FixedClock(epoch + 1000),
+            workerId: 1,
+            processId: 1,
+         });
+
+         // 1000 << 22 | 1 << 17 | 1 << 12 | sequence
+         expect(generator.getId()).toBe('4194439168');
+         expect(generator.getId()).toBe('4194439169');
+      });
+
+      it('should advance past sequence exhaustion with a stepping clock', () => {
+         const generator = new SnowflakeGenerator({
+            clock: new SteppingClock(1733011200000, 1),
+            layout: {
+               timestampBits: 41,
+               workerIdBits: 5,
+               processIdBits: 5,
+               sequenceBits: 2,
+            },
+         });
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 20; i++) {
+            ids.add(generator.getId());
+         }
+
+         expect(ids.size).toBe(20);
+      });
+   });
+
+   describe('Replacement', () => {
+      it('should continue the sequence of the replaced generator', () => {
+         const clock = new FixedClock(1733011200000 + 1000);
+         const previous = new SnowflakeGenerator({ clock });
+         const first = previous.getId();
+         const next = new SnowflakeGenerator({
+            clock,
+            clockBackwardsStrategy: 'borrow',
+         });
+
+         next.continueFrom(previous);
+
+         expect(BigInt(next.getId())).toBe(BigInt(first) + 1n);
+      });
+
+      it('should refuse a generator with another ID space', () => {
+         const generator = new SnowflakeGenerator();
+
+         expect(() =>
+            generator.continueFrom(
+               new SnowflakeGenerator({ preset: 'discord' })
+            )
+         ).toThrow(IdConfigurationError);
+      });
+   });
+
+   describe('Batch generation', () => {
+      it('should generate unique, ascending IDs', () => {
+         const generator = new SnowflakeGenerator({
+            workerId: 1,
+            processId: 1,
+         });
+         const ids = generator.getIds(10000).map((id) => BigInt(id));
+
+         expect(new Set(ids).size).toBe(10000);
+         for (let i = 1; i < ids.length; i++) {
+            expect(ids[i] > ids[i - 1]).toBe(true);
+         }
+      });
+
+      it('should reserve a whole sequence range without re-reading the clock', () => {
+         let reads = 0;
+         const clock = new FixedClock(1733011200000 + 1000);
+         const generator = new SnowflakeGenerator({
+            clock: {
+               now: () => {
+                  reads++;
+                  return clock.now();
+               },
+            },
+         });
+
+         const ids = generator.getIds(4096);
+
+         expect(reads).toBe(1);
+         expect(generator.deconstruct(ids[0]).sequence).toBe(0);
+         expect(generator.deconstruct(ids[4095]).sequence).toBe(4095);
+      });
+
+      it('should continue the sequence of previous calls', () => {
+         const generator = new SnowflakeGenerator({
+            clock: new SteppingClock(1733011200000, 0),
+         });
+         const first = generator.getId();
+         const batch = generator.getIds(3);
+
+         expect(batch.map((id) => generator.deconstruct(id).sequence)).toEqual([
+            1, 2, 3,
+         ]);
+         expect(BigInt(batch[0]) > BigInt(first)).toBe(true);
+      });
+
+      it('should span ticks when the sequence is exhausted', () => {
+         const generator = new SnowflakeGenerator({
+            clock: new SteppingClock(1733011200000, 1),
+            layout: {
+               timestampBits: 41,
+               workerIdBits: 5,
+               processIdBits: 5,
+               sequenceBits: 2,
+            },
+         });
+         const ids = generator.getIds(10);
+
+         expect(new Set(ids).size).toBe(10);
+         expect(generator.deconstruct(ids[4]).sequence).toBe(0);
+      });
+   });
+
+   describe('Sequence exhaustion', () => {
+      const layout = {
+         timestampBits: 41,
+         workerIdBits: 5,
+         processIdBits: 5,
+         sequenceBits: 2,
+      };
+
+      it('should throw a SequenceExhaustedError with the throw strategy', () => {
+         const generator = new SnowflakeGenerator({
+            clock: new FixedClock(1800000000000),
+            layout,
+            sequenceExhaustedStrategy: 'throw',
+         });
+         generator.getIds(4);
+
+         let error: unknown;
+         try {
+            generator.getId();
+         } catch (caught) {
+            error = caught;
+         }
+
+         expect(error).toBeInstanceOf(SequenceExhaustedError);
+         expect((error as SequenceExhaustedError).message).toBe(
+            'Sequence exhausted. All 4 IDs of the tick at 1800000000000 have been issued'
+         );
+         expect((error as SequenceExhaustedError).timestamp).toBe(
+            1800000000000
+         );
+         expect((error as SequenceExhaustedError).retryAt).toBe(1800000000001);
+      });
+
+      it('should throw from batches that span ticks with the throw strategy', () => {
+         const generator = new SnowflakeGenerator({
+            clock: new FixedClock(1800000000000),
+            layout,
+            sequenceExhaustedStrategy: 'throw',
+         });
+
+         expect(() => generator.getIds(5)).toThrow(SequenceExhaustedError);
+      });
+
+      it('should reject asynchronous generation with the throw strategy', async () => {
+         const generator = new SnowflakeGenerator({
+            clock: new FixedClock(1800000000000),
+            layout,
+            sequenceExhaustedStrategy: 'throw',
+         });
+         generator.getIds(4);
+
+         await expect(generator.getIdAsync()).rejects.toThrow(
+            SequenceExhaustedError
+         );
+      });
+
+      it('should sleep until the next tick with the wait strategy', () => {
+         const generator = new SnowflakeGenerator({
+            layout,
+            sequenceExhaustedStrategy: 'wait',
+         });
+         const ids = generator.getIds(20);
+
+         expect(new Set(ids).size).toBe(20);
+         expect(generator.getStats().sequenceExhaustions).toBeGreaterThan(0);
+      });
+
+      it('should reject unknown strategies', () => {
+         expect(
+            () =>
+               new SnowflakeGenerator({
+                  sequenceExhaustedStrategy:
+                     'drop' as SequenceExhaustedStrategy,
+               })
+         ).toThrow("Unknown sequence exhausted strategy: 'drop'");
+      });
+   });
+
+   describe('Stats', () => {
+      it('should start with zero counters', () => {
+         expect(new SnowflakeGenerator().getStats()).toEqual({
+            idsIssued: 0,
+            sequenceExhaustions: 0,
+            clockRegressions: 0,
+            maxWaitTime: 0,
+         });
+      });
+
+      it('should count issued IDs and sequence exhaustions', () => {
+         const generator = new SnowflakeGenerator({
+            clock: new SteppingClock(1800000000000, 0.25),
+            layout: {
+               timestampBits: 41,
+               workerIdBits: 5,
+               processIdBits: 5,
+               sequenceBits: 2,
+            },
+         });
+         generator.getId();
+         generator.getIds(8);
+
+         const stats = generator.getStats();
+         expect(stats.idsIssued).toBe(9);
+         expect(stats.sequenceExhaustions).toBeGreaterThan(0);
+         expect(stats.maxWaitTime).toBeGreaterThan(0);
+      });
+
+      it('should count clock regressions', () => {
+         const times = [1800000000010, 1800000000000, 1800000000020];
+         const generator = new SnowflakeGenerator({
+            clock: { now: () => times.shift() ?? 1800000000020 },
+            clockBackwardsStrategy: 'wait',
+         });
+         generator.getId();
+         generator.getId();
+
+         expect(generator.getStats().clockRegressions).toBe(1);
+         expect(generator.getStats().idsIssued).toBe(2);
+      });
+
+      it('should return a snapshot', () => {
+         const generator = new SnowflakeGenerator();
+         const stats = generator.getStats();
+         generator.getId();
+
+         expect(stats.idsIssued).toBe(0);
+         expect(generator.getStats().idsIssued).toBe(1);
+      });
+   });
+
+   describe('Encoding', () => {
+      it('should generate IDs in the configured encoding', () => {
+         const clock = new FixedClock(1800000000000);
+         const decimal = new SnowflakeGenerator({ clock }).getId();
+         const base62 = new SnowflakeGenerator({
+            clock,
+            encoding: 'base62',
+         }).getId();
+
+         expect(base62).toMatch(/^[0-9A-Za-z]{11}$/);
+         expect(decodeId(base62, 'base62')).toBe(BigInt(decimal));
+      });
+
+      it('should deconstruct IDs in its own encoding', () => {
+         const generator = new SnowflakeGenerator({
+            workerId: 7,
+            encoding: 'base58',
+            clock: new FixedClock(1800000000000),
+         });
+         const components = generator.deconstruct(generator.getId());
+
+         expect(components.workerId).toBe(7);
+         expect(components.timestamp).toBe(1800000000000);
+      });
+
+      it('should encode batches', () => {
+         const ids = new SnowflakeGenerator({ encoding: 'hex' }).getIds(100);
+
+         expect(ids.every((id) => /^[0-9a-f]{16}$/.test(id))).toBe(true);
+         expect([...ids].sort()).toEqual(ids);
+      });
+   });
+
+   describe('snowflakeFromDate', () => {
+      it('should build the smallest ID of the tick', () => {
+         expect(
+            snowflakeFromDate(new Date('2016-04-30T11:18:25.796Z'), {
+               preset: 'discord',
+            })
+         ).toBe('175928847298985984');
+      });
+
+      it('should follow the epoch, layout and tick duration of the generator', () => {
+         const options = {
+            epoch: 1700000000000,
+            layout: {
+               timestampBits: 39,
+               workerIdBits: 8,
+               processIdBits: 0,
+               sequenceBits: 16,
+            },
+            tickDuration: 10,
+         };
+         const clock = new FixedClock(1800000000005);
+         const generator = new SnowflakeGenerator({
+            ...options,
+            workerId: 200,
+            clock,
+         });
+         const id = generator.getId();
+         const bound = snowflakeFromDate(1800000000005, options);
+
+         expect(generator.deconstruct(bound)).toMatchObject({
+            timestamp: 1800000000000,
+            workerId: 0,
+            sequence: 0,
+         });
+         expect(BigInt(bound) <= BigInt(id)).toBe(true);
+         expect(
+            BigInt(snowflakeFromDate(1800000000010, options))
+         ).toBeGreaterThan(BigInt(id));
+      });
+
+      it('should apply the encoding', () => {
+         expect(snowflakeFromDate(1800000000000, { encoding: 'hex' })).toMatch(
+            /^[0-9a-f]{16}$/
+         );
+      });
+
+      it('should reject dates out of the timestamp range', () => {
+         expect(() => snowflakeFromDate(0)).toThrow(
+            new IdConfigurationError(
+               'Date 1970-01-01T00:00:00.000Z is before the Snowflake epoch 2024-12-01T00:00:00.000Z'
+            )
+         );
+         expect(() =>
+            snowflakeFromDate(new Date('2200-01-01T00:00:00Z'))
+         ).toThrow('does not fit in the 41-bit timestamp');
+         expect(() => snowflakeFromDate(new Date('invalid'))).toThrow(
+            IdConfigurationError
+         );
+      });
+   });
 });
@@ -1,159 +1,480 @@
-import { IIdGenerator } from '../interfaces/id-generator.interface';
-import type { SnowflakeOptions } from '../interfaces/id-generator.interface';
+import {
+   IIdGenerator,
+   ClockProvider,
+} from '../interfaces/id-generator.interface';
+import type {
+   ClockBackwardsStrategy,
+   SequenceExhaustedStrategy,
+   Snowflake,
+   SnowflakeComponents,
+   SnowflakeLayout,
+   SnowflakeOptions,
+   SnowflakeStats,
+   StringIdEncoding,
+} from '../interfaces/id-generator.interface';
+import {
+   deconstructSnowflake,
+   resolveSnowflakeNodeId,
+} from './snowflake-layout';
+import { SystemClock } from '../providers/clock.provider';
+import { assertValidCount } from '../utils/generate-ids';
+import { encodeId } from '../utils/id-encoding';
+import {
+   validateSnowflakeNodeId,
+   validateSnowflakeOptions,
+} from '../utils/validate-options';
+import { SequenceExhaustedError } from '../errors/sequence-exhausted.error';
+import { ClockMovedBackwardsError } from '../errors/clock-moved-backwards.error';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { IdGenerationError } from '../errors/id-generation.error';
+
+/**
+ * Signals that generation must wait until the clock reaches the given tick
+ */
+interface WaitRequest {
+   waitUntil: number;
+   reason: 'sequence' | 'clock';
+}
+
+/**
+ * A contiguous range of sequence numbers reserved within one tick
+ */
+interface SequenceRange {
+   timestamp: number;
+   firstSequence: number;
+   count: number;
+}
 
 /**
  * Snowflake ID generator implementation
  * Generates distributed, time-ordered 64-bit IDs
  * Based on Twitter's Snowflake algorithm
  *
- * ID Structure (64 bits):
+ * Default ID Structure (64 bits):
  * - 41 bits: Timestamp (milliseconds since epoch)
  * - 5 bits: Worker ID (0-31)
  * - 5 bits: Process ID (0-31)
  * - 12 bits: Sequence number (0-4095)
+ *
+ * The layout and tick duration can be changed through `layout`,
+ * `tickDuration` or a named `preset` (see SNOWFLAKE_PRESETS)
+ *
+ * Clock regressions are handled by `clockBackwardsStrategy`. Waits (clock
+ * regressions under 'wait', sequence exhaustion) busy-spin in getId();
+ * use getIdAsync() to wait without blocking the event loop.
+ *
+ * Node IDs from a `nodeIdProvider` are read when the generator is built, and
+ * read again before each reservation of sequence numbers: once a lease is
+ * released or lost, generation throws instead of minting IDs for a node ID
+ * another node may now hold.
  */
-export class SnowflakeGenerator implements IIdGenerator {
-   private readonly workerId: number;
-   private readonly processId: number;
+export class SnowflakeGenerator implements IIdGenerator<Snowflake> {
+   private workerId: number;
+   private processId: number;
+   private readonly nodeIdOptions?: Pick<
+      SnowflakeOptions,
+      'workerId' | 'processId' | 'nodeIdProvider'
+   >;
    private readonly epoch: number;
+   private readonly tickDuration: number;
+   private readonly layout: SnowflakeLayout;
+   private readonly clock: ClockProvider;
+   private readonly clockBackwardsStrategy: ClockBackwardsStrategy;
+   private readonly clockBackwardsTolerance: number;
+   private readonly onClockBackwards: SnowflakeOptions['onClockBackwards'];
+   private readonly encoding: StringIdEncoding;
+   private readonly sequenceExhaustedStrategy: SequenceExhaustedStrategy;
    private sequence: number = 0;
    private lastTimestamp: number = -1;
-
-   // Bit lengths
-   private readonly WORKER_ID_BITS = 5;
-   private readonly PROCESS_ID_BITS = 5;
-   private readonly SEQUENCE_BITS = 12;
+   private sleepCell?: Int32Array;
+   private stats: SnowflakeStats = {
+      idsIssued: 0,
+      sequenceExhaustions: 0,
+      clockRegressions: 0,
+      maxWaitTime: 0,
+   };
 
    // Maximum values
-   private readonly MAX_WORKER_ID = (1 << this.WORKER_ID_BITS) - 1; // 31
-   private readonly MAX_PROCESS_ID = (1 << this.PROCESS_ID_BITS) - 1; // 31
-   private readonly MAX_SEQUENCE = (1 << this.SEQUENCE_BITS) - 1; // 4095
+   private readonly MAX_TIMESTAMP: number;
+   private readonly MAX_SEQUENCE: number;
 
    // Bit shifts
-   private readonly TIMESTAMP_SHIFT =
-      this.WORKER_ID_BITS + this.PROCESS_ID_BITS + this.SEQUENCE_BITS; // 22
-   private readonly WORKER_ID_SHIFT = this.PROCESS_ID_BITS + this.SEQUENCE_BITS; // 17
-   private readonly PROCESS_ID_SHIFT = this.SEQUENCE_BITS; // 12
+   private readonly TIMESTAMP_SHIFT: bigint;
+   private readonly WORKER_ID_SHIFT: bigint;
+   private readonly PROCESS_ID_SHIFT: bigint;
 
    constructor(options?: SnowflakeOptions) {
+      // Resolve and validate epoch, bit layout, tick duration and node IDs
       // Default epoch: December 1, 2025, 00:00:00 UTC (1733011200000)
-      // Users can override this by passing options.epoch
-      this.epoch = options?.epoch || 1733011200000;
-
-      // Validate and set worker ID (0-31)
-      this.workerId = options?.workerId ?? 1;
-      if (this.workerId < 0 || this.workerId > this.MAX_WORKER_ID) {
-         throw new Error(
-            `Worker ID must be between 0 and ${this.MAX_WORKER_ID}`
-         );
-      }
+      const config = validateSnowflakeOptions(options);
+      this.epoch = config.epoch;
+      this.tickDuration = config.tickDuration;
+      this.layout = config.layout;
+      this.clock = options?.clock ?? new SystemClock();
+      this.clockBackwardsStrategy = config.clockBackwardsStrategy;
+      this.clockBackwardsTolerance = config.clockBackwardsTolerance;
+      this.onClockBackwards = config.onClockBackwards;
+      this.encoding = options?.encoding ?? 'decimal';
+      this.sequenceExhaustedStrategy = config.sequenceExhaustedStrategy;
 
-      // Validate and set process ID (0-31)
-      this.processId = options?.processId ?? 1;
-      if (this.processId < 0 || this.processId > this.MAX_PROCESS_ID) {
-         throw new Error(
-            `Process ID must be between 0 and ${this.MAX_PROCESS_ID}`
-         );
+      const { timestampBits, workerIdBits, processIdBits, sequenceBits } =
+         this.layout;
+
+      this.MAX_TIMESTAMP = 2 ** timestampBits - 1;
+      this.MAX_SEQUENCE = 2 ** sequenceBits - 1;
+
+      this.TIMESTAMP_SHIFT = BigInt(
+         workerIdBits + processIdBits + sequenceBits
+      );
+      this.WORKER_ID_SHIFT = BigInt(processIdBits + sequenceBits);
+      this.PROCESS_ID_SHIFT = BigInt(sequenceBits);
+
+      // Node IDs not set explicitly are read from the provider
+      if (
+         options?.nodeIdProvider &&
+         (options.workerId === undefined || options.processId === undefined)
+      ) {
+         this.nodeIdOptions = {
+            workerId: options.workerId,
+            processId: options.processId,
+            nodeIdProvider: options.nodeIdProvider,
+         };
       }
+
+      this.workerId = config.workerId;
+      this.processId = config.processId;
+      this.refreshNodeId();
    }
 
    /**
     * Generates a new Snowflake ID
-    * @returns A 64-bit Snowflake ID as a string
+    * Blocks when the sequence is exhausted (see sequenceExhaustedStrategy) or
+    * the 'wait' clock backwards strategy applies
+    * @returns A 64-bit Snowflake ID as a string (decimal unless an encoding is set)
+    * @throws ClockMovedBackwardsError if the clock moved backwards and the strategy refuses it
+    * @throws SequenceExhaustedError if the sequence is exhausted and the
+    * strategy is 'throw'
+    * @throws IdGenerationError if the clock reads before the epoch or the
+    * timestamp field overflows
     * @example
     * const generator = new SnowflakeGenerator({ workerId: 1, processId: 1 });
     * const id = generator.getId(); // '1234567890123456789'
     */
-   public getId(): string {
+   public getId(): Snowflake {
+      for (;;) {
+         const result = this.reserve(1);
+         if ('waitUntil' in result) {
+            this.waitUntil(result);
+            continue;
+         }
+         return this.format(result)[0];
+      }
+   }
+
+   /**
+    * Generates multiple Snowflake IDs
+    * Reserves whole sequence ranges per tick instead of reading the clock per ID
+    * @param count The number of IDs to generate
+    * @returns The generated IDs, in ascending order
+    * @throws IdConfigurationError if count is invalid
+    * @throws ClockMovedBackwardsError if the clock moved backwards and the
+    * strategy refuses it
+    * @throws SequenceExhaustedError if the sequence is exhausted and the
+    * strategy is 'throw'
+    * @throws IdGenerationError if the clock reads before the epoch or the
+    * timestamp field overflows
+    * @example
+    * const generator = new SnowflakeGenerator({ workerId: 1, processId: 1 });
+    * const ids = generator.getIds(10000);
+    */
+   public getIds(count: number): Snowflake[] {
+      assertValidCount(count);
+
+      const ids: Snowflake[] = [];
+      while (ids.length < count) {
+         const result = this.reserve(count - ids.length);
+         if ('waitUntil' in result) {
+            this.waitUntil(result);
+            continue;
+         }
+         ids.push(...this.format(result));
+      }
+      return ids;
+   }
+
+   /**
+    * Generates a new Snowflake ID without blocking the event loop
+    * Waits are done with timers instead of busy-spinning
+    * @returns A promise resolving to a 64-bit Snowflake ID as a string
+    * @throws ClockMovedBackwardsError if the clock moved backwards and the strategy refuses it
+    * @throws SequenceExhaustedError if the sequence is exhausted and the
+    * strategy is 'throw'
+    * @throws IdGenerationError if the clock reads before the epoch or the
+    * timestamp field overflows
+    * @example
+    * const generator = new SnowflakeGenerator({ clockBackwardsStrategy: 'wait' });
+    * const id = await generator.getIdAsync(); // '1234567890123456789'
+    */
+   public async getIdAsync(): Promise<Snowflake> {
+      for (;;) {
+         const result = this.reserve(1);
+         if ('waitUntil' in result) {
+            await this.sleepUntil(result.waitUntil);
+            continue;
+         }
+         return this.format(result)[0];
+      }
+   }
+
+   /**
+    * Gets the generator's counters
+    * @returns A snapshot of the counters
+    * @example
+    * const { idsIssued, sequenceExhaustions, maxWaitTime } = generator.getStats();
+    */
+   public getStats(): SnowflakeStats {
+      return { ...this.stats };
+   }
+
+   /**
+    * Continues the sequence of a generator this one replaces for the same node
+    * IDs then stay unique and increasing across the replacement, e.g. when
+    * the clock or the behavioural options of a node change
+    * @param previous The replaced generator
+    * @throws IdConfigurationError if the generators do not share their epoch,
+    * layout and tick duration
+    * @example
+    * const next = new SnowflakeGenerator({ ...options, clockBackwardsStrategy: 'borrow' });
+    * next.continueFrom(generator);
+    */
+   public continueFrom(previous: SnowflakeGenerator): void {
+      if (
+         previous.epoch !== this.epoch ||
+         previous.tickDuration !== this.tickDuration ||
+         JSON.stringify(previous.layout) !== JSON.stringify(this.layout)
+      ) {
+         throw new IdConfigurationError(
+            'Cannot continue a Snowflake generator with another epoch, layout or tick duration'
+         );
+      }
+      if (previous.lastTimestamp > this.lastTimestamp) {
+         this.lastTimestamp = previous.lastTimestamp;
+         this.sequence = previous.sequence;
+      }
+   }
+
+   /**
+    * Deconstructs a Snowflake ID into its components
+    * @param id The Snowflake ID to deconstruct
+    * @returns Object containing timestamp, workerId, processId, and sequence
+    */
+   public deconstruct(id: string): SnowflakeComponents {
+      return deconstructSnowflake(id, {
+         epoch: this.epoch,
+         layout: this.layout,
+         tickDuration: this.tickDuration,
+         encoding: this.encoding,
+      });
+   }
+
+   /**
+    * Reserves up to `max` sequence numbers in the current tick,
+    * or tells the caller which tick to wait for
+    */
+   private reserve(max: number): SequenceRange | WaitRequest {
+      this.refreshNodeId();
       let timestamp = this.getCurrentTimestamp();
+      let borrowing = false;
+
+      // A clock before the epoch is misconfigured, not a regression
+      if (timestamp < 0) {
+         throw new IdGenerationError(
+            `Clock reads ${new Date(this.clock.now()).toISOString()}, before the epoch ${new Date(this.epoch).toISOString()}`
+         );
+      }
 
       // Check for clock moving backwards
       if (timestamp < this.lastTimestamp) {
-         throw new Error(
-            `Clock moved backwards. Refusing to generate ID for ${this.lastTimestamp - timestamp} milliseconds`
-         );
+         const drift = (this.lastTimestamp - timestamp) * this.tickDuration;
+         this.stats.clockRegressions++;
+         this.onClockBackwards?.({
+            drift,
+            lastTimestamp: this.toUnixTimestamp(this.lastTimestamp),
+            currentTimestamp: this.toUnixTimestamp(timestamp),
+            strategy: this.clockBackwardsStrategy,
+         });
+
+         if (this.clockBackwardsStrategy === 'throw') {
+            throw new ClockMovedBackwardsError(
+               `Clock moved backwards. Refusing to generate ID for ${drift} milliseconds`,
+               drift
+            );
+         }
+         if (drift > this.clockBackwardsTolerance) {
+            throw new ClockMovedBackwardsError(
+               `Clock moved backwards. Drift of ${drift} milliseconds exceeds the tolerance of ${this.clockBackwardsTolerance} milliseconds`,
+               drift
+            );
+         }
+         if (this.clockBackwardsStrategy === 'wait') {
+            return { waitUntil: this.lastTimestamp, reason: 'clock' };
+         }
+
+         // Borrow - keep using the last timestamp
+         timestamp = this.lastTimestamp;
+         borrowing = true;
       }
 
-      // Same millisecond - increment sequence
+      let firstSequence: number;
       if (timestamp === this.lastTimestamp) {
-         this.sequence = (this.sequence + 1) & this.MAX_SEQUENCE;
-
-         // Sequence overflow - wait for next millisecond
-         if (this.sequence === 0) {
-            timestamp = this.waitNextMillis(timestamp);
+         if (this.sequence < this.MAX_SEQUENCE) {
+            // Same tick - continue sequence
+            firstSequence = this.sequence + 1;
+         } else if (borrowing) {
+            // Sequence exhausted while borrowing - borrow the next tick
+            timestamp++;
+            firstSequence = 0;
+         } else {
+            // Sequence exhausted - wait for next tick
+            this.stats.sequenceExhaustions++;
+            if (this.sequenceExhaustedStrategy === 'throw') {
+               throw new SequenceExhaustedError(
+                  this.toUnixTimestamp(this.lastTimestamp),
+                  this.toUnixTimestamp(this.lastTimestamp + 1),
+                  this.MAX_SEQUENCE + 1
+               );
+            }
+            return { waitUntil: this.lastTimestamp + 1, reason: 'sequence' };
          }
       } else {
-         // New millisecond - reset sequence
-         this.sequence = 0;
+         // New tick - reset sequence
+         firstSequence = 0;
       }
 
-      this.lastTimestamp = timestamp;
+      if (timestamp > this.MAX_TIMESTAMP) {
+         throw new IdGenerationError(
+            `Timestamp overflow. The ${this.layout.timestampBits}-bit timestamp is exhausted for this epoch`
+         );
+      }
 
-      // Construct the ID using BigInt to avoid precision loss
-      const timestampBits =
-         BigInt(timestamp - this.epoch) << BigInt(this.TIMESTAMP_SHIFT);
-      const workerIdBits =
-         BigInt(this.workerId) << BigInt(this.WORKER_ID_SHIFT);
-      const processIdBits =
-         BigInt(this.processId) << BigInt(this.PROCESS_ID_SHIFT);
-      const sequenceBits = BigInt(this.sequence);
+      const count = Math.min(max, this.MAX_SEQUENCE - firstSequence + 1);
+      this.sequence = firstSequence + count - 1;
+      this.lastTimestamp = timestamp;
+      this.stats.idsIssued += count;
 
-      const id = timestampBits | workerIdBits | processIdBits | sequenceBits;
+      return { timestamp, firstSequence, count };
+   }
 
-      return id.toString();
+   /**
+    * Reads the node IDs from the node ID provider, if the generator has one
+    * The provider throws when its node ID is no longer held (released or
+    * lost lease), which stops generation
+    */
+   private refreshNodeId(): void {
+      if (!this.nodeIdOptions) {
+         return;
+      }
+      const nodeId = resolveSnowflakeNodeId(this.nodeIdOptions, this.layout);
+      validateSnowflakeNodeId(nodeId, this.layout);
+      this.workerId = nodeId.workerId;
+      this.processId = nodeId.processId;
    }
 
    /**
-    * Deconstructs a Snowflake ID into its components
-    * @param id The Snowflake ID to deconstruct
-    * @returns Object containing timestamp, workerId, processId, and sequence
+    * Builds the IDs of a reserved sequence range
     */
-   public deconstruct(id: string): {
-      timestamp: number;
-      workerId: number;
-      processId: number;
-      sequence: number;
-      date: Date;
-   } {
-      const snowflakeId = BigInt(id);
-
-      const timestamp = Number(
-         (snowflakeId >> BigInt(this.TIMESTAMP_SHIFT)) + BigInt(this.epoch)
-      );
-      const workerId = Number(
-         (snowflakeId >> BigInt(this.WORKER_ID_SHIFT)) &
-            BigInt(this.MAX_WORKER_ID)
-      );
-      const processId = Number(
-         (snowflakeId >> BigInt(this.PROCESS_ID_SHIFT)) &
-            BigInt(this.MAX_PROCESS_ID)
-      );
-      const sequence = Number(snowflakeId & BigInt(this.MAX_SEQUENCE));
+   private format(range: SequenceRange): Snowflake[] {
+      // Construct the IDs using BigInt to avoid precision loss
+      const timestampBits = BigInt(range.timestamp) << this.TIMESTAMP_SHIFT;
+      const workerIdBits = BigInt(this.workerId) << this.WORKER_ID_SHIFT;
+      const processIdBits = BigInt(this.processId) << this.PROCESS_ID_SHIFT;
+      const prefix = timestampBits | workerIdBits | processIdBits;
 
-      return {
-         timestamp,
-         workerId,
-         processId,
-         sequence,
-         date: new Date(timestamp),
-      };
+      const ids: Snowflake[] = [];
+      for (let i = 0; i < range.count; i++) {
+         const sequenceBits = BigInt(range.firstSequence + i);
+         const value = prefix | sequenceBits;
+         ids.push(
+            (this.encoding === 'decimal'
+               ? value.toString()
+               : encodeId(value, this.encoding, { bits: 64 })) as Snowflake
+         );
+      }
+      return ids;
    }
 
    /**
-    * Gets the current timestamp in milliseconds
+    * Gets the current timestamp in ticks since the epoch
     */
    private getCurrentTimestamp(): number {
-      return Date.now();
+      return Math.floor((this.clock.now() - this.epoch) / this.tickDuration);
    }
 
    /**
-    * Waits until the next millisecond
+    * Converts ticks since the epoch to a Unix timestamp in milliseconds
     */
-   private waitNextMillis(lastTimestamp: number): number {
-      let timestamp = this.getCurrentTimestamp();
-      while (timestamp <= lastTimestamp) {
-         timestamp = this.getCurrentTimestamp();
+   private toUnixTimestamp(ticks: number): number {
+      return ticks * this.tickDuration + this.epoch;
+   }
+
+   /**
+    * Blocks until the clock reaches the requested tick
+    * Sequence exhaustion under the 'wait' strategy puts the thread to sleep,
+    * every other wait busy-spins
+    */
+   private waitUntil({ waitUntil: tick, reason }: WaitRequest): void {
+      const start = this.clock.now();
+      const sleep =
+         reason === 'sequence' && this.sequenceExhaustedStrategy === 'wait';
+
+      while (this.getCurrentTimestamp() < tick) {
+         if (sleep) {
+            Atomics.wait(this.getSleepCell(), 0, 0, this.getDelay(tick));
+         }
       }
-      return timestamp;
+
+      this.recordWait(start);
+   }
+
+   /**
+    * Sleeps until the clock reaches the given tick
+    */
+   private async sleepUntil(tick: number): Promise<void> {
+      const start = this.clock.now();
+
+      while (this.getCurrentTimestamp() < tick) {
+         await new Promise((resolve) =>
+            setTimeout(resolve, this.getDelay(tick))
+         );
+      }
+
+      this.recordWait(start);
+   }
+
+   /**
+    * Gets the time left until the given tick, in milliseconds (at least 1)
+    */
+   private getDelay(tick: number): number {
+      return Math.max(1, this.toUnixTimestamp(tick) - this.clock.now());
+   }
+
+   /**
+    * Gets the shared memory cell used to put the thread to sleep
+    */
+   private getSleepCell(): Int32Array {
+      if (!this.sleepCell) {
+         this.sleepCell = new Int32Array(new SharedArrayBuffer(4));
+      }
+      return this.sleepCell;
+   }
+
+   /**
+    * Updates the longest wait time
+    */
+   private recordWait(start: number): void {
+      this.stats.maxWaitTime = Math.max(
+         this.stats.maxWaitTime,
+         this.clock.now() - start
+      );
    }
 }
@@ -0,0 +1,349 @@
+import type {
+   ClockBackwardsStrategy,
+   NodeId,
+   SequenceExhaustedStrategy,
+   SnowflakeComponents,
+   SnowflakeLayout,
+   SnowflakeOptions,
+   SnowflakePreset,
+   Snowflake,
+} from '../interfaces/id-generator.interface';
+import { decodeId, encodeId } from '../utils/id-encoding';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+
+/**
+ * Fully resolved Snowflake settings (preset and defaults applied)
+ */
+export interface SnowflakeConfig {
+   epoch: number;
+   layout: SnowflakeLayout;
+   tickDuration: number;
+   workerId: number;
+   processId: number;
+   clockBackwardsStrategy: ClockBackwardsStrategy;
+   clockBackwardsTolerance: number;
+   onClockBackwards: SnowflakeOptions['onClockBackwards'];
+   sequenceExhaustedStrategy: SequenceExhaustedStrategy;
+}
+
+/**
+ * Built-in Snowflake presets
+ * Note: Sonyflake places the sequence before the machine ID, so the
+ * 'sonyflake' preset matches its bit widths and timing but not its field order
+ */
+export const SNOWFLAKE_PRESETS: Readonly<
+   Record<
+      SnowflakePreset,
+      Readonly<Pick<SnowflakeConfig, 'epoch' | 'layout' | 'tickDuration'>>
+   >
+> = {
+   default: {
+      epoch: 1733011200000, // 2025-12-01T00:00:00.000Z
+      layout: {
+         timestampBits: 41,
+         workerIdBits: 5,
+         processIdBits: 5,
+         sequenceBits: 12,
+      },
+      tickDuration: 1,
+   },
+   twitter: {
+      epoch: 1288834974657, // 2010-11-04T01:42:54.657Z
+      layout: {
+         timestampBits: 41,
+         workerIdBits: 5,
+         processIdBits: 5,
+         sequenceBits: 12,
+      },
+      tickDuration: 1,
+   },
+   discord: {
+      epoch: 1420070400000, // 2015-01-01T00:00:00.000Z
+      layout: {
+         timestampBits: 42,
+         workerIdBits: 5,
+         processIdBits: 5,
+         sequenceBits: 12,
+      },
+      tickDuration: 1,
+   },
+   sonyflake: {
+      epoch: 1409529600000, // 2014-09-01T00:00:00.000Z
+      layout: {
+         timestampBits: 39,
+         workerIdBits: 16,
+         processIdBits: 0,
+         sequenceBits: 8,
+      },
+      tickDuration: 10,
+   },
+};
+
+/**
+ * Maximum total bits of a Snowflake ID
+ */
+export const MAX_SNOWFLAKE_BITS = 64;
+
+/**
+ * Default maximum clock regression tolerated by the 'wait' and 'borrow' strategies
+ */
+export const DEFAULT_CLOCK_BACKWARDS_TOLERANCE = 1000;
+
+/**
+ * Resolves the epoch, bit layout, tick duration, node IDs and clock
+ * regression handling for the given options
+ * Worker and process IDs not set explicitly default to 1, or 0 when their
+ * field is disabled. The node ID provider is not consulted, so decoding and
+ * validating IDs never depends on it (see resolveSnowflakeNodeId())
+ * @param options Snowflake configuration options
+ * @returns The resolved and validated configuration
+ * @throws IdConfigurationError if the preset, layout, epoch, tick duration or
+ * clock regression settings are invalid
+ * @example
+ * const { layout } = resolveSnowflakeConfig({ preset: 'discord' });
+ * // { timestampBits: 42, workerIdBits: 5, processIdBits: 5, sequenceBits: 12 }
+ */
+export function resolveSnowflakeConfig(
+   options?: SnowflakeOptions
+): SnowflakeConfig {
+   const presetName = options?.preset ?? 'default';
+   const preset = SNOWFLAKE_PRESETS[presetName];
+   if (!preset) {
+      throw new IdConfigurationError(
+         `Unknown Snowflake preset: '${presetName}'`
+      );
+   }
+
+   const layout = { ...(options?.layout ?? preset.layout) };
+   validateSnowflakeLayout(layout);
+
+   const tickDuration = options?.tickDuration ?? preset.tickDuration;
+   if (!Number.isInteger(tickDuration) || tickDuration < 1) {
+      throw new IdConfigurationError(
+         'Tick duration must be a positive integer'
+      );
+   }
+
+   const clockBackwardsStrategy = options?.clockBackwardsStrategy ?? 'throw';
+   if (!['throw', 'wait', 'borrow'].includes(clockBackwardsStrategy)) {
+      throw new IdConfigurationError(
+         `Unknown clock backwards strategy: '${clockBackwardsStrategy}'`
+      );
+   }
+
+   const clockBackwardsTolerance =
+      options?.clockBackwardsTolerance ?? DEFAULT_CLOCK_BACKWARDS_TOLERANCE;
+   if (
+      !Number.isFinite(clockBackwardsTolerance) ||
+      clockBackwardsTolerance < 0
+   ) {
+      throw new IdConfigurationError(
+         'Clock backwards tolerance must be a non-negative number'
+      );
+   }
+
+   const epoch = options?.epoch ?? preset.epoch;
+   if (!Number.isSafeInteger(epoch) || epoch < 0) {
+      throw new IdConfigurationError(
+         'Epoch must be a non-negative integer (Unix timestamp in milliseconds)'
+      );
+   }
+
+   const sequenceExhaustedStrategy =
+      options?.sequenceExhaustedStrategy ?? 'spin';
+   if (!['spin', 'throw', 'wait'].includes(sequenceExhaustedStrategy)) {
+      throw new IdConfigurationError(
+         `Unknown sequence exhausted strategy: '${sequenceExhaustedStrategy}'`
+      );
+   }
+
+   return {
+      epoch,
+      layout,
+      tickDuration,
+      workerId: options?.workerId ?? getDefaultNodeId(layout.workerIdBits),
+      processId: options?.processId ?? getDefaultNodeId(layout.processIdBits),
+      clockBackwardsStrategy,
+      clockBackwardsTolerance,
+      onClockBackwards: options?.onClockBackwards,
+      sequenceExhaustedStrategy,
+   };
+}
+
+/**
+ * Resolves the worker and process IDs a generator mints IDs with
+ * IDs not set explicitly come from the node ID provider, and otherwise
+ * default to 1, or 0 when their field is disabled
+ * @param options Snowflake configuration options
+ * @param layout The resolved bit layout
+ * @returns The worker and process IDs, not yet checked against the layout
+ * @throws Whatever the node ID provider throws (e.g. no lease held)
+ * @example
+ * const { workerId, processId } = resolveSnowflakeNodeId(
+ *   { nodeIdProvider: new EnvNodeIdProvider() },
+ *   layout
+ * );
+ */
+export function resolveSnowflakeNodeId(
+   options: SnowflakeOptions | undefined,
+   layout: SnowflakeLayout
+): NodeId {
+   const nodeId =
+      options?.nodeIdProvider &&
+      (options.workerId === undefined || options.processId === undefined)
+         ? options.nodeIdProvider.getNodeId(layout)
+         : undefined;
+
+   return {
+      workerId:
+         options?.workerId ??
+         nodeId?.workerId ??
+         getDefaultNodeId(layout.workerIdBits),
+      processId:
+         options?.processId ??
+         nodeId?.processId ??
+         getDefaultNodeId(layout.processIdBits),
+   };
+}
+
+/**
+ * Validates a Snowflake bit layout
+ * @param layout The layout to validate
+ * @throws IdConfigurationError if a field is not a non-negative integer, the timestamp or
+ * sequence field is empty, or the layout exceeds 64 bits
+ */
+export function validateSnowflakeLayout(layout: SnowflakeLayout): void {
+   const fields: (keyof SnowflakeLayout)[] = [
+      'timestampBits',
+      'workerIdBits',
+      'processIdBits',
+      'sequenceBits',
+   ];
+
+   for (const field of fields) {
+      if (!Number.isInteger(layout[field]) || layout[field] < 0) {
+         throw new IdConfigurationError(
+            `Snowflake layout ${field} must be a non-negative integer`
+         );
+      }
+   }
+
+   if (layout.timestampBits < 1) {
+      throw new IdConfigurationError(
+         'Snowflake layout timestampBits must be at least 1'
+      );
+   }
+   if (layout.sequenceBits < 1) {
+      throw new IdConfigurationError(
+         'Snowflake layout sequenceBits must be at least 1'
+      );
+   }
+
+   const totalBits = fields.reduce((total, field) => total + layout[field], 0);
+   if (totalBits > MAX_SNOWFLAKE_BITS) {
+      throw new IdConfigurationError(
+         `Snowflake layout uses ${totalBits} bits, maximum is ${MAX_SNOWFLAKE_BITS}`
+      );
+   }
+}
+
+/**
+ * Deconstructs a Snowflake ID into its components without a generator instance
+ * @param id The Snowflake ID to deconstruct
+ * @param options The epoch, layout, tick duration, preset or encoding the ID was minted with
+ * @returns Object containing timestamp, workerId, processId, sequence and date
+ * @example
+ * const { date, workerId } = deconstructSnowflake('175928847299117063', {
+ *   preset: 'discord',
+ * });
+ * // date: 2016-04-30T11:18:25.796Z
+ */
+export function deconstructSnowflake(
+   id: string,
+   options?: SnowflakeOptions
+): SnowflakeComponents {
+   const { epoch, layout, tickDuration } = resolveSnowflakeConfig(options);
+   const snowflakeId = decodeId(id, options?.encoding ?? 'decimal');
+
+   const processIdShift = BigInt(layout.sequenceBits);
+   const workerIdShift = processIdShift + BigInt(layout.processIdBits);
+   const timestampShift = workerIdShift + BigInt(layout.workerIdBits);
+
+   const mask = (bits: number) => (1n << BigInt(bits)) - 1n;
+
+   const ticks = Number(snowflakeId >> timestampShift);
+   const timestamp = ticks * tickDuration + epoch;
+   const workerId = Number(
+      (snowflakeId >> workerIdShift) & mask(layout.workerIdBits)
+   );
+   const processId = Number(
+      (snowflakeId >> processIdShift) & mask(layout.processIdBits)
+   );
+   const sequence = Number(snowflakeId & mask(layout.sequenceBits));
+
+   return {
+      timestamp,
+      workerId,
+      processId,
+      sequence,
+      date: new Date(timestamp),
+   };
+}
+
+/**
+ * Builds the smallest Snowflake ID of the tick containing a date
+ * Worker ID, process ID and sequence are all 0, so every ID minted at or
+ * after the date compares greater or equal - use it as the lower bound of
+ * `WHERE id >= ?` queries (see idRangeFor() for both bounds)
+ * @param date The date, as a Date or a Unix timestamp in milliseconds
+ * @param options The epoch, layout, tick duration, preset or encoding the IDs are minted with
+ * @returns The Snowflake ID, in the requested encoding (decimal by default)
+ * @throws IdConfigurationError if the date is invalid, before the epoch, or
+ * past the last tick of the timestamp field
+ * @example
+ * snowflakeFromDate(new Date('2016-04-30T11:18:25.796Z'), { preset: 'discord' });
+ * // '175928847298985984'
+ */
+export function snowflakeFromDate(
+   date: number | Date,
+   options?: SnowflakeOptions
+): Snowflake {
+   const { epoch, layout, tickDuration } = resolveSnowflakeConfig({
+      preset: options?.preset,
+      epoch: options?.epoch,
+      layout: options?.layout,
+      tickDuration: options?.tickDuration,
+   });
+
+   const timestamp = typeof date === 'number' ? date : date.getTime();
+   // Also rejects timestamps Date cannot represent
+   if (Number.isNaN(new Date(timestamp).getTime())) {
+      throw new IdConfigurationError(`Invalid date: '${date}'`);
+   }
+   if (timestamp < epoch) {
+      throw new IdConfigurationError(
+         `Date ${new Date(timestamp).toISOString()} is before the Snowflake epoch ${new Date(epoch).toISOString()}`
+      );
+   }
+
+   const ticks = Math.floor((timestamp - epoch) / tickDuration);
+   if (ticks > 2 ** layout.timestampBits - 1) {
+      throw new IdConfigurationError(
+         `Date ${new Date(timestamp).toISOString()} does not fit in the ${layout.timestampBits}-bit timestamp`
+      );
+   }
+
+   const timestampShift = BigInt(
+      layout.workerIdBits + layout.processIdBits + layout.sequenceBits
+   );
+   const id = BigInt(ticks) << timestampShift;
+   const encoding = options?.encoding ?? 'decimal';
+   return encodeId(id, encoding, { bits: MAX_SNOWFLAKE_BITS }) as Snowflake;
+}
+
+/**
+ * Gets the default worker or process ID: 1, or 0 when the field is disabled
+ */
+function getDefaultNodeId(bits: number): number {
+   return Math.min(1, 2 ** bits - 1);
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'bun:test';
+import { TypeIdGenerator } from './typeid-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { decodeTypeId } from '../utils/typeid';
+import { inspect } from '../utils/inspect';
+
+describe('TypeIdGenerator', () => {
+   it('should generate prefixed TypeIDs', () => {
+      const generator = new TypeIdGenerator({ prefix: 'user' });
+
+      expect(generator.getId()).toMatch(/^user_[0-7][0-9a-hjkmnp-tv-z]{25}$/);
+   });
+
+   it('should omit the separator without prefix', () => {
+      const generator = new TypeIdGenerator();
+
+      expect(generator.getId()).toMatch(/^[0-7][0-9a-hjkmnp-tv-z]{25}$/);
+   });
+
+   it('should embed a UUID v7 with the current timestamp', () => {
+      const generator = new TypeIdGenerator({
+         prefix: 'order',
+         clock: new FixedClock(1700000000000),
+      });
+      const { uuid } = decodeTypeId(generator.getId());
+      const info = inspect(uuid);
+
+      expect(info).toMatchObject({ version: 7, timestamp: 1700000000000 });
+   });
+
+   it('should generate strictly increasing IDs', () => {
+      const generator = new TypeIdGenerator({
+         prefix: 'evt',
+         clock: new FixedClock(1700000000000),
+      });
+      const ids = Array.from({ length: 1000 }, () => generator.getId());
+
+      expect([...ids].sort()).toEqual(ids);
+      expect(new Set(ids).size).toBe(1000);
+   });
+
+   it('should reject invalid prefixes', () => {
+      expect(() => new TypeIdGenerator({ prefix: 'User' })).toThrow(
+         "TypeID prefix 'User' must contain only lowercase letters and underscores, and start and end with a letter"
+      );
+   });
+
+   it('should parse IDs with its own prefix', () => {
+      const generator = new TypeIdGenerator({ prefix: 'user' });
+      const parsed = generator.parse('user_01h455vb4pex5vsknk084sn02q');
+
+      expect(parsed).toEqual({
+         prefix: 'user',
+         uuid: '01890a5d-ac96-774b-bcce-b302099a8057',
+      });
+      expect(() => generator.parse('team_01h455vb4pex5vsknk084sn02q')).toThrow(
+         "TypeID prefix 'team' does not match 'user'"
+      );
+   });
+});
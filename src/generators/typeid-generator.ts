@@ -0,0 +1,67 @@
+import { IIdGenerator } from '../interfaces/id-generator.interface';
+import type {
+   TypeId,
+   TypeIdComponents,
+   TypeIdOptions,
+} from '../interfaces/id-generator.interface';
+import { UuidV7Generator } from './uuid-v7-generator';
+import { decodeTypeId, encodeTypeId } from '../utils/typeid';
+import { validateTypeIdOptions } from '../utils/validate-options';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * TypeID generator implementation
+ * Generates type-safe, K-sortable IDs following the TypeID specification
+ *
+ * ID Structure:
+ * - Type prefix (optional, up to 63 lowercase letters and underscores)
+ * - Separator '_' (omitted when the prefix is empty)
+ * - UUID v7 encoded as 26 lowercase Crockford Base32 characters
+ *
+ * The embedded UUID v7 comes from a single UuidV7Generator, so IDs from one
+ * generator are strictly increasing.
+ */
+export class TypeIdGenerator implements IIdGenerator<TypeId> {
+   private readonly prefix: string;
+   private readonly uuidGenerator: UuidV7Generator;
+
+   constructor(options?: TypeIdOptions) {
+      validateTypeIdOptions(options);
+      this.prefix = options?.prefix ?? '';
+
+      this.uuidGenerator = new UuidV7Generator({
+         clock: options?.clock,
+         random: options?.random,
+      });
+   }
+
+   /**
+    * Generates a new TypeID
+    * @returns A TypeID string
+    * @example
+    * const generator = new TypeIdGenerator({ prefix: 'user' });
+    * const id = generator.getId(); // 'user_01h455vb4pex5vsknk084sn02q'
+    */
+   public getId(): TypeId {
+      return encodeTypeId(this.prefix, this.uuidGenerator.getId());
+   }
+
+   /**
+    * Decodes a TypeID into its prefix and canonical UUID
+    * @param id The TypeID string
+    * @returns The prefix and the UUID
+    * @throws InvalidIdError if the TypeID is invalid or carries another prefix
+    * @example
+    * generator.parse('user_01h455vb4pex5vsknk084sn02q');
+    * // { prefix: 'user', uuid: '01890a5d-ac96-774b-bcce-b302099a8057' }
+    */
+   public parse(id: string): TypeIdComponents {
+      const components = decodeTypeId(id);
+      if (components.prefix !== this.prefix) {
+         throw new InvalidIdError(
+            `TypeID prefix '${components.prefix}' does not match '${this.prefix}'`
+         );
+      }
+      return components;
+   }
+}
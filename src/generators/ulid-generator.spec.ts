@@ -0,0 +1,98 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import { UlidGenerator } from './ulid-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { SeededRandom } from '../providers/random.provider';
+
+describe('UlidGenerator', () => {
+   // ULID format: 26 Crockford Base32 characters, first one 0-7
+   const ulidRegex = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/;
+
+   it('should generate a valid ULID', () => {
+      const generator = new UlidGenerator();
+      const id = generator.getId();
+
+      expect(id).toMatch(ulidRegex);
+      expect(id.length).toBe(26);
+   });
+
+   it('should embed the current timestamp', () => {
+      const generator = new UlidGenerator();
+      const before = Date.now();
+      const id = generator.getId();
+      const after = Date.now();
+
+      const timestamp = generator.getTimestamp(id);
+      expect(timestamp).toBeGreaterThanOrEqual(before);
+      expect(timestamp).toBeLessThanOrEqual(after);
+   });
+
+   it('should generate multiple unique IDs in sequence', () => {
+      const generator = new UlidGenerator();
+      const ids = new Set<string>();
+
+      for (let i = 0; i < 1000; i++) {
+         ids.add(generator.getId());
+      }
+
+      // All IDs should be unique
+      expect(ids.size).toBe(1000);
+   });
+
+   it('should increment randomness within the same millisecond in monotonic mode', () => {
+      const generator = new UlidGenerator({ monotonic: true });
+      const nowSpy = spyOn(Date, 'now').mockReturnValue(1469918176385);
+
+      try {
+         const id1 = generator.getId();
+         const id2 = generator.getId();
+
+         expect(id1.slice(0, 10)).toBe('01ARYZ6S41');
+         expect(id2.slice(0, 10)).toBe('01ARYZ6S41');
+         expect(id2 > id1).toBe(true);
+
+         // Clock moving backwards keeps the last timestamp
+         nowSpy.mockReturnValue(1469918176000);
+         const id3 = generator.getId();
+         expect(id3 > id2).toBe(true);
+         expect(generator.getTimestamp(id3)).toBe(1469918176385);
+      } finally {
+         nowSpy.mockRestore();
+      }
+   });
+
+   it('should throw when monotonic randomness overflows', () => {
+      const generator = new UlidGenerator({ monotonic: true });
+      const nowSpy = spyOn(Date, 'now').mockReturnValue(1469918176385);
+
+      try {
+         generator.getId();
+         // @ts-expect-error - Forcing randomness to its maximum for testing
+         generator.lastRandomness = (1n << 80n) - 1n;
+
+         expect(() => generator.getId()).toThrow('ULID randomness overflow');
+      } finally {
+         nowSpy.mockRestore();
+      }
+   });
+
+   it('should throw error for invalid ULID length', () => {
+      const generator = new UlidGenerator();
+
+      expect(() => generator.getTimestamp('01ARZ3NDEK')).toThrow(
+         'ULID must be 26 characters long'
+      );
+   });
+
+   it('should generate reproducible IDs with injected clock and random source', () => {
+      const create = () =>
+         new UlidGenerator({
+            clock: new FixedClock(1469918176385),
+            random: new SeededRandom(42),
+         });
+      const a = create();
+      const b = create();
+
+      expect(a.getId()).toBe(b.getId());
+      expect(a.getId().slice(0, 10)).toBe('01ARYZ6S41');
+   });
+});
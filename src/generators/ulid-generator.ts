@@ -0,0 +1,130 @@
+import {
+   IIdGenerator,
+   ClockProvider,
+   RandomProvider,
+} from '../interfaces/id-generator.interface';
+import type { Ulid, UlidOptions } from '../interfaces/id-generator.interface';
+import {
+   encodeCrockfordBase32,
+   decodeCrockfordBase32,
+} from '../utils/crockford-base32';
+import { SystemClock } from '../providers/clock.provider';
+import { CryptoRandom } from '../providers/random.provider';
+import { validateUlidOptions } from '../utils/validate-options';
+import { IdGenerationError } from '../errors/id-generation.error';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * ULID generator implementation
+ * Generates lexicographically sortable 128-bit IDs encoded in Crockford Base32
+ *
+ * ID Structure (128 bits, 26 characters):
+ * - 48 bits: Unix timestamp in milliseconds (10 characters)
+ * - 80 bits: Randomness (16 characters)
+ *
+ * In monotonic mode, IDs generated within the same millisecond (or after the
+ * clock moved backwards) reuse the last timestamp and increment the previous
+ * randomness by one, so they always sort in generation order.
+ */
+export class UlidGenerator implements IIdGenerator<Ulid> {
+   private readonly monotonic: boolean;
+   private readonly clock: ClockProvider;
+   private readonly random: RandomProvider;
+   private lastTimestamp: number = -1;
+   private lastRandomness: bigint = 0n;
+
+   // Bit lengths
+   private readonly TIMESTAMP_LENGTH = 10;
+   private readonly RANDOMNESS_LENGTH = 16;
+
+   // Maximum values
+   private readonly MAX_TIMESTAMP = 2 ** 48 - 1;
+   private readonly MAX_RANDOMNESS = (1n << 80n) - 1n;
+
+   constructor(options?: UlidOptions) {
+      validateUlidOptions(options);
+
+      this.monotonic = options?.monotonic ?? false;
+      this.clock = options?.clock ?? new SystemClock();
+      this.random = options?.random ?? new CryptoRandom();
+   }
+
+   /**
+    * Generates a new ULID
+    * @returns A 26-character ULID string
+    * @throws IdGenerationError if the timestamp exceeds 48 bits or, in monotonic mode,
+    * the randomness overflows within a single millisecond
+    * @example
+    * const generator = new UlidGenerator();
+    * const id = generator.getId(); // '01ARZ3NDEKTSV4RRFFQ69G5FAV'
+    */
+   public getId(): Ulid {
+      let timestamp = this.getCurrentTimestamp();
+      if (timestamp > this.MAX_TIMESTAMP) {
+         throw new IdGenerationError(
+            `Cannot encode timestamp greater than ${this.MAX_TIMESTAMP}`
+         );
+      }
+
+      let randomness: bigint;
+      if (this.monotonic && timestamp <= this.lastTimestamp) {
+         // Same millisecond or clock moved backwards - increment randomness
+         timestamp = this.lastTimestamp;
+         randomness = this.lastRandomness + 1n;
+         if (randomness > this.MAX_RANDOMNESS) {
+            throw new IdGenerationError(
+               'ULID randomness overflow. Cannot generate more IDs in this millisecond'
+            );
+         }
+      } else {
+         randomness = this.randomBits();
+      }
+
+      this.lastTimestamp = timestamp;
+      this.lastRandomness = randomness;
+
+      return (encodeCrockfordBase32(BigInt(timestamp), this.TIMESTAMP_LENGTH) +
+         encodeCrockfordBase32(randomness, this.RANDOMNESS_LENGTH)) as Ulid;
+   }
+
+   /**
+    * Extracts the embedded timestamp from a ULID
+    * @param id The ULID string
+    * @returns The Unix timestamp in milliseconds
+    * @throws InvalidIdError if the ID is not a valid ULID
+    */
+   public getTimestamp(id: string): number {
+      if (id.length !== this.TIMESTAMP_LENGTH + this.RANDOMNESS_LENGTH) {
+         throw new InvalidIdError(
+            `ULID must be ${this.TIMESTAMP_LENGTH + this.RANDOMNESS_LENGTH} characters long`
+         );
+      }
+
+      const timestamp = decodeCrockfordBase32(
+         id.slice(0, this.TIMESTAMP_LENGTH)
+      );
+      if (timestamp > BigInt(this.MAX_TIMESTAMP)) {
+         throw new InvalidIdError('ULID timestamp exceeds 48 bits');
+      }
+      return Number(timestamp);
+   }
+
+   /**
+    * Gets the current timestamp in milliseconds
+    */
+   private getCurrentTimestamp(): number {
+      return this.clock.now();
+   }
+
+   /**
+    * Draws 80 random bits from the random provider
+    */
+   private randomBits(): bigint {
+      const bytes = this.random.getRandomValues(new Uint8Array(10));
+      let value = 0n;
+      for (const byte of bytes) {
+         value = (value << 8n) | BigInt(byte);
+      }
+      return value;
+   }
+}
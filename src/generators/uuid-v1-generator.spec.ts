@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'bun:test';
+import { UuidV1Generator } from './uuid-v1-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { SeededRandom } from '../providers/random.provider';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import type { RandomProvider } from '../interfaces/id-generator.interface';
+
+describe('UuidV1Generator', () => {
+   // UUID v1 format: xxxxxxxx-xxxx-1xxx-yxxx-xxxxxxxxxxxx
+   const uuidV1Regex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-1[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+   // Random source yielding the clock sequence of the RFC 9562 example
+   const exampleRandom: RandomProvider = {
+      getRandomValues: (bytes) => bytes.fill(0xc8).fill(0xb3, 0, 1),
+   };
+
+   it('should generate a valid UUID v1', () => {
+      const id = new UuidV1Generator().getId();
+
+      expect(id).toMatch(uuidV1Regex);
+   });
+
+   it('should match the RFC 9562 example', () => {
+      const generator = new UuidV1Generator({
+         clock: new FixedClock(Date.parse('2022-02-22T19:22:22Z')),
+         random: exampleRandom,
+         node: '9F:6B:DE:CE:D8:46',
+      });
+
+      expect(generator.getId()).toBe('c232ab00-9414-11ec-b3c8-9f6bdeced846');
+      expect(generator.getId()).toBe('c232ab01-9414-11ec-b3c8-9f6bdeced846');
+   });
+
+   it('should embed the current Unix timestamp in milliseconds', () => {
+      const generator = new UuidV1Generator();
+      const before = Date.now();
+      const id = generator.getId();
+      const after = Date.now();
+
+      const timestamp = generator.getTimestamp(id);
+      expect(timestamp).toBeGreaterThanOrEqual(before);
+      expect(timestamp).toBeLessThanOrEqual(after);
+   });
+
+   it('should use a random multicast node by default', () => {
+      const node = new UuidV1Generator().getId().slice(24);
+
+      expect(parseInt(node.slice(0, 2), 16) & 0x01).toBe(1);
+   });
+
+   it('should borrow the next millisecond when a millisecond is exhausted', () => {
+      const clock = new FixedClock(1700000000000);
+      const generator = new UuidV1Generator({ clock });
+      const ids = Array.from({ length: 10001 }, () => generator.getId());
+
+      expect(new Set(ids).size).toBe(10001);
+      expect(generator.getTimestamp(ids[9999])).toBe(1700000000000);
+      expect(generator.getTimestamp(ids[10000])).toBe(1700000000001);
+   });
+
+   it('should keep the last timestamp when the clock moves backwards', () => {
+      const clock = new FixedClock(1700000000000);
+      const generator = new UuidV1Generator({ clock });
+      const id1 = generator.getId();
+
+      clock.advance(-1000);
+      const id2 = generator.getId();
+
+      expect(id2).not.toBe(id1);
+      expect(generator.getTimestamp(id2)).toBe(1700000000000);
+   });
+
+   it('should generate reproducible IDs with injected clock and random source', () => {
+      const create = () =>
+         new UuidV1Generator({
+            clock: new FixedClock(1700000000000),
+            random: new SeededRandom(42),
+         });
+
+      expect(create().getId()).toBe(create().getId());
+   });
+
+   it('should apply the encoding', () => {
+      const generator = new UuidV1Generator({
+         encoding: 'base62',
+         clock: new FixedClock(1700000000000),
+      });
+      const id = generator.getId();
+
+      expect(id).toHaveLength(22);
+      expect(generator.getTimestamp(id)).toBe(1700000000000);
+   });
+
+   it('should reject invalid nodes', () => {
+      expect(() => new UuidV1Generator({ node: '9f:6b:de:ce:d8' })).toThrow(
+         new IdConfigurationError(
+            "UUID node must be 6 hex bytes (e.g. '00:1b:63:84:45:e6'), got '9f:6b:de:ce:d8'"
+         )
+      );
+      expect(() => new UuidV1Generator({ node: '9f:6b-de:ce:d8:46' })).toThrow(
+         IdConfigurationError
+      );
+      expect(new UuidV1Generator({ node: '9f6bdeced846' }).getId()).toEndWith(
+         '-9f6bdeced846'
+      );
+   });
+});
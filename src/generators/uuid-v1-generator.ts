@@ -0,0 +1,142 @@
+import {
+   IIdGenerator,
+   ClockProvider,
+   RandomProvider,
+} from '../interfaces/id-generator.interface';
+import type {
+   StringIdEncoding,
+   UuidV1,
+   UuidV1Options,
+} from '../interfaces/id-generator.interface';
+import { decodeId, encodeId } from '../utils/id-encoding';
+import { UUID_GREGORIAN_OFFSET } from '../utils/uuid';
+import { SystemClock } from '../providers/clock.provider';
+import { CryptoRandom } from '../providers/random.provider';
+import { validateUuidV1Options } from '../utils/validate-options';
+
+/**
+ * UUID v1 generator implementation
+ * Generates time-based UUIDs following RFC 9562
+ *
+ * ID Structure (128 bits):
+ * - 32 bits: Timestamp (low bits, time_low)
+ * - 16 bits: Timestamp (middle bits, time_mid)
+ * - 4 bits: Version (0001)
+ * - 12 bits: Timestamp (high bits, time_high)
+ * - 2 bits: Variant (10)
+ * - 14 bits: Clock sequence
+ * - 48 bits: Node ID
+ *
+ * The 60-bit timestamp counts 100-nanosecond intervals since 1582-10-15.
+ * The clock only has a millisecond resolution, so the 10,000 intervals of a
+ * millisecond are used as a counter for the IDs minted within it. The clock
+ * sequence is random and fixed for the lifetime of the generator.
+ *
+ * Clock moving backwards: the generator keeps using the last timestamp it
+ * issued and continues incrementing the counter, so IDs stay unique and no
+ * error is thrown. If the counter overflows, the timestamp is advanced by one
+ * millisecond ahead of the wall clock.
+ *
+ * UUID v1 strings do not sort by time - use UuidV6Generator for that.
+ */
+export class UuidV1Generator implements IIdGenerator<UuidV1> {
+   private readonly clock: ClockProvider;
+   private readonly encoding: StringIdEncoding;
+   private readonly clockSequence: number;
+   private readonly node: string;
+   private lastTimestamp: number = -1;
+   private counter: number = 0;
+
+   // 100-nanosecond intervals per millisecond
+   private readonly TICKS_PER_MS = 10000;
+
+   constructor(options?: UuidV1Options) {
+      validateUuidV1Options(options);
+
+      const random = options?.random ?? new CryptoRandom();
+      this.clock = options?.clock ?? new SystemClock();
+      this.encoding = options?.encoding ?? 'uuid';
+
+      const sequence = random.getRandomValues(new Uint8Array(2));
+      this.clockSequence = ((sequence[0] << 8) | sequence[1]) & 0x3fff;
+      this.node = options?.node
+         ? options.node.replace(/[:-]/g, '').toLowerCase()
+         : this.randomNode(random);
+   }
+
+   /**
+    * Generates a new UUID v1
+    * @returns A time-based UUID v1 string
+    * @example
+    * const generator = new UuidV1Generator();
+    * const id = generator.getId(); // 'c232ab00-9414-11ec-b3c8-9f6bdeced846'
+    */
+   public getId(): UuidV1 {
+      const timestamp = this.clock.now();
+
+      if (timestamp > this.lastTimestamp) {
+         // New millisecond - restart counter
+         this.lastTimestamp = timestamp;
+         this.counter = 0;
+      } else {
+         // Same millisecond or clock moved backwards - keep last timestamp
+         this.counter++;
+
+         // Counter overflow - borrow the next millisecond
+         if (this.counter >= this.TICKS_PER_MS) {
+            this.lastTimestamp++;
+            this.counter = 0;
+         }
+      }
+
+      return this.format(
+         BigInt(this.lastTimestamp) * BigInt(this.TICKS_PER_MS) +
+            BigInt(this.counter) +
+            UUID_GREGORIAN_OFFSET
+      );
+   }
+
+   /**
+    * Extracts the embedded timestamp from a UUID v1
+    * @param id The UUID v1 string, in the generator's encoding
+    * @returns The Unix timestamp in milliseconds
+    */
+   public getTimestamp(id: string): number {
+      const value = decodeId(id, this.encoding);
+      const ticks =
+         (((value >> 64n) & 0xfffn) << 48n) |
+         (((value >> 80n) & 0xffffn) << 32n) |
+         (value >> 96n);
+      return Number(
+         (ticks - UUID_GREGORIAN_OFFSET) / BigInt(this.TICKS_PER_MS)
+      );
+   }
+
+   /**
+    * Generates a random node ID with the multicast bit set, so it can never
+    * clash with a network card address (RFC 9562, Section 6.10)
+    */
+   private randomNode(random: RandomProvider): string {
+      const bytes = random.getRandomValues(new Uint8Array(6));
+      bytes[0] |= 0x01;
+      return Array.from(bytes, (byte) =>
+         byte.toString(16).padStart(2, '0')
+      ).join('');
+   }
+
+   /**
+    * Lays out timestamp, clock sequence and node into the UUID string form
+    */
+   private format(ticks: bigint): UuidV1 {
+      const timeLow = (ticks & 0xffffffffn).toString(16).padStart(8, '0');
+      const timeMid = ((ticks >> 32n) & 0xffffn).toString(16).padStart(4, '0');
+      const timeHigh = ((ticks >> 48n) & 0xfffn).toString(16).padStart(3, '0');
+      const clockSequence = (0x8000 | this.clockSequence).toString(16);
+
+      const id = `${timeLow}-${timeMid}-1${timeHigh}-${clockSequence}-${this.node}`;
+
+      return (
+         this.encoding === 'uuid' ? id : encodeId(id, this.encoding)
+      ) as UuidV1;
+   }
+}
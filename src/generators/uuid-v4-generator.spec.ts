@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'bun:test';
 import { UuidV4Generator } from './uuid-v4-generator';
+import { SeededRandom } from '../providers/random.provider';
+import { decodeId, encodeId } from '../utils/id-encoding';
 
 describe('UuidV4Generator', () => {
    it('should generate a valid UUID v4', () => {
@@ -40,4 +42,24 @@ describe('UuidV4Generator', () => {
       // All IDs should be unique
       expect(ids.size).toBe(100);
    });
+
+   it('should generate reproducible IDs with a seeded random source', () => {
+      const a = new UuidV4Generator({ random: new SeededRandom(42) });
+      const b = new UuidV4Generator({ random: new SeededRandom(42) });
+
+      expect(a.getId()).toBe(b.getId());
+      expect(a.getId()).toMatch(
+         /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+   });
+
+   it('should generate IDs in the configured encoding', () => {
+      const id = new UuidV4Generator({ encoding: 'base62' }).getId();
+      const uuid = encodeId(decodeId(id, 'base62'), 'uuid');
+
+      expect(id).toMatch(/^[0-9A-Za-z]{22}$/);
+      expect(uuid).toMatch(
+         /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+   });
 });
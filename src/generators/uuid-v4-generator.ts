@@ -1,11 +1,31 @@
 import { v4 as uuidv4 } from 'uuid';
-import { IIdGenerator } from '../interfaces/id-generator.interface';
+import {
+   IIdGenerator,
+   RandomProvider,
+} from '../interfaces/id-generator.interface';
+import type {
+   StringIdEncoding,
+   UuidV4,
+   UuidV4Options,
+} from '../interfaces/id-generator.interface';
+import { encodeId } from '../utils/id-encoding';
+import { validateUuidOptions } from '../utils/validate-options';
 
 /**
  * UUID v4 generator implementation
  * Generates random UUIDs using version 4 specification
  */
-export class UuidV4Generator implements IIdGenerator {
+export class UuidV4Generator implements IIdGenerator<UuidV4> {
+   private readonly random?: RandomProvider;
+   private readonly encoding: StringIdEncoding;
+
+   constructor(options?: UuidV4Options) {
+      validateUuidOptions(options);
+
+      this.random = options?.random;
+      this.encoding = options?.encoding ?? 'uuid';
+   }
+
    /**
     * Generates a new UUID v4
     * @returns A random UUID v4 string
@@ -13,7 +33,16 @@ export class UuidV4Generator implements IIdGenerator {
     * const generator = new UuidV4Generator();
     * const id = generator.getId(); // '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d'
     */
-   public getId(): string {
-      return uuidv4();
+   public getId(): UuidV4 {
+      const random = this.random;
+      const id = random
+         ? uuidv4({
+              rng: () => random.getRandomValues(new Uint8Array(16)),
+           })
+         : uuidv4();
+
+      return (
+         this.encoding === 'uuid' ? id : encodeId(id, this.encoding)
+      ) as UuidV4;
    }
 }
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'bun:test';
+import { UuidV5Generator } from './uuid-v5-generator';
+import { UUID_NAMESPACES } from '../utils/uuid';
+import { decodeId } from '../utils/id-encoding';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { IdGenerationError } from '../errors/id-generation.error';
+
+describe('UuidV5Generator', () => {
+   it('should generate the UUID v5 of a name', () => {
+      const generator = new UuidV5Generator({
+         namespace: UUID_NAMESPACES.DNS,
+      });
+
+      expect(generator.getId('www.example.com')).toBe(
+         '2ed6657d-e927-568b-95e1-2665a8aea6a2'
+      );
+      expect(generator.getId('www.example.com')).toBe(
+         generator.getId('www.example.com')
+      );
+   });
+
+   it('should apply the encoding', () => {
+      const generator = new UuidV5Generator({
+         namespace: UUID_NAMESPACES.DNS,
+         encoding: 'base62',
+      });
+      const id = generator.getId('www.example.com');
+
+      expect(id).toHaveLength(22);
+      expect(decodeId(id, 'base62')).toBe(0x2ed6657de927568b95e12665a8aea6a2n);
+   });
+
+   it('should require a namespace and a name', () => {
+      expect(() => new UuidV5Generator()).toThrow(
+         new IdConfigurationError('UUID v5 generator requires a namespace')
+      );
+      expect(() => new UuidV5Generator({ namespace: 'orders' })).toThrow(
+         "UUID namespace must be a UUID, got 'orders'"
+      );
+      expect(() =>
+         new UuidV5Generator({ namespace: UUID_NAMESPACES.URL }).getId()
+      ).toThrow(IdGenerationError);
+   });
+});
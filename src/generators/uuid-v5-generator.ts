@@ -0,0 +1,57 @@
+import { IIdGenerator } from '../interfaces/id-generator.interface';
+import type {
+   StringIdEncoding,
+   UuidV5,
+   UuidV5Options,
+} from '../interfaces/id-generator.interface';
+import { encodeId } from '../utils/id-encoding';
+import { createUuidV5 } from '../utils/uuid';
+import { validateUuidV5Options } from '../utils/validate-options';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { IdGenerationError } from '../errors/id-generation.error';
+
+/**
+ * UUID v5 generator implementation
+ * Generates deterministic, name-based UUIDs (SHA-1) within a namespace:
+ * the same name always gives the same ID, which makes imports idempotent
+ *
+ * IDs are derived from a name, so getId() must be called with one
+ */
+export class UuidV5Generator implements IIdGenerator<UuidV5> {
+   private readonly namespace: string;
+   private readonly encoding: StringIdEncoding;
+
+   constructor(options?: UuidV5Options) {
+      validateUuidV5Options(options);
+      if (!options?.namespace) {
+         throw new IdConfigurationError(
+            'UUID v5 generator requires a namespace'
+         );
+      }
+
+      this.namespace = options.namespace;
+      this.encoding = options.encoding ?? 'uuid';
+   }
+
+   /**
+    * Generates the UUID v5 of a name
+    * @param name The name, as a string (UTF-8) or bytes
+    * @returns The UUID v5 of the name in the namespace
+    * @throws IdGenerationError if no name is given
+    * @example
+    * const generator = new UuidV5Generator({ namespace: UUID_NAMESPACES.DNS });
+    * generator.getId('www.example.com'); // '2ed6657d-e927-568b-95e1-2665a8aea6a2'
+    */
+   public getId(name?: string | Uint8Array): UuidV5 {
+      if (name === undefined) {
+         throw new IdGenerationError(
+            'UUID v5 IDs are derived from a name: call getId(name)'
+         );
+      }
+
+      const id = createUuidV5(this.namespace, name);
+      return (
+         this.encoding === 'uuid' ? id : encodeId(id, this.encoding)
+      ) as UuidV5;
+   }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'bun:test';
+import { UuidV6Generator } from './uuid-v6-generator';
+import { FixedClock } from '../providers/clock.provider';
+import type { RandomProvider } from '../interfaces/id-generator.interface';
+
+describe('UuidV6Generator', () => {
+   // UUID v6 format: xxxxxxxx-xxxx-6xxx-yxxx-xxxxxxxxxxxx
+   const uuidV6Regex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-6[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+   // Random source yielding the clock sequence of the RFC 9562 example
+   const exampleRandom: RandomProvider = {
+      getRandomValues: (bytes) => bytes.fill(0xc8).fill(0xb3, 0, 1),
+   };
+
+   it('should generate a valid UUID v6', () => {
+      expect(new UuidV6Generator().getId()).toMatch(uuidV6Regex);
+   });
+
+   it('should match the RFC 9562 example', () => {
+      const generator = new UuidV6Generator({
+         clock: new FixedClock(Date.parse('2022-02-22T19:22:22Z')),
+         random: exampleRandom,
+         node: '9f-6b-de-ce-d8-46',
+      });
+
+      expect(generator.getId()).toBe('1ec9414c-232a-6b00-b3c8-9f6bdeced846');
+   });
+
+   it('should generate strictly increasing IDs across milliseconds', () => {
+      const clock = new FixedClock(1700000000000);
+      const generator = new UuidV6Generator({ clock });
+      const ids: string[] = [];
+
+      for (let i = 0; i < 3000; i++) {
+         ids.push(generator.getId());
+         if (i % 1000 === 999) {
+            clock.advance(1);
+         }
+      }
+
+      // Lexicographic order must match generation order
+      for (let i = 1; i < ids.length; i++) {
+         expect(ids[i] > ids[i - 1]).toBe(true);
+      }
+   });
+
+   it('should embed the timestamp in the configured encoding', () => {
+      const generator = new UuidV6Generator({
+         encoding: 'base32',
+         clock: new FixedClock(1700000000000),
+      });
+      const id = generator.getId();
+
+      expect(id).toHaveLength(26);
+      expect(generator.getTimestamp(id)).toBe(1700000000000);
+   });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import { UuidV7Generator } from './uuid-v7-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { SeededRandom } from '../providers/random.provider';
+
+describe('UuidV7Generator', () => {
+   // UUID v7 format: xxxxxxxx-xxxx-7xxx-yxxx-xxxxxxxxxxxx
+   const uuidV7Regex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+   it('should generate a valid UUID v7', () => {
+      const generator = new UuidV7Generator();
+      const id = generator.getId();
+
+      expect(id).toMatch(uuidV7Regex);
+      expect(id.length).toBe(36);
+   });
+
+   it('should embed the current Unix timestamp in milliseconds', () => {
+      const generator = new UuidV7Generator();
+      const before = Date.now();
+      const id = generator.getId();
+      const after = Date.now();
+
+      const timestamp = generator.getTimestamp(id);
+      expect(timestamp).toBeGreaterThanOrEqual(before);
+      expect(timestamp).toBeLessThanOrEqual(after);
+   });
+
+   it('should generate strictly increasing IDs within the same millisecond', () => {
+      const generator = new UuidV7Generator();
+      const ids: string[] = [];
+
+      for (let i = 0; i < 5000; i++) {
+         ids.push(generator.getId());
+      }
+
+      // Lexicographic order must match generation order
+      for (let i = 1; i < ids.length; i++) {
+         expect(ids[i] > ids[i - 1]).toBe(true);
+      }
+      expect(new Set(ids).size).toBe(5000);
+   });
+
+   it('should stay monotonic when the clock moves backwards', () => {
+      const generator = new UuidV7Generator();
+      const nowSpy = spyOn(Date, 'now').mockReturnValue(1700000000000);
+
+      try {
+         const id1 = generator.getId();
+
+         nowSpy.mockReturnValue(1699999999000);
+         const id2 = generator.getId();
+
+         expect(() => generator.getId()).not.toThrow();
+         expect(id2 > id1).toBe(true);
+         expect(generator.getTimestamp(id2)).toBe(1700000000000);
+      } finally {
+         nowSpy.mockRestore();
+      }
+   });
+
+   it('should generate reproducible IDs with injected clock and random source', () => {
+      const create = () =>
+         new UuidV7Generator({
+            clock: new FixedClock(1700000000000),
+            random: new SeededRandom(42),
+         });
+      const a = create();
+      const b = create();
+
+      expect([a.getId(), a.getId()]).toEqual([b.getId(), b.getId()]);
+      expect(a.getId().startsWith('018bcfe5-6800-7')).toBe(true);
+   });
+
+   it('should generate sortable IDs in the configured encoding', () => {
+      const generator = new UuidV7Generator({
+         encoding: 'base32',
+         clock: new FixedClock(1700000000000),
+      });
+      const ids = Array.from({ length: 100 }, () => generator.getId());
+
+      expect(ids[0]).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      expect([...ids].sort()).toEqual(ids);
+      expect(generator.getTimestamp(ids[0])).toBe(1700000000000);
+   });
+});
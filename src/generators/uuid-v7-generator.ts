@@ -0,0 +1,151 @@
+import {
+   IIdGenerator,
+   ClockProvider,
+   RandomProvider,
+} from '../interfaces/id-generator.interface';
+import type {
+   StringIdEncoding,
+   UuidV7,
+   UuidV7Options,
+} from '../interfaces/id-generator.interface';
+import { decodeId, encodeId } from '../utils/id-encoding';
+import { SystemClock } from '../providers/clock.provider';
+import { CryptoRandom } from '../providers/random.provider';
+import { validateUuidOptions } from '../utils/validate-options';
+
+/**
+ * UUID v7 generator implementation
+ * Generates time-ordered UUIDs following RFC 9562
+ *
+ * ID Structure (128 bits):
+ * - 48 bits: Unix timestamp in milliseconds
+ * - 4 bits: Version (0111)
+ * - 12 bits: Counter (high bits, rand_a)
+ * - 2 bits: Variant (10)
+ * - 30 bits: Counter (low bits, start of rand_b)
+ * - 32 bits: Random
+ *
+ * The 42-bit counter is seeded randomly at the start of every millisecond
+ * (with its top bit cleared to leave room for increments) and incremented for
+ * each ID minted within the same millisecond, so IDs from one generator are
+ * strictly increasing (RFC 9562, Section 6.2, Method 1).
+ *
+ * Clock moving backwards: the generator keeps using the last timestamp it
+ * issued and continues incrementing the counter, so IDs stay monotonic and no
+ * error is thrown. If the counter overflows, the timestamp is advanced by one
+ * millisecond ahead of the wall clock.
+ */
+export class UuidV7Generator implements IIdGenerator<UuidV7> {
+   private readonly clock: ClockProvider;
+   private readonly random: RandomProvider;
+   private readonly encoding: StringIdEncoding;
+   private lastTimestamp: number = -1;
+   private counter: number = 0;
+
+   // Bit lengths
+   private readonly COUNTER_BITS = 42;
+   private readonly COUNTER_LOW_BITS = 30;
+
+   // Maximum values
+   private readonly MAX_COUNTER = 2 ** this.COUNTER_BITS - 1;
+   private readonly MAX_COUNTER_SEED = 2 ** (this.COUNTER_BITS - 1) - 1;
+
+   constructor(options?: UuidV7Options) {
+      validateUuidOptions(options);
+
+      this.clock = options?.clock ?? new SystemClock();
+      this.random = options?.random ?? new CryptoRandom();
+      this.encoding = options?.encoding ?? 'uuid';
+   }
+
+   /**
+    * Generates a new UUID v7
+    * @returns A time-ordered UUID v7 string
+    * @example
+    * const generator = new UuidV7Generator();
+    * const id = generator.getId(); // '018c3e5a-8b3e-7a1c-9f2d-3b4c5d6e7f80'
+    */
+   public getId(): UuidV7 {
+      const timestamp = this.getCurrentTimestamp();
+
+      if (timestamp > this.lastTimestamp) {
+         // New millisecond - reseed counter
+         this.lastTimestamp = timestamp;
+         this.counter = this.randomCounterSeed();
+      } else {
+         // Same millisecond or clock moved backwards - keep last timestamp
+         this.counter++;
+
+         // Counter overflow - borrow the next millisecond
+         if (this.counter > this.MAX_COUNTER) {
+            this.lastTimestamp++;
+            this.counter = this.randomCounterSeed();
+         }
+      }
+
+      return this.format(this.lastTimestamp, this.counter);
+   }
+
+   /**
+    * Extracts the embedded timestamp from a UUID v7
+    * @param id The UUID v7 string, in the generator's encoding
+    * @returns The Unix timestamp in milliseconds
+    */
+   public getTimestamp(id: string): number {
+      return Number(decodeId(id, this.encoding) >> 80n);
+   }
+
+   /**
+    * Gets the current timestamp in milliseconds
+    */
+   private getCurrentTimestamp(): number {
+      return this.clock.now();
+   }
+
+   /**
+    * Generates a random counter seed with the top bit cleared
+    */
+   private randomCounterSeed(): number {
+      const bytes = this.random.getRandomValues(new Uint8Array(6));
+      let seed = 0;
+      for (const byte of bytes) {
+         seed = seed * 256 + byte;
+      }
+      return seed % (this.MAX_COUNTER_SEED + 1);
+   }
+
+   /**
+    * Lays out timestamp, counter and random bits into the UUID string form
+    */
+   private format(timestamp: number, counter: number): UuidV7 {
+      const bytes = new Uint8Array(16);
+
+      // 48-bit big-endian timestamp
+      let remaining = timestamp;
+      for (let i = 5; i >= 0; i--) {
+         bytes[i] = remaining % 256;
+         remaining = Math.floor(remaining / 256);
+      }
+
+      const counterHigh = Math.floor(counter / 2 ** this.COUNTER_LOW_BITS);
+      const counterLow = counter % 2 ** this.COUNTER_LOW_BITS;
+
+      bytes[6] = 0x70 | (counterHigh >>> 8);
+      bytes[7] = counterHigh & 0xff;
+      bytes[8] = 0x80 | (counterLow >>> 24);
+      bytes[9] = (counterLow >>> 16) & 0xff;
+      bytes[10] = (counterLow >>> 8) & 0xff;
+      bytes[11] = counterLow & 0xff;
+      bytes.set(this.random.getRandomValues(new Uint8Array(4)), 12);
+
+      const hex = Array.from(bytes, (byte) =>
+         byte.toString(16).padStart(2, '0')
+      ).join('');
+
+      const id = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+
+      return (
+         this.encoding === 'uuid' ? id : encodeId(id, this.encoding)
+      ) as UuidV7;
+   }
+}
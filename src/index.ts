@@ -2,9 +2,46 @@
 export * from './interfaces/id-generator.interface';
 
 // Export generators
+export * from './generators/uuid-v1-generator';
 export * from './generators/uuid-v4-generator';
+export * from './generators/uuid-v5-generator';
+export * from './generators/uuid-v6-generator';
+export * from './generators/uuid-v7-generator';
 export * from './generators/nano-id-generator';
 export * from './generators/snowflake-generator';
+export * from './generators/snowflake-layout';
+export * from './generators/cuid-generator';
+export * from './generators/ulid-generator';
+export * from './generators/typeid-generator';
+export * from './generators/ksuid-generator';
+export * from './generators/prefixed-id-generator';
+
+// Export providers
+export * from './providers/clock.provider';
+export * from './providers/random.provider';
+export * from './providers/node-id.provider';
+export * from './providers/node-lease-store.provider';
+
+// Export utilities
+export * from './utils/crockford-base32';
+export * from './utils/typeid';
+export * from './utils/id-encoding';
+export * from './utils/uuid';
+export * from './utils/generate-ids';
+export * from './utils/inspect';
+export * from './utils/validate';
+export * from './utils/validate-options';
+export * from './utils/collision-risk';
+export * from './utils/id-range';
+
+// Export errors
+export * from './errors/id.error';
+export * from './errors/id-configuration.error';
+export * from './errors/invalid-id.error';
+export * from './errors/unsupported-generator.error';
+export * from './errors/clock-moved-backwards.error';
+export * from './errors/id-generation.error';
+export * from './errors/sequence-exhausted.error';
 
 // Export service
 export * from './services/id.service';
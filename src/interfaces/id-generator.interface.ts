@@ -1,47 +1,551 @@
 /**
  * Interface for ID generator implementations
+ * @template T The (branded) type of the generated IDs
  */
-export interface IIdGenerator {
+export interface IIdGenerator<T extends string = string> {
    /**
     * Generates a new ID
     * @returns A string representing the generated ID
     */
-   getId(): string;
+   getId(): T;
+
+   /**
+    * Generates multiple IDs at once
+    * Optional - generateIds() falls back to calling getId() in a loop
+    * @param count The number of IDs to generate
+    * @returns The generated IDs, in generation order
+    */
+   getIds?(count: number): T[];
+}
+
+declare const brand: unique symbol;
+
+/**
+ * Nominal (branded) string type
+ * A branded ID is still a string at runtime, but IDs of different formats are
+ * not assignable to each other at compile time
+ * @template T The underlying type
+ * @template B The brand name
+ */
+export type Brand<T, B extends string> = T & { readonly [brand]: B };
+
+/**
+ * UUID version 4 string
+ */
+export type UuidV4 = Brand<string, 'UuidV4'>;
+
+/**
+ * UUID version 7 string
+ */
+export type UuidV7 = Brand<string, 'UuidV7'>;
+
+/**
+ * UUID version 1 (Gregorian time, clock sequence and node) string
+ */
+export type UuidV1 = Brand<string, 'UuidV1'>;
+
+/**
+ * UUID version 6 (UUID v1 fields reordered to sort by time) string
+ */
+export type UuidV6 = Brand<string, 'UuidV6'>;
+
+/**
+ * UUID version 5 (name-based, SHA-1) string
+ */
+export type UuidV5 = Brand<string, 'UuidV5'>;
+
+/**
+ * UUID version 3 (name-based, MD5) string
+ */
+export type UuidV3 = Brand<string, 'UuidV3'>;
+
+/**
+ * Snowflake ID (decimal string)
+ */
+export type Snowflake = Brand<string, 'Snowflake'>;
+
+/**
+ * CUID string
+ */
+export type Cuid = Brand<string, 'Cuid'>;
+
+/**
+ * NanoId string
+ */
+export type NanoId = Brand<string, 'NanoId'>;
+
+/**
+ * ULID string
+ */
+export type Ulid = Brand<string, 'Ulid'>;
+
+/**
+ * KSUID string (27 Base62 characters)
+ */
+export type Ksuid = Brand<string, 'Ksuid'>;
+
+/**
+ * TypeID string (`prefix_` followed by a Base32-encoded UUID)
+ */
+export type TypeId = Brand<string, 'TypeId'>;
+
+/**
+ * ID carrying an entity prefix, e.g. `PrefixedId<'user'>` for `user_01HV...`
+ * IDs with different prefixes are not assignable to each other
+ * @template P The prefix
+ * @template S The separator between prefix and ID
+ */
+export type PrefixedId<
+   P extends string,
+   S extends PrefixSeparator = '_',
+> = Brand<`${P}${S}${string}`, `${P}${S}`>;
+
+/**
+ * Maps each generator type to the branded type of the IDs it generates
+ * Custom generators extend it through module augmentation
+ * @see IdService.registerGenerator
+ * @example
+ * declare module '@brmorillo/ids' {
+ *   interface IdTypeMap {
+ *     ksuid: Brand<string, 'Ksuid'>;
+ *   }
+ * }
+ */
+export interface IdTypeMap {
+   uuidv4: UuidV4;
+   uuidv7: UuidV7;
+   uuidv1: UuidV1;
+   uuidv6: UuidV6;
+   snowflake: Snowflake;
+   cuid: Cuid;
+   nanoid: NanoId;
+   ulid: Ulid;
+   typeid: TypeId;
+   ksuid: Ksuid;
+}
+
+/**
+ * Source of the current time used by time-based generators
+ */
+export interface ClockProvider {
+   /**
+    * Gets the current time
+    * @returns The current Unix timestamp in milliseconds
+    */
+   now(): number;
+}
+
+/**
+ * Source of random bytes used by random-based generators
+ */
+export interface RandomProvider {
+   /**
+    * Fills the given array with random bytes
+    * @param bytes The array to fill
+    * @returns The same array, filled
+    */
+   getRandomValues(bytes: Uint8Array): Uint8Array;
 }
 
 /**
  * Available ID generator types
  */
-export type IdGeneratorType =
-   | 'uuidv4'
-   | 'uuidv7'
-   | 'snowflake'
-   | 'cuid'
-   | 'nanoid';
+export type IdGeneratorType = keyof IdTypeMap;
+
+/**
+ * Maps each type that IDs can be validated against to its branded type
+ * On top of the generator types, holds the name-based UUID v5, which
+ * IdService derives with getUuidV5() but cannot generate
+ */
+export interface IdValidationTypeMap extends IdTypeMap {
+   uuidv5: UuidV5;
+}
+
+/**
+ * ID types accepted by validate() and assertValidId()
+ */
+export type IdValidationType = keyof IdValidationTypeMap;
+
+/**
+ * String representations of an ID value
+ * - 'decimal': canonical Snowflake form (no padding)
+ * - 'uuid': canonical hyphenated UUID form (128 bits)
+ * - 'hex', 'base32' (Crockford), 'base58' (Bitcoin), 'base62': fixed width, order-preserving
+ * - 'base64url': fixed width, RFC 4648 alphabet (not order-preserving)
+ */
+export type StringIdEncoding =
+   | 'decimal'
+   | 'uuid'
+   | 'hex'
+   | 'base32'
+   | 'base58'
+   | 'base62'
+   | 'base64url';
+
+/**
+ * Representations of an ID value: strings, big-endian bytes or bigint
+ */
+export type IdEncoding = StringIdEncoding | 'bytes' | 'bigint';
+
+/**
+ * Type of an ID encoded with the given encoding
+ * @template E The encoding
+ */
+export type EncodedId<E extends IdEncoding> = E extends 'bigint'
+   ? bigint
+   : E extends 'bytes'
+     ? Uint8Array
+     : string;
+
+/**
+ * Options for ID encoding and decoding
+ */
+export interface IdEncodingOptions {
+   /**
+    * Bit width of the ID value, used for padding and fixed-width encodings
+    * Must be a multiple of 8. Inferred when omitted: 128 for UUIDs,
+    * 8 bits per byte for byte arrays, otherwise 64 (128 for larger values)
+    */
+   bits?: number;
+}
+
+/**
+ * Bit layout of a Snowflake ID
+ * Fields are packed from most to least significant bit:
+ * timestamp | worker ID | process ID | sequence
+ */
+export interface SnowflakeLayout {
+   /**
+    * Bits used for the timestamp (ticks since epoch)
+    */
+   timestampBits: number;
+
+   /**
+    * Bits used for the worker ID (0 to disable the field)
+    */
+   workerIdBits: number;
+
+   /**
+    * Bits used for the process ID (0 to disable the field)
+    */
+   processIdBits: number;
+
+   /**
+    * Bits used for the per-tick sequence number
+    */
+   sequenceBits: number;
+}
+
+/**
+ * Named Snowflake presets for well-known layouts
+ * - 'default': 41/5/5/12 bits, 1ms ticks, epoch 2025-12-01
+ * - 'twitter': 41/5/5/12 bits, 1ms ticks, Twitter epoch (2010-11-04)
+ * - 'discord': 42/5/5/12 bits, 1ms ticks, Discord epoch (2015-01-01)
+ * - 'sonyflake': 39/16/0/8 bits, 10ms ticks, Sonyflake epoch (2014-09-01)
+ */
+export type SnowflakePreset = 'default' | 'twitter' | 'discord' | 'sonyflake';
+
+/**
+ * How a Snowflake generator reacts when the clock moves backwards
+ * - 'throw': refuse to generate IDs until the clock catches up
+ * - 'wait': wait for the clock to catch up, up to the configured tolerance
+ * - 'borrow': keep using the last timestamp and its remaining sequence space,
+ *   borrowing following ticks once it is exhausted, up to the configured tolerance
+ */
+export type ClockBackwardsStrategy = 'throw' | 'wait' | 'borrow';
+
+/**
+ * How a Snowflake generator reacts when all sequence numbers of the current
+ * tick have been issued
+ * - 'spin': busy-wait for the next tick (getIdAsync() always uses timers)
+ * - 'throw': throw a SequenceExhaustedError
+ * - 'wait': wait for the next tick without burning CPU - the thread sleeps in
+ *   getId()/getIds() and getIdAsync() uses timers
+ */
+export type SequenceExhaustedStrategy = 'spin' | 'throw' | 'wait';
+
+/**
+ * Details of a detected clock regression
+ */
+export interface ClockBackwardsEvent {
+   /**
+    * How far the clock moved backwards, in milliseconds
+    */
+   drift: number;
+
+   /**
+    * Last timestamp used by the generator (Unix milliseconds)
+    */
+   lastTimestamp: number;
+
+   /**
+    * Current clock timestamp (Unix milliseconds)
+    */
+   currentTimestamp: number;
+
+   /**
+    * Strategy applied to the regression
+    */
+   strategy: ClockBackwardsStrategy;
+}
 
 /**
  * Configuration options for Snowflake ID generator
  */
 export interface SnowflakeOptions {
    /**
-    * Worker ID (0-31) - identifies the worker/machine generating IDs
+    * Worker ID - identifies the worker/machine generating IDs
+    * Range: 0 to 2^workerIdBits - 1 (0-31 with the default layout)
+    * Takes precedence over nodeIdProvider
     * @default 1
     */
    workerId?: number;
 
    /**
-    * Process ID (0-31) - identifies the process on the worker
+    * Process ID - identifies the process on the worker
     * Also known as datacenter ID in some implementations
+    * Range: 0 to 2^processIdBits - 1 (0-31 with the default layout)
+    * Takes precedence over nodeIdProvider
     * @default 1
     */
    processId?: number;
 
+   /**
+    * Assigns the worker and process IDs of this node (environment variables,
+    * hostname ordinal, network hash or a lease)
+    * Used for the IDs not set explicitly
+    */
+   nodeIdProvider?: NodeIdProvider;
+
    /**
     * Custom epoch timestamp in milliseconds
-    * Default: January 1, 2000, 00:00:00 UTC (946684800000)
-    * @default 946684800000
+    * Default: December 1, 2025, 00:00:00 UTC (1733011200000)
+    * @default 1733011200000
     */
    epoch?: number;
+
+   /**
+    * Custom bit layout (must not exceed 64 bits in total)
+    * @default { timestampBits: 41, workerIdBits: 5, processIdBits: 5, sequenceBits: 12 }
+    */
+   layout?: SnowflakeLayout;
+
+   /**
+    * Duration of one timestamp tick in milliseconds
+    * @default 1
+    */
+   tickDuration?: number;
+
+   /**
+    * Named preset providing epoch, layout and tick duration
+    * Explicit epoch, layout and tickDuration options take precedence
+    * @default 'default'
+    */
+   preset?: SnowflakePreset;
+
+   /**
+    * Clock used to read the current time
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Behaviour when the clock moves backwards
+    * @default 'throw'
+    */
+   clockBackwardsStrategy?: ClockBackwardsStrategy;
+
+   /**
+    * Maximum clock regression in milliseconds tolerated by the 'wait' and
+    * 'borrow' strategies. Larger regressions throw
+    * @default 1000
+    */
+   clockBackwardsTolerance?: number;
+
+   /**
+    * Hook called every time a clock regression is detected,
+    * before the strategy is applied
+    */
+   onClockBackwards?: (event: ClockBackwardsEvent) => void;
+
+   /**
+    * Behaviour when the sequence of the current tick is exhausted
+    * @default 'spin'
+    */
+   sequenceExhaustedStrategy?: SequenceExhaustedStrategy;
+
+   /**
+    * String representation of the generated IDs
+    * @default 'decimal'
+    * @see encodeId
+    */
+   encoding?: StringIdEncoding;
+}
+
+/**
+ * Counters of a Snowflake generator, for metrics export
+ * Counters only increase over the generator's lifetime
+ */
+export interface SnowflakeStats {
+   /**
+    * Number of IDs issued
+    */
+   idsIssued: number;
+
+   /**
+    * Number of times the sequence of a tick was exhausted
+    */
+   sequenceExhaustions: number;
+
+   /**
+    * Number of clock regressions detected
+    */
+   clockRegressions: number;
+
+   /**
+    * Longest time spent waiting for the clock, in milliseconds
+    * (sequence exhaustion or clock regression under the 'wait' strategy)
+    */
+   maxWaitTime: number;
+}
+
+/**
+ * Worker and process IDs of a Snowflake node
+ */
+export interface NodeId {
+   workerId: number;
+   processId: number;
+}
+
+/**
+ * Source of the worker and process IDs of a Snowflake node
+ */
+export interface NodeIdProvider {
+   /**
+    * Gets the node IDs for a Snowflake layout
+    * @param layout The bit layout the IDs must fit in
+    * @returns The worker and process IDs
+    * @throws IdConfigurationError if no node IDs can be assigned
+    */
+   getNodeId(layout: SnowflakeLayout): NodeId;
+}
+
+/**
+ * Storage of node ID leases, shared by every node of a cluster
+ * Slots are node numbers between 0 and 2^(workerIdBits + processIdBits) - 1.
+ * Each operation must be atomic
+ */
+export interface NodeLeaseStore {
+   /**
+    * Leases a slot if it is free, expired or already leased by the owner
+    * @param slot The slot number
+    * @param owner Unique identifier of the node
+    * @param ttl Lease duration in milliseconds
+    * @returns Whether the slot is now leased by the owner
+    */
+   acquire(slot: number, owner: string, ttl: number): Promise<boolean>;
+
+   /**
+    * Extends a lease held by the owner
+    * @param slot The slot number
+    * @param owner Unique identifier of the node
+    * @param ttl New lease duration in milliseconds, from now
+    * @returns False if the owner no longer holds the lease
+    */
+   renew(slot: number, owner: string, ttl: number): Promise<boolean>;
+
+   /**
+    * Releases a lease held by the owner (no-op otherwise)
+    * @param slot The slot number
+    * @param owner Unique identifier of the node
+    */
+   release(slot: number, owner: string): Promise<void>;
+}
+
+/**
+ * Options of LeaseNodeIdProvider
+ */
+export interface LeaseNodeIdProviderOptions extends Pick<
+   SnowflakeOptions,
+   'preset' | 'layout'
+> {
+   /**
+    * Store shared by the nodes of the cluster
+    */
+   store: NodeLeaseStore;
+
+   /**
+    * Unique identifier of this node
+    * @default '<hostname>:<pid>:<random>'
+    */
+   owner?: string;
+
+   /**
+    * Lease duration in milliseconds. A crashed node frees its node ID
+    * once its lease expires
+    * @default 30000
+    */
+   ttl?: number;
+
+   /**
+    * Interval between lease renewals in milliseconds (must be below the TTL)
+    * @default ttl / 3
+    */
+   heartbeatInterval?: number;
+
+   /**
+    * Called when the lease cannot be renewed. Generators using the node ID
+    * must stop issuing IDs, another node may lease it
+    * Defaults to emitting an 'IdWarning' process warning
+    */
+   onLeaseLost?: (nodeId: NodeId) => void;
+}
+
+/**
+ * Minimal Redis client needed by RedisLeaseStore
+ * Adapts any client that can run Lua scripts:
+ * - ioredis: `(script, keys, args) => redis.eval(script, keys.length, ...keys, ...args)`
+ * - node-redis: `(script, keys, args) => client.eval(script, { keys, arguments: args })`
+ */
+export interface RedisLeaseClient {
+   /**
+    * Runs a Lua script atomically
+    * @param script The Lua script
+    * @param keys The KEYS of the script
+    * @param args The ARGV of the script
+    * @returns The script result (1 or 0 for the lease scripts)
+    */
+   eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+/**
+ * Components of a Snowflake ID
+ */
+export interface SnowflakeComponents {
+   /**
+    * Unix timestamp in milliseconds
+    */
+   timestamp: number;
+
+   /**
+    * Worker ID
+    */
+   workerId: number;
+
+   /**
+    * Process ID
+    */
+   processId: number;
+
+   /**
+    * Sequence number within the tick
+    */
+   sequence: number;
+
+   /**
+    * Timestamp as a Date
+    */
+   date: Date;
 }
 
 /**
@@ -59,17 +563,363 @@ export interface NanoIdOptions {
     * @default 21
     */
    size?: number;
+
+   /**
+    * Source of random bytes
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+
+   /**
+    * Number of IDs expected over the lifetime of the data set
+    * When set, a low entropy warning is raised if the alphabet and size give
+    * more than a one-in-a-million chance of a collision
+    */
+   expectedIds?: number;
+
+   /**
+    * Called instead of emitting a process warning when the configuration
+    * yields too little entropy for expectedIds
+    * Called every time a generator is created with the configuration
+    */
+   onLowEntropy?: (warning: NanoIdEntropyWarning) => void;
+}
+
+/**
+ * Details of a NanoId configuration with too little entropy
+ */
+export interface NanoIdEntropyWarning {
+   /**
+    * Random bits per ID (size * log2(alphabet length))
+    */
+   entropyBits: number;
+
+   /**
+    * The configured number of expected IDs
+    */
+   expectedIds: number;
+
+   /**
+    * Probability of at least one collision among expectedIds IDs
+    */
+   collisionProbability: number;
+}
+
+/**
+ * Configuration options for UUID v4 generator
+ */
+export interface UuidV4Options {
+   /**
+    * Source of random bytes
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+
+   /**
+    * String representation of the generated IDs
+    * @default 'uuid'
+    * @see encodeId
+    */
+   encoding?: StringIdEncoding;
+}
+
+/**
+ * Configuration options for UUID v1 and v6 generators
+ */
+export interface UuidV1Options {
+   /**
+    * Clock used to read the current time
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Source of the random node ID and clock sequence
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+
+   /**
+    * Node ID as 6 hex bytes ('aa:bb:cc:dd:ee:ff', 'aa-bb-...' or 'aabbccddeeff')
+    * Defaults to a random node ID with the multicast bit set, as RFC 9562
+    * recommends, rather than a MAC address that would identify the host
+    */
+   node?: string;
+
+   /**
+    * String representation of the generated IDs
+    * @default 'uuid'
+    * @see encodeId
+    */
+   encoding?: StringIdEncoding;
+}
+
+/**
+ * Configuration options for UUID v6 generator
+ */
+export type UuidV6Options = UuidV1Options;
+
+/**
+ * Configuration options for UUID v5 generator
+ */
+export interface UuidV5Options {
+   /**
+    * Namespace UUID of the generated IDs (see UUID_NAMESPACES)
+    * Required by UuidV5Generator
+    */
+   namespace?: string;
+
+   /**
+    * String representation of the generated IDs
+    * @default 'uuid'
+    * @see encodeId
+    */
+   encoding?: StringIdEncoding;
+}
+
+/**
+ * Configuration options for UUID v7 generator
+ */
+export interface UuidV7Options {
+   /**
+    * Clock used to read the current time
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Source of random bytes
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+
+   /**
+    * String representation of the generated IDs
+    * @default 'uuid'
+    * @see encodeId
+    */
+   encoding?: StringIdEncoding;
+}
+
+/**
+ * Configuration options for CUID generator
+ */
+export interface CuidOptions {
+   /**
+    * Length of the generated ID (2-32)
+    * @default 24
+    */
+   length?: number;
+
+   /**
+    * Host fingerprint mixed into every ID
+    * Can be a fixed string or a function returning one
+    * Default: hash of hostname, process ID and random entropy
+    */
+   fingerprint?: string | (() => string);
+
+   /**
+    * Clock used to read the current time
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Source of random bytes
+    * Pass a fixed fingerprint as well to get fully reproducible IDs
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+}
+
+/**
+ * Configuration options for ULID generator
+ */
+export interface UlidOptions {
+   /**
+    * Monotonic mode - IDs generated within the same millisecond
+    * increment the previous randomness instead of drawing new bits
+    * @default false
+    */
+   monotonic?: boolean;
+
+   /**
+    * Clock used to read the current time
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Source of random bytes
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+}
+
+/**
+ * Configuration options for TypeID generation
+ */
+export interface TypeIdOptions {
+   /**
+    * Type prefix, e.g. 'user'
+    * Up to 63 lowercase letters and underscores, starting and ending with a letter
+    * @default '' (no prefix)
+    */
+   prefix?: string;
+
+   /**
+    * Clock used for the embedded UUID v7 timestamp
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Source of the random bytes of the embedded UUID v7
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+}
+
+/**
+ * Components of a decoded TypeID
+ */
+export interface TypeIdComponents {
+   /**
+    * The type prefix ('' when the TypeID has no prefix)
+    */
+   prefix: string;
+
+   /**
+    * The embedded UUID in canonical lowercase form
+    */
+   uuid: string;
+}
+
+/**
+ * Configuration options for KSUID generation
+ */
+export interface KsuidOptions {
+   /**
+    * Custom epoch timestamp in milliseconds
+    * KSUIDs minted with different epochs cannot be compared
+    * Default: May 13, 2014, 16:53:20 UTC (1400000000000), as in the reference implementation
+    * @default 1400000000000
+    */
+   epoch?: number;
+
+   /**
+    * Clock used to read the current time
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Source of the random payload
+    * @default CryptoRandom
+    */
+   random?: RandomProvider;
+}
+
+/**
+ * Components of a decoded KSUID
+ */
+export interface KsuidComponents {
+   /**
+    * Unix timestamp in milliseconds (KSUIDs have a one-second precision)
+    */
+   timestamp: number;
+
+   /**
+    * Timestamp as a Date
+    */
+   date: Date;
+
+   /**
+    * 128-bit random payload as a hex string
+    */
+   payload: string;
+}
+
+/**
+ * Inclusive bounds of the IDs that can be minted within a time window
+ * @template T The ID type
+ * @see idRangeFor
+ */
+export interface IdRange<T extends string = string> {
+   /**
+    * Smallest possible ID at the start of the window
+    */
+   min: T;
+
+   /**
+    * Largest possible ID at the end of the window
+    */
+   max: T;
 }
 
 /**
  * ID generator configuration options
+ * Custom generators can add their own section through module augmentation
+ * (the type parameter must be declared exactly as below)
+ * @template T The configured generator type
+ * @example
+ * declare module '@brmorillo/ids' {
+ *   interface IdGeneratorOptions<T extends IdGeneratorType = IdGeneratorType> {
+ *     ksuid?: { timestampOffset?: number };
+ *   }
+ * }
  */
-export interface IdGeneratorOptions {
+export interface IdGeneratorOptions<
+   T extends IdGeneratorType = IdGeneratorType,
+> {
    /**
     * The type of ID generator to use
     * @default 'uuidv4'
     */
-   type?: IdGeneratorType;
+   type?: T;
+
+   /**
+    * Default clock for every generator created by the service
+    * Generator-specific options take precedence
+    */
+   clock?: ClockProvider;
+
+   /**
+    * Default source of random bytes for every generator created by the service
+    * Generator-specific options take precedence
+    */
+   random?: RandomProvider;
+
+   /**
+    * UUID v4-specific configuration options
+    * Only used when type is 'uuidv4'
+    */
+   uuidv4?: UuidV4Options;
+
+   /**
+    * UUID v7-specific configuration options
+    * Only used when type is 'uuidv7'
+    */
+   uuidv7?: UuidV7Options;
+
+   /**
+    * UUID v1-specific configuration options
+    * Only used when type is 'uuidv1'
+    */
+   uuidv1?: UuidV1Options;
+
+   /**
+    * UUID v6-specific configuration options
+    * Only used when type is 'uuidv6'
+    */
+   uuidv6?: UuidV6Options;
+
+   /**
+    * UUID v5-specific configuration options
+    * Used by getUuidV5() and to validate UUID v5 IDs. UUID v5 IDs are
+    * derived from a name, so 'uuidv5' cannot be the generator type
+    */
+   uuidv5?: UuidV5Options;
 
    /**
     * Snowflake-specific configuration options
@@ -82,4 +932,109 @@ export interface IdGeneratorOptions {
     * Only used when type is 'nanoid'
     */
    nanoid?: NanoIdOptions;
+
+   /**
+    * CUID-specific configuration options
+    * Only used when type is 'cuid'
+    */
+   cuid?: CuidOptions;
+
+   /**
+    * ULID-specific configuration options
+    * Only used when type is 'ulid'
+    */
+   ulid?: UlidOptions;
+
+   /**
+    * TypeID-specific configuration options
+    * Only used when type is 'typeid'
+    */
+   typeid?: TypeIdOptions;
+
+   /**
+    * KSUID-specific configuration options
+    * Only used when type is 'ksuid'
+    */
+   ksuid?: KsuidOptions;
+
+   /**
+    * Entities with prefixed IDs, keyed by entity name
+    * @see IdService.for
+    */
+   entities?: Record<string, EntityIdOptions>;
+}
+
+/**
+ * Creates the generator of a custom generator type
+ * Receives the options of the service (including service-wide clock and random)
+ * @template K The generator type
+ * @see IdService.registerGenerator
+ */
+export type IdGeneratorFactory<K extends IdGeneratorType = IdGeneratorType> = (
+   options: IdGeneratorOptions
+) => IIdGenerator<IdTypeMap[K]>;
+
+/**
+ * Checks the IDs of a custom generator type
+ * Receives the ID and the options of the service
+ * @returns True if the ID could have been produced with these options
+ * @see IdService.registerGenerator
+ */
+export type IdValidator = (id: string, options: IdGeneratorOptions) => boolean;
+
+/**
+ * Allowed separators between an ID prefix and the ID
+ */
+export type PrefixSeparator = '_' | '-' | '.' | ':';
+
+/**
+ * Configuration options for prefixed IDs
+ * @template P The prefix
+ * @template S The separator between prefix and ID
+ */
+export interface PrefixedIdOptions<
+   P extends string = string,
+   S extends PrefixSeparator = PrefixSeparator,
+> {
+   /**
+    * Entity prefix, e.g. 'user' or 'ord'
+    * 1-32 characters: a lowercase letter followed by lowercase letters or digits
+    */
+   prefix: P;
+
+   /**
+    * Separator between prefix and ID
+    * @default '_'
+    */
+   separator?: S;
+}
+
+/**
+ * Prefix and unprefixed ID extracted from a prefixed ID
+ */
+export interface ParsedPrefixedId<
+   P extends string = string,
+   T extends string = string,
+> {
+   /**
+    * The entity prefix
+    */
+   prefix: P;
+
+   /**
+    * The ID without prefix and separator
+    */
+   id: T;
 }
+
+/**
+ * Configuration of an entity registered on the ID service
+ * The generator options are the same as the service-wide ones
+ */
+export interface EntityIdOptions<
+   P extends string = string,
+   S extends PrefixSeparator = PrefixSeparator,
+>
+   extends
+      PrefixedIdOptions<P, S>,
+      Pick<IdGeneratorOptions, 'type' | 'snowflake' | 'nanoid' | 'cuid'> {}
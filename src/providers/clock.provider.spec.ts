@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'bun:test';
+import { SystemClock, FixedClock, SteppingClock } from './clock.provider';
+
+describe('Clock providers', () => {
+   describe('SystemClock', () => {
+      it('should return the system time', () => {
+         const clock = new SystemClock();
+         const before = Date.now();
+         const now = clock.now();
+
+         expect(now).toBeGreaterThanOrEqual(before);
+         expect(now).toBeLessThanOrEqual(Date.now());
+      });
+   });
+
+   describe('FixedClock', () => {
+      it('should stay frozen until moved', () => {
+         const clock = new FixedClock(new Date('2025-01-01T00:00:00.000Z'));
+
+         expect(clock.now()).toBe(1735689600000);
+         expect(clock.now()).toBe(1735689600000);
+
+         clock.advance(10);
+         expect(clock.now()).toBe(1735689600010);
+
+         clock.set(42);
+         expect(clock.now()).toBe(42);
+      });
+   });
+
+   describe('SteppingClock', () => {
+      it('should step forward on every read', () => {
+         const clock = new SteppingClock(1000, 5);
+
+         expect(clock.now()).toBe(1000);
+         expect(clock.now()).toBe(1005);
+         expect(clock.now()).toBe(1010);
+      });
+
+      it('should default to 1ms steps', () => {
+         const clock = new SteppingClock(new Date(0));
+
+         expect(clock.now()).toBe(0);
+         expect(clock.now()).toBe(1);
+      });
+   });
+});
@@ -0,0 +1,87 @@
+import { ClockProvider } from '../interfaces/id-generator.interface';
+
+/**
+ * Clock backed by the system time (Date.now())
+ */
+export class SystemClock implements ClockProvider {
+   /**
+    * Gets the current system time
+    * @returns The current Unix timestamp in milliseconds
+    */
+   public now(): number {
+      return Date.now();
+   }
+}
+
+/**
+ * Clock frozen at a given time until it is moved explicitly
+ * Intended for deterministic tests. Generators that wait for the clock
+ * (e.g. Snowflake sequence exhaustion) never return with a frozen clock;
+ * use SteppingClock when a test mints that many IDs
+ *
+ * @example
+ * const clock = new FixedClock(new Date('2025-01-01T00:00:00.000Z'));
+ * clock.now(); // 1735689600000
+ * clock.advance(10);
+ * clock.now(); // 1735689600010
+ */
+export class FixedClock implements ClockProvider {
+   private time: number;
+
+   constructor(time: number | Date) {
+      this.time = typeof time === 'number' ? time : time.getTime();
+   }
+
+   /**
+    * Gets the frozen time
+    * @returns The frozen Unix timestamp in milliseconds
+    */
+   public now(): number {
+      return this.time;
+   }
+
+   /**
+    * Moves the clock to the given time
+    * @param time The new time
+    */
+   public set(time: number | Date): void {
+      this.time = typeof time === 'number' ? time : time.getTime();
+   }
+
+   /**
+    * Moves the clock forward (or backwards with a negative value)
+    * @param milliseconds The number of milliseconds to move
+    */
+   public advance(milliseconds: number): void {
+      this.time += milliseconds;
+   }
+}
+
+/**
+ * Clock that moves forward by a fixed step every time it is read
+ * Intended for deterministic tests
+ *
+ * @example
+ * const clock = new SteppingClock(1000, 5);
+ * clock.now(); // 1000
+ * clock.now(); // 1005
+ */
+export class SteppingClock implements ClockProvider {
+   private time: number;
+   private readonly step: number;
+
+   constructor(start: number | Date, step: number = 1) {
+      this.time = typeof start === 'number' ? start : start.getTime();
+      this.step = step;
+   }
+
+   /**
+    * Gets the current time, then moves the clock forward by one step
+    * @returns The Unix timestamp in milliseconds before stepping
+    */
+   public now(): number {
+      const time = this.time;
+      this.time += this.step;
+      return time;
+   }
+}
@@ -0,0 +1,370 @@
+import { describe, it, expect } from 'bun:test';
+import {
+   EnvNodeIdProvider,
+   HostnameNodeIdProvider,
+   LeaseNodeIdProvider,
+   NetworkNodeIdProvider,
+} from './node-id.provider';
+import { MemoryLeaseStore } from './node-lease-store.provider';
+import { FixedClock } from './clock.provider';
+import { SnowflakeGenerator } from '../generators/snowflake-generator';
+import { SNOWFLAKE_PRESETS } from '../generators/snowflake-layout';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { IdGenerationError } from '../errors/id-generation.error';
+import type { NodeLeaseStore } from '../interfaces/id-generator.interface';
+
+const layout = SNOWFLAKE_PRESETS.default.layout;
+const tinyLayout = {
+   timestampBits: 41,
+   workerIdBits: 1,
+   processIdBits: 1,
+   sequenceBits: 12,
+};
+
+describe('Node ID providers', () => {
+   describe('EnvNodeIdProvider', () => {
+      it('should read the node IDs from the environment', () => {
+         const provider = new EnvNodeIdProvider({
+            env: { SNOWFLAKE_WORKER_ID: '3', SNOWFLAKE_PROCESS_ID: ' 7 ' },
+         });
+
+         expect(provider.getNodeId()).toEqual({ workerId: 3, processId: 7 });
+      });
+
+      it('should support custom variables and default the process ID to 0', () => {
+         const provider = new EnvNodeIdProvider({
+            workerIdVariable: 'WORKER',
+            env: { WORKER: '12' },
+         });
+
+         expect(provider.getNodeId()).toEqual({ workerId: 12, processId: 0 });
+      });
+
+      it('should reject missing and invalid variables', () => {
+         expect(() => new EnvNodeIdProvider({ env: {} }).getNodeId()).toThrow(
+            new IdConfigurationError(
+               'Environment variable SNOWFLAKE_WORKER_ID is not set'
+            )
+         );
+         expect(() =>
+            new EnvNodeIdProvider({
+               env: { SNOWFLAKE_WORKER_ID: '-1' },
+            }).getNodeId()
+         ).toThrow(
+            "Environment variable SNOWFLAKE_WORKER_ID must be a non-negative integer, got '-1'"
+         );
+      });
+   });
+
+   describe('HostnameNodeIdProvider', () => {
+      it('should split the hostname ordinal into worker and process IDs', () => {
+         expect(
+            new HostnameNodeIdProvider({ hostname: 'ids-api-3' }).getNodeId(
+               layout
+            )
+         ).toEqual({ workerId: 0, processId: 3 });
+         expect(
+            new HostnameNodeIdProvider({ hostname: 'ids-api-70' }).getNodeId(
+               layout
+            )
+         ).toEqual({ workerId: 2, processId: 6 });
+      });
+
+      it('should support custom patterns', () => {
+         const provider = new HostnameNodeIdProvider({
+            hostname: 'node07.eu-west',
+            pattern: /^node(\d+)\./,
+         });
+
+         expect(provider.getNodeId(layout)).toEqual({
+            workerId: 0,
+            processId: 7,
+         });
+      });
+
+      it('should reject hostnames without ordinal or out of range', () => {
+         expect(() =>
+            new HostnameNodeIdProvider({ hostname: 'ids-api' }).getNodeId(
+               layout
+            )
+         ).toThrow(IdConfigurationError);
+         expect(() =>
+            new HostnameNodeIdProvider({ hostname: 'ids-api-4' }).getNodeId(
+               tinyLayout
+            )
+         ).toThrow(
+            'Hostname ordinal 4 exceeds the 4 node IDs of the Snowflake layout'
+         );
+      });
+   });
+
+   describe('NetworkNodeIdProvider', () => {
+      const interfaces = {
+         lo: [
+            {
+               address: '127.0.0.1',
+               netmask: '255.0.0.0',
+               family: 'IPv4' as const,
+               mac: '00:00:00:00:00:00',
+               internal: true,
+               cidr: '127.0.0.1/8',
+            },
+         ],
+         eth0: [
+            {
+               address: '10.0.0.12',
+               netmask: '255.255.255.0',
+               family: 'IPv4' as const,
+               mac: '02:42:ac:11:00:02',
+               internal: false,
+               cidr: '10.0.0.12/24',
+            },
+         ],
+      };
+
+      it('should hash the MAC address into the layout', () => {
+         const nodeId = new NetworkNodeIdProvider({ interfaces }).getNodeId(
+            layout
+         );
+
+         expect(nodeId.workerId).toBeLessThan(32);
+         expect(nodeId.processId).toBeLessThan(32);
+         expect(
+            new NetworkNodeIdProvider({ interfaces }).getNodeId(layout)
+         ).toEqual(nodeId);
+      });
+
+      it('should fall back to the IP address without MAC address', () => {
+         const withoutMac = {
+            eth0: [{ ...interfaces.eth0[0], mac: '00:00:00:00:00:00' }],
+         };
+         const otherIp = {
+            eth0: [{ ...withoutMac.eth0[0], address: '10.0.0.13' }],
+         };
+
+         const nodeIds = new Set(
+            [withoutMac, otherIp, interfaces].map((candidate) =>
+               JSON.stringify(
+                  new NetworkNodeIdProvider({
+                     interfaces: candidate,
+                  }).getNodeId({ ...layout, workerIdBits: 16 })
+               )
+            )
+         );
+         expect(nodeIds.size).toBe(3);
+      });
+
+      it('should reject hosts without external interface', () => {
+         expect(
+            () =>
+               new NetworkNodeIdProvider({ interfaces: { lo: interfaces.lo } })
+         ).toThrow(
+            new IdConfigurationError('No external network interface found')
+         );
+      });
+   });
+
+   describe('LeaseNodeIdProvider', () => {
+      it('should lease distinct node IDs until the layout is exhausted', async () => {
+         const store = new MemoryLeaseStore();
+         const providers = [1, 2, 3, 4, 5].map(
+            (node) =>
+               new LeaseNodeIdProvider({
+                  store,
+                  layout: tinyLayout,
+                  owner: `node-${node}`,
+               })
+         );
+
+         const nodeIds = await Promise.all(
+            providers.slice(0, 4).map((provider) => provider.acquire())
+         );
+         expect(new Set(nodeIds.map((id) => JSON.stringify(id))).size).toBe(4);
+         await expect(providers[4].acquire()).rejects.toThrow(
+            new IdGenerationError('No free node ID: all 4 node IDs are leased')
+         );
+
+         await providers[0].release();
+         expect(await providers[4].acquire()).toEqual(nodeIds[0]);
+
+         await Promise.all(providers.map((provider) => provider.release()));
+      });
+
+      it('should provide the leased node IDs to Snowflake generators', async () => {
+         const nodeIdProvider = new LeaseNodeIdProvider({
+            store: new MemoryLeaseStore(),
+         });
+
+         expect(() => new SnowflakeGenerator({ nodeIdProvider })).toThrow(
+            'Node ID lease not acquired. Await acquire() before creating Snowflake generators'
+         );
+
+         const nodeId = await nodeIdProvider.acquire();
+         const generator = new SnowflakeGenerator({ nodeIdProvider });
+         const { workerId, processId } = generator.deconstruct(
+            generator.getId()
+         );
+
+         expect({ workerId, processId }).toEqual(nodeId);
+         expect(() => nodeIdProvider.getNodeId(tinyLayout)).toThrow(
+            'Node ID lease was acquired for another Snowflake layout'
+         );
+         await nodeIdProvider.release();
+      });
+
+      it('should stop Snowflake generators once the lease is released', async () => {
+         const nodeIdProvider = new LeaseNodeIdProvider({
+            store: new MemoryLeaseStore(),
+         });
+         await nodeIdProvider.acquire();
+         const generator = new SnowflakeGenerator({ nodeIdProvider });
+         const id = generator.getId();
+
+         await nodeIdProvider.release();
+
+         expect(() => generator.getId()).toThrow(IdConfigurationError);
+         expect(() => generator.getIds(2)).toThrow(IdConfigurationError);
+         expect(generator.deconstruct(id).sequence).toBe(0);
+      });
+
+      it('should report a lost lease', async () => {
+         const clock = new FixedClock(0);
+         const store = new MemoryLeaseStore({ clock });
+         const lost: unknown[] = [];
+         const provider = new LeaseNodeIdProvider({
+            store,
+            layout: tinyLayout,
+            ttl: 1000,
+            onLeaseLost: (nodeId) => lost.push(nodeId),
+         });
+         const nodeId = await provider.acquire();
+
+         clock.advance(500);
+         expect(await provider.renew()).toBe(true);
+
+         clock.advance(1000);
+         expect(await provider.renew()).toBe(false);
+         expect(lost).toEqual([nodeId]);
+         expect(() => provider.getNodeId(tinyLayout)).toThrow(
+            IdConfigurationError
+         );
+      });
+
+      it('should stop minting when renewals never complete', async () => {
+         const store: NodeLeaseStore = {
+            acquire: async () => true,
+            renew: () => new Promise<boolean>(() => undefined),
+            release: async () => undefined,
+         };
+         const lost: unknown[] = [];
+         const nodeIdProvider = new LeaseNodeIdProvider({
+            store,
+            ttl: 40,
+            heartbeatInterval: 10,
+            onLeaseLost: (nodeId) => lost.push(nodeId),
+         });
+         const nodeId = await nodeIdProvider.acquire();
+         const generator = new SnowflakeGenerator({ nodeIdProvider });
+         generator.getId();
+
+         await new Promise((resolve) => setTimeout(resolve, 60));
+
+         expect(lost).toEqual([nodeId]);
+         expect(() => generator.getId()).toThrow(IdConfigurationError);
+         await nodeIdProvider.release();
+      });
+
+      it('should stop minting when the event loop blocks the heartbeat', async () => {
+         const lost: unknown[] = [];
+         const nodeIdProvider = new LeaseNodeIdProvider({
+            store: new MemoryLeaseStore(),
+            ttl: 40,
+            heartbeatInterval: 10,
+            onLeaseLost: (nodeId) => lost.push(nodeId),
+         });
+         const nodeId = await nodeIdProvider.acquire();
+         const generator = new SnowflakeGenerator({ nodeIdProvider });
+
+         const blockedUntil = Date.now() + 30;
+         while (Date.now() < blockedUntil) {
+            // Busy wait: no heartbeat can run
+         }
+
+         expect(() => generator.getId()).toThrow(
+            new IdGenerationError(
+               'Node ID lease was not renewed within 25 milliseconds and may be leased by another node'
+            )
+         );
+         expect(lost).toEqual([nodeId]);
+         await nodeIdProvider.release();
+      });
+
+      it('should renew the lease on every heartbeat', async () => {
+         let renewals = 0;
+         const store: NodeLeaseStore = {
+            acquire: async () => true,
+            renew: async () => ++renewals > 0,
+            release: async () => undefined,
+         };
+         const provider = new LeaseNodeIdProvider({
+            store,
+            ttl: 30,
+            heartbeatInterval: 5,
+         });
+
+         await provider.acquire();
+         await new Promise((resolve) => setTimeout(resolve, 40));
+         await provider.release();
+         const renewalsAfterRelease = renewals;
+         await new Promise((resolve) => setTimeout(resolve, 15));
+
+         expect(renewalsAfterRelease).toBeGreaterThanOrEqual(2);
+         expect(renewals).toBe(renewalsAfterRelease);
+      });
+
+      it('should validate the TTL and heartbeat interval', () => {
+         const store = new MemoryLeaseStore();
+
+         expect(() => new LeaseNodeIdProvider({ store, ttl: 0 })).toThrow(
+            'Lease TTL must be a positive integer'
+         );
+         expect(
+            () =>
+               new LeaseNodeIdProvider({
+                  store,
+                  ttl: 1000,
+                  heartbeatInterval: 1000,
+               })
+         ).toThrow(
+            'Lease heartbeat interval must be a positive integer below the TTL'
+         );
+      });
+   });
+
+   describe('Snowflake options', () => {
+      it('should prefer explicit worker and process IDs', () => {
+         const generator = new SnowflakeGenerator({
+            workerId: 9,
+            nodeIdProvider: new EnvNodeIdProvider({
+               env: { SNOWFLAKE_WORKER_ID: '3', SNOWFLAKE_PROCESS_ID: '4' },
+            }),
+         });
+         const { workerId, processId } = generator.deconstruct(
+            generator.getId()
+         );
+
+         expect({ workerId, processId }).toEqual({ workerId: 9, processId: 4 });
+      });
+
+      it('should validate provided node IDs against the layout', () => {
+         expect(
+            () =>
+               new SnowflakeGenerator({
+                  nodeIdProvider: new EnvNodeIdProvider({
+                     env: { SNOWFLAKE_WORKER_ID: '32' },
+                  }),
+               })
+         ).toThrow('Worker ID must be between 0 and 31');
+      });
+   });
+});
@@ -0,0 +1,459 @@
+import { createHash, randomInt, randomUUID } from 'crypto';
+import { hostname, networkInterfaces, NetworkInterfaceInfo } from 'os';
+import type {
+   LeaseNodeIdProviderOptions,
+   NodeId,
+   NodeIdProvider,
+   NodeLeaseStore,
+   SnowflakeLayout,
+} from '../interfaces/id-generator.interface';
+import { resolveSnowflakeConfig } from '../generators/snowflake-layout';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { IdGenerationError } from '../errors/id-generation.error';
+
+/**
+ * Default lease duration of LeaseNodeIdProvider, in milliseconds
+ */
+export const DEFAULT_NODE_LEASE_TTL = 30000;
+
+/**
+ * Options of EnvNodeIdProvider
+ */
+export interface EnvNodeIdProviderOptions {
+   /**
+    * Variable holding the worker ID
+    * @default 'SNOWFLAKE_WORKER_ID'
+    */
+   workerIdVariable?: string;
+
+   /**
+    * Variable holding the process ID (0 when unset)
+    * @default 'SNOWFLAKE_PROCESS_ID'
+    */
+   processIdVariable?: string;
+
+   /**
+    * Environment to read
+    * @default process.env
+    */
+   env?: Record<string, string | undefined>;
+}
+
+/**
+ * Options of HostnameNodeIdProvider
+ */
+export interface HostnameNodeIdProviderOptions {
+   /**
+    * Hostname to parse
+    * @default os.hostname()
+    */
+   hostname?: string;
+
+   /**
+    * Pattern whose first capture group is the ordinal
+    * @default /-(\d+)$/ (StatefulSet pods: 'ids-api-3')
+    */
+   pattern?: RegExp;
+}
+
+/**
+ * Options of NetworkNodeIdProvider
+ */
+export interface NetworkNodeIdProviderOptions {
+   /**
+    * Network interfaces to pick the address from
+    * @default os.networkInterfaces()
+    */
+   interfaces?: NodeJS.Dict<NetworkInterfaceInfo[]>;
+
+   /**
+    * Also hash the process ID, for several processes per host
+    * @default false
+    */
+   includePid?: boolean;
+}
+
+/**
+ * Reads the node IDs from environment variables
+ *
+ * @example
+ * // SNOWFLAKE_WORKER_ID=3 SNOWFLAKE_PROCESS_ID=1
+ * new SnowflakeGenerator({ nodeIdProvider: new EnvNodeIdProvider() });
+ */
+export class EnvNodeIdProvider implements NodeIdProvider {
+   private readonly workerIdVariable: string;
+   private readonly processIdVariable: string;
+   private readonly env: Record<string, string | undefined>;
+
+   constructor(options?: EnvNodeIdProviderOptions) {
+      this.workerIdVariable =
+         options?.workerIdVariable ?? 'SNOWFLAKE_WORKER_ID';
+      this.processIdVariable =
+         options?.processIdVariable ?? 'SNOWFLAKE_PROCESS_ID';
+      this.env = options?.env ?? process.env;
+   }
+
+   /**
+    * Gets the node IDs from the environment
+    * @returns The worker and process IDs
+    * @throws IdConfigurationError if the worker ID variable is unset, or a
+    * variable is not a non-negative integer
+    */
+   public getNodeId(): NodeId {
+      const workerId = this.read(this.workerIdVariable);
+      if (workerId === undefined) {
+         throw new IdConfigurationError(
+            `Environment variable ${this.workerIdVariable} is not set`
+         );
+      }
+      return { workerId, processId: this.read(this.processIdVariable) ?? 0 };
+   }
+
+   /**
+    * Reads an integer variable
+    */
+   private read(name: string): number | undefined {
+      const value = this.env[name]?.trim();
+      if (!value) {
+         return undefined;
+      }
+      if (!/^\d+$/.test(value)) {
+         throw new IdConfigurationError(
+            `Environment variable ${name} must be a non-negative integer, got '${value}'`
+         );
+      }
+      return Number(value);
+   }
+}
+
+/**
+ * Derives the node IDs from the ordinal at the end of the hostname
+ * (Kubernetes StatefulSet pods, numbered VMs). The ordinal is the node
+ * number, split into worker ID (high bits) and process ID (low bits)
+ *
+ * @example
+ * // Pod 'ids-api-3', default layout
+ * new HostnameNodeIdProvider().getNodeId(layout); // { workerId: 0, processId: 3 }
+ */
+export class HostnameNodeIdProvider implements NodeIdProvider {
+   private readonly hostname: string;
+   private readonly pattern: RegExp;
+
+   constructor(options?: HostnameNodeIdProviderOptions) {
+      this.hostname = options?.hostname ?? hostname();
+      this.pattern = options?.pattern ?? /-(\d+)$/;
+   }
+
+   /**
+    * Gets the node IDs from the hostname ordinal
+    * @param layout The bit layout the IDs must fit in
+    * @returns The worker and process IDs
+    * @throws IdConfigurationError if the hostname has no ordinal, or the
+    * ordinal does not fit in the layout
+    */
+   public getNodeId(layout: SnowflakeLayout): NodeId {
+      const ordinal = this.pattern.exec(this.hostname)?.[1];
+      if (ordinal === undefined || !/^\d+$/.test(ordinal)) {
+         throw new IdConfigurationError(
+            `Hostname '${this.hostname}' has no ordinal matching ${this.pattern}`
+         );
+      }
+
+      const slot = Number(ordinal);
+      const slots = getNodeSlots(layout);
+      if (slot >= slots) {
+         throw new IdConfigurationError(
+            `Hostname ordinal ${slot} exceeds the ${slots} node IDs of the Snowflake layout`
+         );
+      }
+      return toNodeId(slot, layout);
+   }
+}
+
+/**
+ * Derives the node IDs from a hash of the host's MAC address (or IP address
+ * when no interface has one)
+ * Hashes can collide: prefer leases when the cluster is large compared to the
+ * number of node IDs of the layout
+ *
+ * @example
+ * new SnowflakeGenerator({
+ *   nodeIdProvider: new NetworkNodeIdProvider({ includePid: true }),
+ * });
+ */
+export class NetworkNodeIdProvider implements NodeIdProvider {
+   private readonly identity: string;
+
+   constructor(options?: NetworkNodeIdProviderOptions) {
+      const address = getNetworkAddress(
+         options?.interfaces ?? networkInterfaces()
+      );
+      this.identity = options?.includePid
+         ? `${address}:${process.pid}`
+         : address;
+   }
+
+   /**
+    * Gets the node IDs from the network address hash
+    * @param layout The bit layout the IDs must fit in
+    * @returns The worker and process IDs
+    */
+   public getNodeId(layout: SnowflakeLayout): NodeId {
+      const hash = createHash('sha256').update(this.identity).digest();
+      return toNodeId(hash.readUIntBE(0, 6) % getNodeSlots(layout), layout);
+   }
+}
+
+/**
+ * Leases the node IDs from a store shared by the nodes of a cluster
+ * acquire() picks a free node ID, a heartbeat renews the lease until
+ * release() is called. Leases of crashed nodes expire after the TTL
+ *
+ * @example
+ * const nodeIdProvider = new LeaseNodeIdProvider({
+ *   store: new FileLeaseStore({ directory: '/var/run/ids' }),
+ * });
+ * await nodeIdProvider.acquire();
+ * const generator = new SnowflakeGenerator({ nodeIdProvider });
+ *
+ * process.once('SIGTERM', () => nodeIdProvider.release());
+ */
+export class LeaseNodeIdProvider implements NodeIdProvider {
+   /**
+    * Unique identifier of this node in the store
+    */
+   public readonly owner: string;
+   private readonly store: NodeLeaseStore;
+   private readonly layout: SnowflakeLayout;
+   private readonly ttl: number;
+   private readonly heartbeatInterval: number;
+   private readonly validity: number;
+   private readonly onLeaseLost: LeaseNodeIdProviderOptions['onLeaseLost'];
+   private slot?: number;
+   private lastRenewal = 0;
+   private heartbeat?: ReturnType<typeof setInterval>;
+
+   constructor(options: LeaseNodeIdProviderOptions) {
+      this.store = options.store;
+      this.layout = resolveSnowflakeConfig({
+         preset: options.preset,
+         layout: options.layout,
+      }).layout;
+      this.owner =
+         options.owner ??
+         `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+      this.ttl = options.ttl ?? DEFAULT_NODE_LEASE_TTL;
+      this.heartbeatInterval =
+         options.heartbeatInterval ?? Math.floor(this.ttl / 3);
+      this.onLeaseLost = options.onLeaseLost;
+
+      if (!Number.isInteger(this.ttl) || this.ttl < 1) {
+         throw new IdConfigurationError('Lease TTL must be a positive integer');
+      }
+      if (
+         !Number.isInteger(this.heartbeatInterval) ||
+         this.heartbeatInterval < 1 ||
+         this.heartbeatInterval >= this.ttl
+      ) {
+         throw new IdConfigurationError(
+            'Lease heartbeat interval must be a positive integer below the TTL'
+         );
+      }
+      // Stop using the node ID halfway between the next heartbeat and the
+      // store-side expiry, as a margin for slow store calls and clock drift
+      this.validity = Math.floor((this.ttl + this.heartbeatInterval) / 2);
+   }
+
+   /**
+    * Leases a free node ID and starts the heartbeat
+    * Slots are probed from a random start, so concurrent nodes rarely contend
+    * @returns The leased worker and process IDs
+    * @throws IdGenerationError if every node ID is leased
+    */
+   public async acquire(): Promise<NodeId> {
+      if (this.slot !== undefined) {
+         return toNodeId(this.slot, this.layout);
+      }
+
+      const slots = getNodeSlots(this.layout);
+      const start = randomInt(slots);
+      for (let i = 0; i < slots; i++) {
+         const slot = (start + i) % slots;
+         const requestedAt = Date.now();
+         if (await this.store.acquire(slot, this.owner, this.ttl)) {
+            this.slot = slot;
+            this.lastRenewal = requestedAt;
+            this.startHeartbeat();
+            return toNodeId(slot, this.layout);
+         }
+      }
+      throw new IdGenerationError(
+         `No free node ID: all ${slots} node IDs are leased`
+      );
+   }
+
+   /**
+    * Renews the lease now (the heartbeat does it periodically)
+    * @returns False if the lease was lost (onLeaseLost is called) or never acquired
+    */
+   public async renew(): Promise<boolean> {
+      const slot = this.slot;
+      if (slot === undefined) {
+         return false;
+      }
+      // The store extends the lease from its own clock, at the earliest now
+      const requestedAt = Date.now();
+      const renewed = await this.store.renew(slot, this.owner, this.ttl);
+      if (this.slot !== slot) {
+         // Released or lost while the store call was pending
+         return false;
+      }
+      if (renewed) {
+         this.lastRenewal = requestedAt;
+      } else {
+         this.loseLease();
+      }
+      return renewed;
+   }
+
+   /**
+    * Stops the heartbeat and releases the lease
+    * Call it on shutdown so that the node ID is available immediately
+    */
+   public async release(): Promise<void> {
+      this.stopHeartbeat();
+      if (this.slot === undefined) {
+         return;
+      }
+      const slot = this.slot;
+      this.slot = undefined;
+      await this.store.release(slot, this.owner);
+   }
+
+   /**
+    * Gets the leased node IDs
+    * @param layout The bit layout the IDs must fit in
+    * @returns The worker and process IDs
+    * @throws IdConfigurationError if no lease is held, or the lease was
+    * acquired for another layout
+    * @throws IdGenerationError if the lease was not renewed in time (a hung
+    * store call or a blocked event loop); the lease is then dropped as lost
+    */
+   public getNodeId(layout: SnowflakeLayout): NodeId {
+      if (this.slot === undefined) {
+         throw new IdConfigurationError(
+            'Node ID lease not acquired. Await acquire() before creating Snowflake generators'
+         );
+      }
+      if (this.isExpired()) {
+         this.loseLease();
+         throw new IdGenerationError(
+            `Node ID lease was not renewed within ${this.validity} milliseconds and may be leased by another node`
+         );
+      }
+      if (
+         layout.workerIdBits !== this.layout.workerIdBits ||
+         layout.processIdBits !== this.layout.processIdBits
+      ) {
+         throw new IdConfigurationError(
+            'Node ID lease was acquired for another Snowflake layout'
+         );
+      }
+      return toNodeId(this.slot, this.layout);
+   }
+
+   /**
+    * Renews the lease every heartbeat interval, without keeping the process alive
+    * Store errors and hung calls are retried on the next beat until the lease expires
+    */
+   private startHeartbeat(): void {
+      this.heartbeat = setInterval(() => {
+         if (this.isExpired()) {
+            this.loseLease();
+            return;
+         }
+         this.renew().catch(() => {
+            if (this.isExpired()) {
+               this.loseLease();
+            }
+         });
+      }, this.heartbeatInterval);
+      this.heartbeat.unref?.();
+   }
+
+   /**
+    * Checks whether the last successful renewal is too old to keep using the node ID
+    */
+   private isExpired(): boolean {
+      return Date.now() - this.lastRenewal >= this.validity;
+   }
+
+   /**
+    * Stops the heartbeat
+    */
+   private stopHeartbeat(): void {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+   }
+
+   /**
+    * Drops a lost lease and notifies the application
+    */
+   private loseLease(): void {
+      if (this.slot === undefined) {
+         return;
+      }
+      const nodeId = toNodeId(this.slot, this.layout);
+      this.slot = undefined;
+      this.stopHeartbeat();
+
+      if (this.onLeaseLost) {
+         this.onLeaseLost(nodeId);
+         return;
+      }
+      process.emitWarning(
+         `Node ID lease lost (worker ID ${nodeId.workerId}, process ID ${nodeId.processId}). Snowflake generators using it throw until a lease is acquired again`,
+         { type: 'IdWarning', code: 'ID_NODE_LEASE_LOST' }
+      );
+   }
+}
+
+/**
+ * Gets the number of distinct node IDs of a layout
+ */
+function getNodeSlots(layout: SnowflakeLayout): number {
+   return 2 ** (layout.workerIdBits + layout.processIdBits);
+}
+
+/**
+ * Splits a node number into worker ID (high bits) and process ID (low bits)
+ */
+function toNodeId(slot: number, layout: SnowflakeLayout): NodeId {
+   const processIds = 2 ** layout.processIdBits;
+   return {
+      workerId: Math.floor(slot / processIds),
+      processId: slot % processIds,
+   };
+}
+
+/**
+ * Picks the first external MAC address, or the first external IP address,
+ * in interface name order
+ */
+function getNetworkAddress(
+   interfaces: NodeJS.Dict<NetworkInterfaceInfo[]>
+): string {
+   const external = Object.keys(interfaces)
+      .sort()
+      .flatMap((name) => interfaces[name] ?? [])
+      .filter((info) => !info.internal);
+
+   const mac = external.find(
+      (info) => info.mac && info.mac !== '00:00:00:00:00:00'
+   )?.mac;
+   const address = mac ?? external[0]?.address;
+   if (!address) {
+      throw new IdConfigurationError('No external network interface found');
+   }
+   return address;
+}
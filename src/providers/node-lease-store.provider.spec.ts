@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+   FileLeaseStore,
+   MemoryLeaseStore,
+   RedisLeaseStore,
+} from './node-lease-store.provider';
+import { FixedClock } from './clock.provider';
+import type {
+   ClockProvider,
+   NodeLeaseStore,
+} from '../interfaces/id-generator.interface';
+
+/**
+ * Checks the lease semantics shared by every store
+ */
+function describeLeaseStore(
+   createStore: (clock: FixedClock) => NodeLeaseStore
+): void {
+   let clock: FixedClock;
+   let store: NodeLeaseStore;
+
+   beforeEach(() => {
+      clock = new FixedClock(1000);
+      store = createStore(clock);
+   });
+
+   it('should lease a slot to a single owner', async () => {
+      expect(await store.acquire(0, 'a', 100)).toBe(true);
+      expect(await store.acquire(0, 'b', 100)).toBe(false);
+      expect(await store.acquire(0, 'a', 100)).toBe(true);
+      expect(await store.acquire(1, 'b', 100)).toBe(true);
+   });
+
+   it('should renew leases of the owner only', async () => {
+      await store.acquire(0, 'a', 100);
+      clock.advance(60);
+
+      expect(await store.renew(0, 'a', 100)).toBe(true);
+      expect(await store.renew(0, 'b', 100)).toBe(false);
+
+      clock.advance(60);
+      expect(await store.acquire(0, 'b', 100)).toBe(false);
+   });
+
+   it('should hand expired leases over', async () => {
+      await store.acquire(0, 'a', 100);
+      clock.advance(100);
+
+      expect(await store.renew(0, 'a', 100)).toBe(false);
+      expect(await store.acquire(0, 'b', 100)).toBe(true);
+      expect(await store.renew(0, 'b', 100)).toBe(true);
+   });
+
+   it('should release leases of the owner only', async () => {
+      await store.acquire(0, 'a', 100);
+
+      await store.release(0, 'b');
+      expect(await store.acquire(0, 'b', 100)).toBe(false);
+
+      await store.release(0, 'a');
+      expect(await store.acquire(0, 'b', 100)).toBe(true);
+   });
+}
+
+describe('Node lease stores', () => {
+   describe('MemoryLeaseStore', () => {
+      describeLeaseStore((clock) => new MemoryLeaseStore({ clock }));
+   });
+
+   describe('FileLeaseStore', () => {
+      let directory: string;
+
+      beforeEach(async () => {
+         directory = await mkdtemp(join(tmpdir(), 'ids-lease-'));
+      });
+
+      afterEach(async () => {
+         await rm(directory, { recursive: true, force: true });
+      });
+
+      describeLeaseStore(
+         (clock) =>
+            new FileLeaseStore({ directory: join(directory, 'leases'), clock })
+      );
+
+      it('should keep one lease file per slot', async () => {
+         const store = new FileLeaseStore({
+            directory,
+            clock: new FixedClock(1000),
+         });
+         await store.acquire(3, 'a', 100);
+
+         expect(await readdir(directory)).toEqual(['node-3.lease']);
+         expect(
+            JSON.parse(await readFile(join(directory, 'node-3.lease'), 'utf8'))
+         ).toEqual({ owner: 'a', expiresAt: 1100 });
+      });
+
+      it('should hand over a slot between concurrent owners once', async () => {
+         const clock = new FixedClock(1000);
+         await writeFile(
+            join(directory, 'node-0.lease'),
+            JSON.stringify({ owner: 'crashed', expiresAt: 500 })
+         );
+         const stores = [1, 2, 3, 4].map(
+            () => new FileLeaseStore({ directory, clock })
+         );
+
+         const results = await Promise.all(
+            stores.map((store, i) => store.acquire(0, `node-${i}`, 100))
+         );
+
+         expect(results.filter(Boolean)).toHaveLength(1);
+         expect(await readdir(directory)).toEqual(['node-0.lease']);
+      });
+
+      it('should not let a renewal overwrite a lease taken over', async () => {
+         const path = join(directory, 'node-0.lease');
+         let takeOver = false;
+         // Another node takes the lease over right after the expiry check
+         const clock: ClockProvider = {
+            now: () => {
+               if (takeOver) {
+                  takeOver = false;
+                  writeFileSync(
+                     path,
+                     JSON.stringify({ owner: 'taker', expiresAt: 5000 })
+                  );
+               }
+               return 1000;
+            },
+         };
+         const store = new FileLeaseStore({ directory, clock });
+         await store.acquire(0, 'owner', 100);
+
+         takeOver = true;
+         expect(await store.renew(0, 'owner', 100)).toBe(false);
+         expect(JSON.parse(await readFile(path, 'utf8')).owner).toBe('taker');
+         expect(await readdir(directory)).toEqual(['node-0.lease']);
+      });
+   });
+
+   describe('RedisLeaseStore', () => {
+      /**
+       * Redis client emulating the lease scripts on a key-value map
+       */
+      function createClient(clock: FixedClock) {
+         const keys = new Map<string, { value: string; expiresAt: number }>();
+         const calls: { keys: string[]; args: string[] }[] = [];
+         const get = (key: string) => {
+            const entry = keys.get(key);
+            return entry && entry.expiresAt > clock.now()
+               ? entry.value
+               : undefined;
+         };
+
+         return {
+            calls,
+            eval: async (script: string, [key]: string[], args: string[]) => {
+               calls.push({ keys: [key], args });
+               const [owner, ttl] = args;
+               const current = get(key);
+               if (script.includes("'SET'")) {
+                  if (current !== undefined && current !== owner) {
+                     return 0;
+                  }
+                  keys.set(key, {
+                     value: owner,
+                     expiresAt: clock.now() + Number(ttl),
+                  });
+                  return 1;
+               }
+               if (current !== owner) {
+                  return 0;
+               }
+               if (script.includes("'PEXPIRE'")) {
+                  keys.set(key, {
+                     value: owner,
+                     expiresAt: clock.now() + Number(ttl),
+                  });
+                  return 1;
+               }
+               keys.delete(key);
+               return 0;
+            },
+         };
+      }
+
+      describeLeaseStore(
+         (clock) => new RedisLeaseStore({ client: createClient(clock) })
+      );
+
+      it('should run the scripts on prefixed keys', async () => {
+         const client = createClient(new FixedClock(0));
+         const store = new RedisLeaseStore({ client, keyPrefix: 'app:' });
+
+         await store.acquire(5, 'a', 30000);
+         await store.release(5, 'a');
+
+         expect(client.calls).toEqual([
+            { keys: ['app:5'], args: ['a', '30000'] },
+            { keys: ['app:5'], args: ['a'] },
+         ]);
+      });
+   });
+});
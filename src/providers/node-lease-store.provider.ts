@@ -0,0 +1,398 @@
+import { randomUUID } from 'crypto';
+import { link, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+   ClockProvider,
+   NodeLeaseStore,
+   RedisLeaseClient,
+} from '../interfaces/id-generator.interface';
+import { SystemClock } from './clock.provider';
+
+/**
+ * A lease as kept by the reference stores
+ */
+interface NodeLease {
+   owner: string;
+   expiresAt: number;
+}
+
+/**
+ * Options of FileLeaseStore
+ */
+export interface FileLeaseStoreOptions {
+   /**
+    * Directory holding one lease file per node ID (created if missing)
+    */
+   directory: string;
+
+   /**
+    * Clock used to compute lease expiry
+    * @default SystemClock
+    */
+   clock?: ClockProvider;
+}
+
+/**
+ * Options of RedisLeaseStore
+ */
+export interface RedisLeaseStoreOptions {
+   /**
+    * Redis client adapter
+    */
+   client: RedisLeaseClient;
+
+   /**
+    * Prefix of the lease keys (followed by the node number)
+    * @default 'ids:node-lease:'
+    */
+   keyPrefix?: string;
+}
+
+const ACQUIRE_SCRIPT = `local owner = redis.call('GET', KEYS[1])
+if owner == false or owner == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0`;
+
+const RENEW_SCRIPT = `if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0`;
+
+const RELEASE_SCRIPT = `if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Lease store kept in memory
+ * Coordinates the providers of a single process - intended for tests
+ *
+ * @example
+ * const store = new MemoryLeaseStore({ clock: new FixedClock(0) });
+ * await new LeaseNodeIdProvider({ store }).acquire();
+ */
+export class MemoryLeaseStore implements NodeLeaseStore {
+   private readonly leases = new Map<number, NodeLease>();
+   private readonly clock: ClockProvider;
+
+   constructor(options?: { clock?: ClockProvider }) {
+      this.clock = options?.clock ?? new SystemClock();
+   }
+
+   /**
+    * Leases a slot if it is free, expired or already leased by the owner
+    */
+   public async acquire(
+      slot: number,
+      owner: string,
+      ttl: number
+   ): Promise<boolean> {
+      const lease = this.leases.get(slot);
+      if (lease && lease.owner !== owner && !this.isExpired(lease)) {
+         return false;
+      }
+      this.leases.set(slot, { owner, expiresAt: this.clock.now() + ttl });
+      return true;
+   }
+
+   /**
+    * Extends a lease held by the owner
+    */
+   public async renew(
+      slot: number,
+      owner: string,
+      ttl: number
+   ): Promise<boolean> {
+      const lease = this.leases.get(slot);
+      if (!lease || lease.owner !== owner || this.isExpired(lease)) {
+         return false;
+      }
+      lease.expiresAt = this.clock.now() + ttl;
+      return true;
+   }
+
+   /**
+    * Releases a lease held by the owner
+    */
+   public async release(slot: number, owner: string): Promise<void> {
+      if (this.leases.get(slot)?.owner === owner) {
+         this.leases.delete(slot);
+      }
+   }
+
+   /**
+    * Checks whether a lease has expired
+    */
+   private isExpired(lease: NodeLease): boolean {
+      return lease.expiresAt <= this.clock.now();
+   }
+}
+
+/**
+ * Lease store kept as one JSON file per node ID in a directory
+ * Coordinates the processes of a host, or of several hosts sharing a volume.
+ * Lease files are created with an atomic link(), and moved aside with an
+ * atomic rename() before they are renewed or replaced, so a lease file is
+ * never read half-written nor overwritten while another node takes it over
+ *
+ * @example
+ * const store = new FileLeaseStore({ directory: '/var/run/ids' });
+ */
+export class FileLeaseStore implements NodeLeaseStore {
+   private readonly directory: string;
+   private readonly clock: ClockProvider;
+
+   constructor(options: FileLeaseStoreOptions) {
+      this.directory = options.directory;
+      this.clock = options.clock ?? new SystemClock();
+   }
+
+   /**
+    * Leases a slot if it is free, expired or already leased by the owner
+    * An expired lease file is first moved aside; the move is undone if another
+    * node renewed or took the lease in the meantime
+    */
+   public async acquire(
+      slot: number,
+      owner: string,
+      ttl: number
+   ): Promise<boolean> {
+      await mkdir(this.directory, { recursive: true });
+      const path = this.getPath(slot);
+
+      const lease = await this.read(path);
+      if (lease?.owner === owner && !this.isExpired(lease)) {
+         return this.renew(slot, owner, ttl);
+      }
+      if (lease && !this.isExpired(lease)) {
+         return false;
+      }
+      if (lease && !(await this.removeExpired(path))) {
+         return false;
+      }
+      return this.create(path, owner, ttl);
+   }
+
+   /**
+    * Extends a lease held by the owner
+    * The lease file is moved aside before it is checked, so no other node can
+    * take the lease over between the check and the new file. A node acquiring
+    * the slot while it is moved aside makes the renewal fail: the lease is
+    * then reported lost rather than held by two nodes
+    */
+   public async renew(
+      slot: number,
+      owner: string,
+      ttl: number
+   ): Promise<boolean> {
+      const path = this.getPath(slot);
+      const current = this.getTemporaryPath(path);
+      try {
+         await rename(path, current);
+      } catch (error) {
+         ignoreMissing(error);
+         return false;
+      }
+
+      try {
+         const lease = await this.read(current);
+         if (!lease || lease.owner !== owner || this.isExpired(lease)) {
+            // Not ours: put it back, unless a new lease was created meanwhile
+            await link(current, path).catch(() => undefined);
+            return false;
+         }
+         return await this.create(path, owner, ttl);
+      } finally {
+         await unlink(current);
+      }
+   }
+
+   /**
+    * Releases a lease held by the owner
+    */
+   public async release(slot: number, owner: string): Promise<void> {
+      const path = this.getPath(slot);
+      if ((await this.read(path))?.owner === owner) {
+         await unlink(path).catch(ignoreMissing);
+      }
+   }
+
+   /**
+    * Moves an expired lease file aside
+    * @returns False if the file moved aside turned out to be a live lease
+    */
+   private async removeExpired(path: string): Promise<boolean> {
+      const expired = this.getTemporaryPath(path);
+      try {
+         await rename(path, expired);
+      } catch (error) {
+         ignoreMissing(error);
+         return true;
+      }
+
+      const lease = await this.read(expired);
+      if (lease && !this.isExpired(lease)) {
+         await link(expired, path).catch(() => undefined);
+         await unlink(expired);
+         return false;
+      }
+      await unlink(expired);
+      return true;
+   }
+
+   /**
+    * Reads a lease file
+    * @returns The lease, or undefined if the file does not exist
+    */
+   private async read(path: string): Promise<NodeLease | undefined> {
+      try {
+         return JSON.parse(await readFile(path, 'utf8')) as NodeLease;
+      } catch (error) {
+         ignoreMissing(error);
+         return undefined;
+      }
+   }
+
+   /**
+    * Creates a lease file atomically
+    * @returns False if another node created the lease file first
+    */
+   private async create(
+      path: string,
+      owner: string,
+      ttl: number
+   ): Promise<boolean> {
+      const temporary = this.getTemporaryPath(path);
+      await writeFile(temporary, this.serialize(owner, ttl));
+      try {
+         await link(temporary, path);
+         return true;
+      } catch (error) {
+         if (getErrorCode(error) === 'EEXIST') {
+            return false;
+         }
+         throw error;
+      } finally {
+         await unlink(temporary);
+      }
+   }
+
+   /**
+    * Serializes a lease expiring after the TTL
+    */
+   private serialize(owner: string, ttl: number): string {
+      return JSON.stringify({ owner, expiresAt: this.clock.now() + ttl });
+   }
+
+   /**
+    * Checks whether a lease has expired
+    */
+   private isExpired(lease: NodeLease): boolean {
+      return lease.expiresAt <= this.clock.now();
+   }
+
+   /**
+    * Gets the lease file of a slot
+    */
+   private getPath(slot: number): string {
+      return join(this.directory, `node-${slot}.lease`);
+   }
+
+   /**
+    * Gets a unique temporary file next to a lease file
+    */
+   private getTemporaryPath(path: string): string {
+      return `${path}.${randomUUID()}.tmp`;
+   }
+}
+
+/**
+ * Lease store kept in Redis, for clusters spanning several hosts
+ * Each lease is a key holding the owner, expiring with the TTL. Every
+ * operation is a Lua script, so it is atomic
+ *
+ * @example
+ * import Redis from 'ioredis';
+ *
+ * const redis = new Redis();
+ * const store = new RedisLeaseStore({
+ *   client: {
+ *     eval: (script, keys, args) =>
+ *       redis.eval(script, keys.length, ...keys, ...args),
+ *   },
+ * });
+ */
+export class RedisLeaseStore implements NodeLeaseStore {
+   private readonly client: RedisLeaseClient;
+   private readonly keyPrefix: string;
+
+   constructor(options: RedisLeaseStoreOptions) {
+      this.client = options.client;
+      this.keyPrefix = options.keyPrefix ?? 'ids:node-lease:';
+   }
+
+   /**
+    * Leases a slot if it is free, expired or already leased by the owner
+    */
+   public async acquire(
+      slot: number,
+      owner: string,
+      ttl: number
+   ): Promise<boolean> {
+      return this.run(ACQUIRE_SCRIPT, slot, [owner, String(ttl)]);
+   }
+
+   /**
+    * Extends a lease held by the owner
+    */
+   public async renew(
+      slot: number,
+      owner: string,
+      ttl: number
+   ): Promise<boolean> {
+      return this.run(RENEW_SCRIPT, slot, [owner, String(ttl)]);
+   }
+
+   /**
+    * Releases a lease held by the owner
+    */
+   public async release(slot: number, owner: string): Promise<void> {
+      await this.run(RELEASE_SCRIPT, slot, [owner]);
+   }
+
+   /**
+    * Runs a lease script on the key of a slot
+    * @returns Whether the script returned 1
+    */
+   private async run(
+      script: string,
+      slot: number,
+      args: string[]
+   ): Promise<boolean> {
+      const result = await this.client.eval(
+         script,
+         [`${this.keyPrefix}${slot}`],
+         args
+      );
+      return Number(result) === 1;
+   }
+}
+
+/**
+ * Gets the code of a file system error
+ */
+function getErrorCode(error: unknown): string | undefined {
+   return (error as NodeJS.ErrnoException | undefined)?.code;
+}
+
+/**
+ * Ignores missing file errors, rethrows the others
+ */
+function ignoreMissing(error: unknown): void {
+   if (getErrorCode(error) !== 'ENOENT') {
+      throw error;
+   }
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'bun:test';
+import { CryptoRandom, SeededRandom, randomInt } from './random.provider';
+
+describe('Random providers', () => {
+   describe('CryptoRandom', () => {
+      it('should fill the given array', () => {
+         const random = new CryptoRandom();
+         const bytes = new Uint8Array(32);
+
+         expect(random.getRandomValues(bytes)).toBe(bytes);
+         expect(bytes.some((byte) => byte !== 0)).toBe(true);
+      });
+   });
+
+   describe('SeededRandom', () => {
+      it('should produce the same bytes for the same seed', () => {
+         const a = new SeededRandom(42).getRandomValues(new Uint8Array(37));
+         const b = new SeededRandom(42).getRandomValues(new Uint8Array(37));
+
+         expect(Array.from(a)).toEqual(Array.from(b));
+      });
+
+      it('should produce different bytes for different seeds', () => {
+         const a = new SeededRandom(1).getRandomValues(new Uint8Array(16));
+         const b = new SeededRandom(2).getRandomValues(new Uint8Array(16));
+
+         expect(Array.from(a)).not.toEqual(Array.from(b));
+      });
+
+      it('should advance between calls', () => {
+         const random = new SeededRandom(7);
+         const a = random.getRandomValues(new Uint8Array(16));
+         const b = random.getRandomValues(new Uint8Array(16));
+
+         expect(Array.from(a)).not.toEqual(Array.from(b));
+      });
+   });
+
+   describe('randomInt', () => {
+      it('should return integers within range', () => {
+         const random = new SeededRandom(3);
+
+         for (let i = 0; i < 1000; i++) {
+            const value = randomInt(random, 36);
+            expect(Number.isInteger(value)).toBe(true);
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(36);
+         }
+      });
+   });
+});
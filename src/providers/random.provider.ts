@@ -0,0 +1,106 @@
+import { randomFillSync } from 'crypto';
+import { RandomProvider } from '../interfaces/id-generator.interface';
+
+/**
+ * Random source backed by the platform CSPRNG
+ */
+export class CryptoRandom implements RandomProvider {
+   /**
+    * Fills the given array with cryptographically secure random bytes
+    * @param bytes The array to fill
+    * @returns The same array, filled
+    */
+   public getRandomValues(bytes: Uint8Array): Uint8Array {
+      return randomFillSync(bytes);
+   }
+}
+
+/**
+ * Deterministic pseudo-random source (xoshiro128**, seeded with splitmix32)
+ * The same seed always yields the same byte sequence
+ * Intended for deterministic tests - NOT cryptographically secure
+ *
+ * @example
+ * const random = new SeededRandom(42);
+ * const generator = new NanoIdGenerator({ random });
+ * generator.getId(); // Same ID on every run
+ */
+export class SeededRandom implements RandomProvider {
+   private readonly state = new Uint32Array(4);
+
+   constructor(seed: number) {
+      // Expand the seed into 128 bits of state with splitmix32
+      let value = seed >>> 0;
+      for (let i = 0; i < 4; i++) {
+         value = (value + 0x9e3779b9) >>> 0;
+         let z = value;
+         z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+         z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+         this.state[i] = (z ^ (z >>> 16)) >>> 0;
+      }
+   }
+
+   /**
+    * Fills the given array with pseudo-random bytes
+    * @param bytes The array to fill
+    * @returns The same array, filled
+    */
+   public getRandomValues(bytes: Uint8Array): Uint8Array {
+      for (let i = 0; i < bytes.length; i += 4) {
+         const value = this.next();
+         for (let j = 0; j < 4 && i + j < bytes.length; j++) {
+            bytes[i + j] = (value >>> (j * 8)) & 0xff;
+         }
+      }
+      return bytes;
+   }
+
+   /**
+    * Advances the generator and returns the next 32-bit output
+    */
+   private next(): number {
+      const state = this.state;
+      const result = Math.imul(rotl(Math.imul(state[1], 5), 7), 9) >>> 0;
+      const t = state[1] << 9;
+
+      state[2] ^= state[0];
+      state[3] ^= state[1];
+      state[1] ^= state[2];
+      state[0] ^= state[3];
+      state[2] ^= t;
+      state[3] = rotl(state[3], 11);
+
+      return result;
+   }
+}
+
+/**
+ * Draws a uniformly distributed integer in [0, max) from a random provider
+ * Uses rejection sampling to avoid modulo bias
+ * @param random The random provider
+ * @param max The exclusive upper bound (at most 2^48)
+ * @returns A random integer
+ */
+export function randomInt(random: RandomProvider, max: number): number {
+   const bytes = new Uint8Array(6);
+   const range = 2 ** 48;
+   const limit = range - (range % max);
+
+   for (;;) {
+      random.getRandomValues(bytes);
+      let value = 0;
+      for (const byte of bytes) {
+         value = value * 256 + byte;
+      }
+      if (value < limit) {
+         return value % max;
+      }
+   }
+}
+
+/**
+ * Rotates a 32-bit value left
+ */
+function rotl(value: number, bits: number): number {
+   return ((value << bits) | (value >>> (32 - bits))) >>> 0;
+}
@@ -1,11 +1,54 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { IdService } from './id.service';
+import { FixedClock, SystemClock } from '../providers/clock.provider';
+import { SeededRandom } from '../providers/random.provider';
+import {
+   EnvNodeIdProvider,
+   LeaseNodeIdProvider,
+} from '../providers/node-id.provider';
+import { MemoryLeaseStore } from '../providers/node-lease-store.provider';
+import { decodeId } from '../utils/id-encoding';
+import { decodeTypeId } from '../utils/typeid';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { UnsupportedGeneratorError } from '../errors/unsupported-generator.error';
+import { UUID_NAMESPACES } from '../utils/uuid';
+import type {
+   Brand,
+   IdGeneratorType,
+   Ksuid,
+   NanoId,
+   Snowflake,
+   UuidV1,
+   UuidV4,
+   UuidV5,
+   UuidV6,
+} from '../interfaces/id-generator.interface';
+
+type Xid = Brand<string, 'Xid'>;
+
+// Declares a custom 'xid' generator type for the Custom Generators tests
+declare module '../interfaces/id-generator.interface' {
+   interface IdTypeMap {
+      xid: Xid;
+   }
+
+   interface IdGeneratorOptions<T extends IdGeneratorType = IdGeneratorType> {
+      xid?: { prefix?: string };
+   }
+}
+
+/**
+ * Creates a sequential Xid generator for the Custom Generators tests
+ */
+function createXidGenerator(prefix = 'x'): { getId(): Xid } {
+   let counter = 0;
+   return { getId: () => `${prefix}${++counter}` as Xid };
+}
 
 describe('IdService', () => {
    // Reset singleton before each test
    beforeEach(() => {
-      // @ts-expect-error - Resetting private static property for testing
-      IdService.instance = undefined;
+      IdService.reset();
    });
 
    describe('Singleton Pattern', () => {
@@ -30,6 +73,231 @@ describe('IdService', () => {
          expect(id1).toMatch(uuidV4Regex);
          expect(id2).toMatch(uuidV4Regex);
       });
+
+      it('should reject options once the instance exists', () => {
+         IdService.getInstance({ type: 'uuidv4' });
+
+         expect(() => IdService.getInstance({ type: 'snowflake' })).toThrow(
+            'IdService is already initialized. Use configure() to change its options, or IdService.create() for another instance'
+         );
+      });
+
+      it('should accept options already applied', () => {
+         const clock = new FixedClock(1700000000000);
+         const options = () => ({
+            type: 'snowflake' as const,
+            snowflake: { workerId: 3, layout: undefined },
+            clock,
+         });
+         const instance = IdService.getInstance(options());
+
+         expect(IdService.getInstance(options())).toBe(instance);
+         expect(IdService.getInstance({ snowflake: { workerId: 3 } })).toBe(
+            instance
+         );
+         expect(() =>
+            IdService.getInstance({ ...options(), clock: new SystemClock() })
+         ).toThrow(IdConfigurationError);
+
+         instance.configure({ nanoid: { size: 10 } });
+         expect(
+            IdService.getInstance({ ...options(), nanoid: { size: 10 } })
+         ).toBe(instance);
+      });
+
+      it('should accept new providers of the same class on repeated calls', () => {
+         const env = { SNOWFLAKE_WORKER_ID: '4' };
+         const factory = () =>
+            IdService.getInstance({
+               type: 'snowflake',
+               snowflake: { nodeIdProvider: new EnvNodeIdProvider({ env }) },
+               clock: new FixedClock(1767225600000),
+            });
+         const instance = factory();
+
+         expect(factory()).toBe(instance);
+         expect(instance.parse(instance.getId())).toMatchObject({
+            workerId: 4,
+         });
+      });
+
+      it('should create a new instance after reset()', () => {
+         const instance1 = IdService.getInstance();
+         IdService.reset();
+
+         expect(IdService.getInstance()).not.toBe(instance1);
+      });
+   });
+
+   describe('Named Instances', () => {
+      it('should create and get named instances', () => {
+         const orders = IdService.create('orders', { type: 'snowflake' });
+         const links = IdService.create('links', {
+            type: 'nanoid',
+            nanoid: { size: 8 },
+         });
+
+         expect(IdService.get('orders')).toBe(orders);
+         expect(IdService.get('links')).toBe(links);
+         expect(IdService.get('orders').getId()).toMatch(/^\d+$/);
+         expect(IdService.get('links').getId()).toHaveLength(8);
+      });
+
+      it('should keep named instances apart from the default instance', () => {
+         const orders = IdService.create('orders', { type: 'ulid' });
+
+         expect(IdService.getInstance()).not.toBe(orders);
+         expect(IdService.getInstance().getId()).toMatch(
+            /^[0-9a-f]{8}-[0-9a-f]{4}-4/
+         );
+      });
+
+      it('should reject duplicate names', () => {
+         IdService.create('orders');
+
+         expect(() => IdService.create('orders')).toThrow(
+            "IdService instance 'orders' already exists"
+         );
+      });
+
+      it('should throw for unknown names', () => {
+         expect(() => IdService.get('orders')).toThrow(
+            "IdService instance 'orders' does not exist. Create it with IdService.create()"
+         );
+      });
+
+      it('should remove a single named instance with reset(name)', () => {
+         IdService.create('orders');
+         IdService.create('links');
+         IdService.reset('orders');
+
+         expect(() => IdService.get('orders')).toThrow(IdConfigurationError);
+         expect(IdService.get('links')).toBeInstanceOf(IdService);
+      });
+
+      it('should remove all named instances with reset()', () => {
+         IdService.create('orders');
+         IdService.reset();
+
+         expect(() => IdService.get('orders')).toThrow(IdConfigurationError);
+      });
+   });
+
+   describe('Standalone Instances', () => {
+      it('should create independent services with the constructor', () => {
+         const snowflakes = new IdService({ type: 'snowflake' });
+         const uuids = new IdService();
+
+         expect(snowflakes).not.toBe(uuids);
+         expect(snowflakes.getId()).toMatch(/^\d+$/);
+         expect(uuids.getId()).toMatch(/^[0-9a-f]{8}-/);
+         expect(IdService.getInstance()).not.toBe(uuids);
+      });
+
+      it('should validate options', () => {
+         expect(() => new IdService({ nanoid: { size: 0 } })).toThrow(
+            'NanoId size must be a positive integer'
+         );
+      });
+   });
+
+   describe('Custom Generators', () => {
+      it('should create services of a registered type', () => {
+         IdService.registerGenerator('xid', (options) =>
+            createXidGenerator(options.xid?.prefix)
+         );
+
+         const service = new IdService({ type: 'xid', xid: { prefix: 'y' } });
+         const id: Xid = service.getId();
+
+         expect(id).toBe('y1');
+         expect(service.getIds(2)).toEqual(['y2', 'y3'] as Xid[]);
+      });
+
+      it('should pass the service options to the factory', () => {
+         const clock = new FixedClock(0);
+         let received: unknown;
+         IdService.registerGenerator('xid', (options) => {
+            received = options.clock;
+            return createXidGenerator();
+         });
+
+         IdService.getInstance({ type: 'xid', clock });
+
+         expect(received).toBe(clock);
+      });
+
+      it('should use registered types in configure() and entities', () => {
+         IdService.registerGenerator('xid', () => createXidGenerator());
+         const service = IdService.getInstance({
+            entities: { user: { prefix: 'user', type: 'xid' } },
+         });
+
+         expect(service.for('user').getId()).toBe('user_x1');
+         expect(service.configure({ type: 'xid' }).getId()).toBe('x1');
+      });
+
+      it('should replace the factory of a type registered again', () => {
+         IdService.registerGenerator('xid', () => createXidGenerator('a'));
+         IdService.registerGenerator('xid', () => createXidGenerator('b'));
+
+         expect(new IdService({ type: 'xid' }).getId()).toBe('b1');
+      });
+
+      it('should validate IDs with the registered validator', () => {
+         IdService.registerGenerator(
+            'xid',
+            () => createXidGenerator(),
+            (id, options) => id.startsWith(options.xid?.prefix ?? 'x')
+         );
+         const service = new IdService({ type: 'xid', xid: { prefix: 'y' } });
+
+         expect(service.isValid('y1')).toBe(true);
+         expect(service.validate('x1')).toEqual({
+            valid: false,
+            reason: "ID was rejected by the 'xid' validator",
+         });
+         expect(service.validate(42)).toEqual({
+            valid: false,
+            reason: 'ID must be a string, got number',
+         });
+      });
+
+      it('should refuse to validate IDs of a type without a validator', () => {
+         IdService.registerGenerator('xid', () => createXidGenerator());
+         const service = new IdService({ type: 'xid' });
+
+         expect(() => service.isValid(service.getId())).toThrow(
+            "Generator type 'xid' has no validator. Pass one to IdService.registerGenerator() to validate its IDs"
+         );
+      });
+
+      it('should reject built-in and empty types', () => {
+         expect(() =>
+            IdService.registerGenerator('uuidv4', () => createXidGenerator())
+         ).toThrow(
+            new IdConfigurationError(
+               "Generator type 'uuidv4' is built in and cannot be replaced"
+            )
+         );
+         expect(() =>
+            // @ts-expect-error - Testing a validation-only type
+            IdService.registerGenerator('uuidv5', () => createXidGenerator())
+         ).toThrow(
+            "Generator type 'uuidv5' is built in and cannot be replaced"
+         );
+         expect(() =>
+            // @ts-expect-error - Testing an empty type
+            IdService.registerGenerator('', () => createXidGenerator())
+         ).toThrow('Generator type must be a non-empty string');
+      });
+
+      it('should still reject unregistered types', () => {
+         expect(
+            // @ts-expect-error - Testing unregistered type
+            () => new IdService({ type: 'objectid' })
+         ).toThrow(new UnsupportedGeneratorError('objectid'));
+      });
    });
 
    describe('UUID v4 Generation', () => {
@@ -77,23 +345,768 @@ describe('IdService', () => {
          const id2 = service.getId();
          expect(id2).toMatch(uuidV4Regex);
       });
+
+      it('should keep the generator type when omitted', () => {
+         const service = IdService.getInstance({ type: 'nanoid' });
+         const configured = service.configure({ nanoid: { size: 10 } });
+
+         expect(configured.getId()).toHaveLength(10);
+      });
+
+      it('should merge options across calls', () => {
+         const service = IdService.getInstance({
+            type: 'snowflake',
+            snowflake: { workerId: 7 },
+         });
+         service.configure({ nanoid: { size: 10 } });
+
+         expect(service.parse(service.getId())).toMatchObject({
+            format: 'snowflake',
+            workerId: 7,
+         });
+         expect(service.getNanoId()).toHaveLength(10);
+      });
+
+      it('should apply Snowflake options changed after the first ID', () => {
+         const clock = new FixedClock(1800000000000);
+         const service = IdService.getInstance({ type: 'snowflake', clock });
+         const ids = new Set([service.getId(), service.getSnowflake()]);
+
+         service.configure({
+            snowflake: { clockBackwardsStrategy: 'borrow' },
+         });
+         ids.add(service.getId());
+         clock.set(1800000000000 - 5);
+         ids.add(service.getId());
+         ids.add(service.getSnowflake());
+
+         expect(ids.size).toBe(5);
+         expect(service.getSnowflakeStats().clockRegressions).toBe(2);
+      });
+
+      it('should reject invalid options without applying them', () => {
+         const service = IdService.getInstance({ type: 'nanoid' });
+
+         expect(() =>
+            service.configure({
+               type: 'snowflake',
+               snowflake: { workerId: 99 },
+            })
+         ).toThrow('Worker ID must be between 0 and 31');
+         expect(() =>
+            service.configure({ nanoid: { alphabet: 'aa' } })
+         ).toThrow(IdConfigurationError);
+         expect(service.getId()).toMatch(/^[A-Za-z0-9_-]{21}$/);
+      });
+
+      it('should validate options on creation', () => {
+         expect(() => IdService.getInstance({ cuid: { length: 64 } })).toThrow(
+            'CUID length must be between 2 and 32'
+         );
+      });
+
+      it('should throw an UnsupportedGeneratorError for unknown types', () => {
+         expect(() =>
+            // @ts-expect-error - Testing unsupported type
+            IdService.getInstance({ type: 'objectid' })
+         ).toThrow(new UnsupportedGeneratorError('objectid'));
+
+         const service = IdService.getInstance();
+         // @ts-expect-error - Testing unsupported type
+         expect(() => service.configure({ type: 'objectid' })).toThrow(
+            "Unsupported generator type: 'objectid'"
+         );
+      });
    });
 
-   describe('Unsupported Generators', () => {
-      it('should throw error for UUID v7 (not yet implemented)', () => {
+   describe('UUID v7 Generation', () => {
+      it('should generate valid UUID v7 when configured', () => {
+         const service = IdService.getInstance({ type: 'uuidv7' });
+         const id = service.getId();
+
+         const uuidV7Regex =
+            /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+         expect(id).toMatch(uuidV7Regex);
+      });
+
+      it('should allow reconfiguration to UUID v7', () => {
          const service = IdService.getInstance();
+         service.configure({ type: 'uuidv7' });
 
-         expect(() => {
-            service.configure({ type: 'uuidv7' });
-         }).toThrow('UUIDv7 generator not yet implemented');
+         expect(service.getId()[14]).toBe('7');
       });
+   });
 
-      it('should throw error for CUID (not yet implemented)', () => {
+   describe('UUID v5 Generation', () => {
+      it('should generate deterministic UUID v5s', () => {
          const service = IdService.getInstance();
+         const id: UuidV5 = service.getUuidV5(
+            UUID_NAMESPACES.DNS,
+            'www.example.com'
+         );
+
+         expect(id).toBe('2ed6657d-e927-568b-95e1-2665a8aea6a2');
+         expect(service.getUuidV5(UUID_NAMESPACES.DNS, 'www.example.com')).toBe(
+            id
+         );
+      });
+
+      it('should apply the configured UUID v5 encoding', () => {
+         const service = new IdService({ uuidv5: { encoding: 'hex' } });
+
+         expect(service.getUuidV5(UUID_NAMESPACES.DNS, 'www.example.com')).toBe(
+            '2ed6657de927568b95e12665a8aea6a2'
+         );
+      });
+
+      it('should generate UUID v3s for existing v3 IDs', () => {
+         const service = new IdService();
+
+         expect(service.getUuidV3(UUID_NAMESPACES.DNS, 'www.example.com')).toBe(
+            '5df41881-3aed-3515-88a7-2f4a814cf09e'
+         );
+      });
+
+      it('should reject uuidv5 as the service or entity type', () => {
+         const service = new IdService({
+            uuidv5: { namespace: UUID_NAMESPACES.URL },
+         });
+         const id = service.getUuidV5(UUID_NAMESPACES.URL, 'order-42');
+
+         expect(service.validate(id)).toMatchObject({ valid: false });
+         expect(
+            () =>
+               new IdService({
+                  // @ts-expect-error - Testing a validation-only type
+                  type: 'uuidv5',
+                  uuidv5: { namespace: UUID_NAMESPACES.URL },
+               })
+         ).toThrow('UUID v5 IDs are derived from a name');
+         expect(() =>
+            service.registerEntity('order', {
+               prefix: 'ord',
+               // @ts-expect-error - Testing a validation-only type
+               type: 'uuidv5',
+            })
+         ).toThrow(IdConfigurationError);
+         expect(() =>
+            service.configure({
+               // @ts-expect-error - Testing a validation-only type
+               entities: { order: { prefix: 'ord', type: 'uuidv5' } },
+            })
+         ).toThrow('UUID v5 IDs are derived from a name');
+      });
+   });
+
+   describe('UUID v1 and v6 Generation', () => {
+      it('should generate UUID v1s and v6s with the service providers', () => {
+         const service = new IdService({
+            clock: new FixedClock(1700000000000),
+            random: new SeededRandom(42),
+         });
+         const v1: UuidV1 = service.getUuidV1();
+         const v6s: UuidV6[] = service.getUuidV6s(3);
+
+         expect(v1[14]).toBe('1');
+         expect(service.getUuidV1s(2)).toHaveLength(2);
+         expect(v6s.every((id) => id[14] === '6')).toBe(true);
+         expect([...v6s].sort()).toEqual(v6s);
+         expect(new Set(v6s).size).toBe(3);
+      });
+
+      it('should support the uuidv1 and uuidv6 types', () => {
+         const service = new IdService({
+            type: 'uuidv6',
+            uuidv6: { node: '00:1b:63:84:45:e6', encoding: 'hex' },
+            entities: { event: { prefix: 'evt', type: 'uuidv1' } },
+         });
+         const id = service.getId();
+
+         expect(id).toMatch(/^[0-9a-f]{12}6[0-9a-f]{7}001b638445e6$/);
+         expect(service.isValid(id)).toBe(true);
+         expect(service.for('event').getId()).toMatch(/^evt_[0-9a-f-]{36}$/);
+      });
+   });
+
+   describe('CUID Generation', () => {
+      it('should generate valid CUID when configured', () => {
+         const service = IdService.getInstance({ type: 'cuid' });
+         const id = service.getId();
+
+         expect(id).toMatch(/^[a-z][0-9a-z]{23}$/);
+      });
+
+      it('should use configured CUID options', () => {
+         const service = IdService.getInstance({
+            type: 'cuid',
+            cuid: { length: 10 },
+         });
+
+         expect(service.getId().length).toBe(10);
+      });
+
+      it('should reuse CUID generators per option set', () => {
+         let fingerprints = 0;
+         const fingerprint = () => `node-${++fingerprints}`;
+         const service = new IdService({ type: 'cuid', cuid: { fingerprint } });
+
+         service.getId();
+         service.getCuid();
+         service.getCuids(3);
+         expect(fingerprints).toBe(1);
+
+         service.getCuid({ length: 10 });
+         service.getCuid({ length: 10 });
+         expect(fingerprints).toBe(2);
 
-         expect(() => {
-            service.configure({ type: 'cuid' });
-         }).toThrow('CUID generator not yet implemented');
+         service.configure({ cuid: { fingerprint, length: 12 } });
+         service.getCuid();
+         expect(fingerprints).toBe(3);
+      });
+   });
+
+   describe('TypeID Generation', () => {
+      it('should generate TypeIDs when configured', () => {
+         const service = IdService.getInstance({
+            type: 'typeid',
+            typeid: { prefix: 'user' },
+         });
+
+         expect(service.getId()).toMatch(/^user_[0-7][0-9a-hjkmnp-tv-z]{25}$/);
+         expect(service.isValid(service.getId())).toBe(true);
+      });
+
+      it('should override the configured prefix', () => {
+         const service = IdService.getInstance({ typeid: { prefix: 'user' } });
+
+         expect(service.getTypeId({ prefix: 'team' })).toMatch(/^team_/);
+         expect(service.getTypeIds(3)).toHaveLength(3);
+      });
+
+      it('should keep TypeIDs sortable across calls', () => {
+         const service = IdService.getInstance({
+            type: 'typeid',
+            typeid: { prefix: 'user' },
+            clock: new FixedClock(1700000000000),
+         });
+         const ids: string[] = [];
+
+         for (let i = 0; i < 100; i++) {
+            ids.push(service.getId());
+            ids.push(service.getTypeId());
+            ids.push(...service.getTypeIds(2, { prefix: 'user' }));
+         }
+
+         expect([...ids].sort()).toEqual(ids);
+         expect(new Set(ids).size).toBe(400);
+      });
+   });
+
+   describe('KSUID Generation', () => {
+      it('should generate KSUIDs when configured', () => {
+         const service = IdService.getInstance({ type: 'ksuid' });
+         const id = service.getId();
+
+         expect(id).toMatch(/^[0-9A-Za-z]{27}$/);
+         expect(service.isValid(id)).toBe(true);
+      });
+
+      it('should apply the configured and overriding options', () => {
+         const epoch = Date.parse('2024-01-01T00:00:00Z');
+         const service = IdService.getInstance({
+            clock: new FixedClock(epoch + 1000),
+            ksuid: { epoch },
+         });
+         const id: Ksuid = service.getKsuid();
+
+         expect(id.startsWith('00000')).toBe(true);
+         expect(service.getKsuid({ epoch: 0 }) > id).toBe(true);
+         expect(service.getKsuids(3)).toHaveLength(3);
+      });
+   });
+
+   describe('ID Ranges', () => {
+      it('should bound the IDs of the configured generator', () => {
+         const clock = new FixedClock(Date.parse('2026-01-01T12:00:00Z'));
+         const service = new IdService({
+            type: 'snowflake',
+            snowflake: { preset: 'discord' },
+            clock,
+         });
+         const id = service.getId();
+         const range = service.getIdRange(
+            new Date('2026-01-01T00:00:00Z'),
+            new Date('2026-01-02T00:00:00Z')
+         );
+
+         expect(BigInt(id) >= BigInt(range.min)).toBe(true);
+         expect(BigInt(id) <= BigInt(range.max)).toBe(true);
+         expect(() =>
+            new IdService({ type: 'cuid' }).getIdRange(0, Date.now())
+         ).toThrow(IdConfigurationError);
+      });
+   });
+
+   describe('ULID Generation', () => {
+      it('should generate valid ULID when configured', () => {
+         const service = IdService.getInstance({ type: 'ulid' });
+         const id = service.getId();
+
+         expect(id).toMatch(/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/);
+      });
+
+      it('should keep monotonic ordering across getId() calls', () => {
+         const service = IdService.getInstance({
+            type: 'ulid',
+            ulid: { monotonic: true },
+         });
+         const ids: string[] = [];
+
+         for (let i = 0; i < 1000; i++) {
+            ids.push(service.getId());
+         }
+
+         expect([...ids].sort()).toEqual(ids);
+      });
+
+      it('should keep monotonic ordering across getUlid(options) calls', () => {
+         const service = IdService.getInstance({
+            clock: new FixedClock(1700000000000),
+         });
+         const ids: string[] = [];
+
+         for (let i = 0; i < 100; i++) {
+            ids.push(service.getUlid({ monotonic: true }));
+            ids.push(...service.getUlids(2, { monotonic: true }));
+         }
+
+         expect([...ids].sort()).toEqual(ids);
+         expect(new Set(ids).size).toBe(300);
+      });
+   });
+
+   describe('Snowflake Generation', () => {
+      it('should generate unique IDs across thousands of getSnowflake() calls', () => {
+         const service = IdService.getInstance();
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 10000; i++) {
+            ids.add(service.getSnowflake());
+         }
+
+         expect(ids.size).toBe(10000);
+      });
+
+      it('should generate unique IDs with per-call option overrides', () => {
+         const service = IdService.getInstance();
+         const options = { workerId: 5, processId: 10, epoch: 1577836800000 };
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 5000; i++) {
+            ids.add(service.getSnowflake({ ...options }));
+         }
+
+         expect(ids.size).toBe(5000);
+      });
+
+      it('should share state between getId() and getSnowflake()', () => {
+         const service = IdService.getInstance({
+            type: 'snowflake',
+            snowflake: { workerId: 2, processId: 3 },
+         });
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 2500; i++) {
+            ids.add(service.getId());
+            ids.add(service.getSnowflake());
+            ids.add(service.getSnowflake({ workerId: 2, processId: 3 }));
+         }
+
+         expect(ids.size).toBe(7500);
+      });
+
+      it('should treat omitted defaults as the same configuration', () => {
+         const service = IdService.getInstance();
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 2500; i++) {
+            ids.add(service.getSnowflake());
+            ids.add(service.getSnowflake({ workerId: 1, processId: 1 }));
+         }
+
+         expect(ids.size).toBe(5000);
+      });
+
+      it('should generate unique IDs with getSnowflakeAsync()', async () => {
+         const service = IdService.getInstance();
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 2500; i++) {
+            ids.add(service.getSnowflake());
+            ids.add(await service.getSnowflakeAsync());
+         }
+
+         expect(ids.size).toBe(5000);
+      });
+
+      it('should keep IDs time-ordered across calls', () => {
+         const service = IdService.getInstance();
+         let previous = BigInt(service.getSnowflake());
+
+         for (let i = 0; i < 5000; i++) {
+            const current = BigInt(service.getSnowflake());
+            expect(current > previous).toBe(true);
+            previous = current;
+         }
+      });
+
+      it('should report the stats of the node generator', () => {
+         const service = IdService.getInstance();
+         service.getSnowflakes(10, { workerId: 3 });
+         service.getSnowflake({ workerId: 3, encoding: 'base62' });
+         service.getSnowflake({ workerId: 4 });
+
+         expect(service.getSnowflakeStats({ workerId: 3 }).idsIssued).toBe(11);
+         expect(service.getSnowflakeStats({ workerId: 4 }).idsIssued).toBe(1);
+         expect(service.getSnowflakeStats().idsIssued).toBe(0);
+      });
+
+      it('should stop generating but keep parsing once the node ID lease is released', async () => {
+         const nodeIdProvider = new LeaseNodeIdProvider({
+            store: new MemoryLeaseStore(),
+         });
+         await nodeIdProvider.acquire();
+         const service = new IdService({
+            type: 'snowflake',
+            snowflake: { nodeIdProvider },
+         });
+         const id = service.getId();
+
+         await nodeIdProvider.release();
+
+         expect(service.isValid(id)).toBe(true);
+         expect(service.parse(id)).toMatchObject({ format: 'snowflake' });
+         expect(() => service.getId()).toThrow('Node ID lease not acquired');
+         expect(() => service.getSnowflake()).toThrow(
+            'Node ID lease not acquired'
+         );
+
+         const renewed = await nodeIdProvider.acquire();
+         expect(service.parse(service.getSnowflake())).toMatchObject(renewed);
+         await nodeIdProvider.release();
+      });
+   });
+
+   describe('Encodings', () => {
+      it('should encode Snowflake IDs without forking the node sequence', () => {
+         const service = IdService.getInstance({
+            snowflake: { clock: new FixedClock(1800000000000) },
+         });
+         const decimal = service.getSnowflake();
+         const base62 = service.getSnowflake({
+            clock: new FixedClock(1800000000000),
+            encoding: 'base62',
+         });
+
+         expect(base62).toMatch(/^[0-9A-Za-z]{11}$/);
+         expect(decodeId(base62, 'base62')).toBe(BigInt(decimal) + 1n);
+      });
+
+      it('should use the configured encodings', () => {
+         const service = IdService.getInstance({
+            type: 'snowflake',
+            snowflake: { encoding: 'base58' },
+            uuidv4: { encoding: 'base62' },
+         });
+
+         expect(service.getId()).toMatch(/^[1-9A-HJ-NP-Za-km-z]{11}$/);
+         expect(service.getIds(3)).toHaveLength(3);
+         expect(service.isValid(service.getId())).toBe(true);
+         expect(service.getUuidV4()).toMatch(/^[0-9A-Za-z]{22}$/);
+      });
+
+      it('should encode asynchronous Snowflake IDs', async () => {
+         const service = IdService.getInstance();
+
+         expect(await service.getSnowflakeAsync({ encoding: 'hex' })).toMatch(
+            /^[0-9a-f]{16}$/
+         );
+      });
+   });
+
+   describe('Batch Generation', () => {
+      it('should generate multiple IDs with the configured generator', () => {
+         const service = IdService.getInstance({ type: 'snowflake' });
+         const ids = service.getIds(5000);
+
+         expect(ids.length).toBe(5000);
+         expect(new Set(ids).size).toBe(5000);
+         ids.forEach((id) => expect(id).toMatch(/^\d+$/));
+      });
+
+      it('should generate batches with per-type methods', () => {
+         const service = IdService.getInstance();
+
+         expect(service.getUuidV4s(10).length).toBe(10);
+         expect(service.getUuidV7s(10).length).toBe(10);
+         expect(service.getCuids(10, { length: 8 })[0].length).toBe(8);
+         expect(service.getNanoIds(10, { size: 5 })[0].length).toBe(5);
+         expect(service.getUlids(10, { monotonic: true }).length).toBe(10);
+      });
+
+      it('should share Snowflake state between getSnowflake() and getSnowflakes()', () => {
+         const service = IdService.getInstance();
+         const ids = new Set<string>();
+
+         for (let i = 0; i < 100; i++) {
+            ids.add(service.getSnowflake({ workerId: 4 }));
+            service
+               .getSnowflakes(50, { workerId: 4 })
+               .forEach((id) => ids.add(id));
+         }
+
+         expect(ids.size).toBe(5100);
+      });
+   });
+
+   describe('Parsing', () => {
+      it('should parse Snowflake IDs with the configured options', () => {
+         const service = IdService.getInstance({
+            type: 'snowflake',
+            snowflake: { workerId: 12, processId: 4, preset: 'twitter' },
+         });
+         const result = service.parse(service.getId());
+
+         if (result.format !== 'snowflake') {
+            throw new Error('Expected a Snowflake');
+         }
+         expect(result.workerId).toBe(12);
+         expect(result.processId).toBe(4);
+         expect(Math.abs(result.timestamp - Date.now())).toBeLessThan(1000);
+      });
+
+      it('should parse encoded and decimal Snowflake IDs alike', () => {
+         const service = IdService.getInstance({
+            type: 'snowflake',
+            snowflake: { workerId: 12, processId: 4, encoding: 'base62' },
+         });
+         const id = service.getId();
+         const decimal = decodeId(id, 'base62', { bits: 64 }).toString();
+         const encoded = service.parse(id);
+
+         expect(service.isValid(id)).toBe(true);
+         expect(encoded).toMatchObject({
+            format: 'snowflake',
+            id,
+            workerId: 12,
+            processId: 4,
+         });
+         if (encoded.format !== 'snowflake') {
+            throw new Error('Expected a Snowflake');
+         }
+         expect(Math.abs(encoded.timestamp - Date.now())).toBeLessThan(1000);
+         expect(service.parse(decimal)).toEqual({ ...encoded, id: decimal });
+      });
+
+      it('should parse other formats', () => {
+         const service = IdService.getInstance();
+
+         expect(service.parse(service.getUuidV7())).toMatchObject({
+            format: 'uuid',
+            version: 7,
+         });
+         expect(service.parse(service.getUlid()).format).toBe('ulid');
+         expect(service.parse(service.getKsuid())).toMatchObject({
+            format: 'ksuid',
+         });
+      });
+   });
+
+   describe('Validation', () => {
+      it('should validate IDs against the configured type', () => {
+         const service = IdService.getInstance();
+
+         expect(service.isValid(service.getId())).toBe(true);
+         expect(service.isValid(service.getUuidV7())).toBe(false);
+         expect(service.validate('not-an-id')).toEqual({
+            valid: false,
+            reason:
+               'UUID must be 36 characters in the 8-4-4-4-12 hexadecimal format',
+         });
+      });
+
+      it('should validate IDs against the configured options', () => {
+         const service = IdService.getInstance({
+            type: 'nanoid',
+            nanoid: { size: 10 },
+         });
+
+         expect(service.isValid(service.getId())).toBe(true);
+         expect(service.isValid(service.getNanoId({ size: 21 }))).toBe(false);
+
+         service.configure({ type: 'snowflake' });
+         expect(service.isValid(service.getId())).toBe(true);
+         expect(service.isValid('18446744073709551616')).toBe(false);
+      });
+   });
+
+   describe('Typed IDs', () => {
+      it('should type IDs on the configured generator type', () => {
+         const service = IdService.getInstance({ type: 'snowflake' });
+         const id: Snowflake = service.getId();
+
+         // @ts-expect-error - The service is configured for Snowflake IDs
+         const uuid: UuidV4 = service.getId();
+
+         expect(typeof id).toBe('string');
+         expect(typeof uuid).toBe('string');
+      });
+
+      it('should retype the service when reconfigured', () => {
+         const service = IdService.getInstance().configure({ type: 'nanoid' });
+         const ids: NanoId[] = service.getIds(2);
+
+         expect(ids).toHaveLength(2);
+         expect(ids[0]).toHaveLength(21);
+      });
+   });
+
+   describe('Entity Registry', () => {
+      it('should generate prefixed IDs for registered entities', () => {
+         const service = IdService.getInstance();
+         service.registerEntity('user', { prefix: 'user', type: 'ulid' });
+         service.registerEntity('order', {
+            prefix: 'ord',
+            type: 'nanoid',
+            nanoid: { size: 12 },
+         });
+
+         expect(service.for('user').getId()).toMatch(/^user_[0-9A-Z]{26}$/);
+         expect(service.for('order').getId()).toMatch(
+            /^ord_[A-Za-z0-9_-]{12}$/
+         );
+      });
+
+      it('should register entities from the options', () => {
+         const service = IdService.getInstance({
+            type: 'snowflake',
+            entities: { invoice: { prefix: 'inv' } },
+         });
+         const id = service.for('invoice').getId();
+
+         expect(id).toMatch(/^inv_\d+$/);
+         expect(service.for('invoice').parse(id).id).toMatch(/^\d+$/);
+      });
+
+      it('should keep entities when reconfigured', () => {
+         const service = IdService.getInstance();
+         service.registerEntity('user', { prefix: 'user', type: 'ulid' });
+         service.configure({
+            type: 'nanoid',
+            entities: { team: { prefix: 'team' } },
+         });
+
+         expect(service.for('user').getId()).toMatch(/^user_/);
+         expect(service.for('team').getId()).toMatch(/^team_.{21}$/);
+      });
+
+      it('should throw for unknown entities', () => {
+         const service = IdService.getInstance();
+
+         expect(() => service.for('user')).toThrow(
+            "Entity 'user' is not registered. Register it with registerEntity() or the entities option"
+         );
+         expect(() => service.for('user')).toThrow(IdConfigurationError);
+      });
+
+      it('should validate prefixes on registration', () => {
+         const service = IdService.getInstance();
+
+         expect(() =>
+            service.registerEntity('user', { prefix: 'User' })
+         ).toThrow("Prefix 'User' must start with a lowercase letter");
+      });
+
+      it('should use the entity prefix as the TypeID prefix', () => {
+         const service = new IdService({
+            type: 'typeid',
+            typeid: { prefix: 'acct' },
+            entities: { team: { prefix: 'team' } },
+         });
+         service.registerEntity('user', { prefix: 'user', type: 'typeid' });
+
+         const userId = service.for('user').getId();
+         expect(userId).toMatch(/^user_[0-7][0-9a-hjkmnp-tv-z]{25}$/);
+         expect(decodeTypeId(userId).prefix).toBe('user');
+         expect(decodeTypeId(service.for('team').getId()).prefix).toBe('team');
+         expect(service.getId()).toMatch(/^acct_/);
+      });
+
+      it('should reject entity prefixes that are not TypeID prefixes', () => {
+         const service = new IdService({ type: 'typeid' });
+
+         expect(() =>
+            service.registerEntity('order', { prefix: 'ord2' })
+         ).toThrow(IdConfigurationError);
+         expect(() =>
+            service.registerEntity('order', {
+               prefix: 'ord',
+               separator: '-',
+               type: 'typeid',
+            })
+         ).toThrow("TypeID entities must use the '_' separator, got '-'");
+         expect(
+            service.registerEntity('order', { prefix: 'ord2', type: 'ulid' })
+         ).toBeDefined();
+      });
+   });
+
+   describe('Injected Providers', () => {
+      it('should apply service-wide clock and random providers', () => {
+         const create = () => {
+            // @ts-expect-error - Resetting private static property for testing
+            IdService.instance = undefined;
+            return IdService.getInstance({
+               clock: new FixedClock(1700000000000),
+               random: new SeededRandom(42),
+            });
+         };
+         const a = create();
+         const aIds = [a.getId(), a.getUuidV7(), a.getNanoId(), a.getUlid()];
+         const b = create();
+         const bIds = [b.getId(), b.getUuidV7(), b.getNanoId(), b.getUlid()];
+
+         expect(aIds).toEqual(bIds);
+      });
+
+      it('should apply providers configured after the first ID', () => {
+         const service = IdService.getInstance({ type: 'snowflake' });
+         service.getId();
+         service.getUuidV7();
+
+         const timestamp = Date.now() + 60000;
+         service.configure({ clock: new FixedClock(timestamp) });
+
+         expect(service.parse(service.getId())).toMatchObject({ timestamp });
+         expect(service.parse(service.getSnowflake())).toMatchObject({
+            timestamp,
+         });
+         expect(service.parse(service.getUuidV7())).toMatchObject({
+            timestamp,
+         });
+      });
+
+      it('should let generator-specific providers take precedence', () => {
+         const service = IdService.getInstance({
+            clock: new FixedClock(1700000000000),
+         });
+         const id = service.getSnowflake({
+            workerId: 9,
+            clock: new FixedClock(1733011200000 + 5),
+         });
+
+         expect(BigInt(id) >> 22n).toBe(5n);
       });
    });
 
@@ -116,12 +1129,22 @@ describe('IdService', () => {
          expect(id1).not.toBe(id2);
       });
 
-      it('should throw error for getUuidV7() (not yet implemented)', () => {
+      it('should generate UUID v7 using getUuidV7()', () => {
          const service = IdService.getInstance();
+         const id = service.getUuidV7();
+
+         const uuidV7Regex =
+            /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
-         expect(() => {
-            service.getUuidV7();
-         }).toThrow('UUIDv7 generator not yet implemented');
+         expect(id).toMatch(uuidV7Regex);
+      });
+
+      it('should generate increasing UUID v7s using getUuidV7()', () => {
+         const service = IdService.getInstance();
+         const id1 = service.getUuidV7();
+         const id2 = service.getUuidV7();
+
+         expect(id2 > id1).toBe(true);
       });
 
       it('should generate Snowflake ID using getSnowflake()', () => {
@@ -171,12 +1194,33 @@ describe('IdService', () => {
          expect(id1).not.toBe(id2);
       });
 
-      it('should throw error for getCuid() (not yet implemented)', () => {
+      it('should generate CUID using getCuid()', () => {
+         const service = IdService.getInstance();
+         const id = service.getCuid();
+
+         expect(id).toMatch(/^[a-z][0-9a-z]{23}$/);
+      });
+
+      it('should generate CUID with custom length', () => {
+         const service = IdService.getInstance();
+         const id = service.getCuid({ length: 32 });
+
+         expect(id.length).toBe(32);
+      });
+
+      it('should generate ULID using getUlid()', () => {
          const service = IdService.getInstance();
+         const id = service.getUlid();
 
-         expect(() => {
-            service.getCuid();
-         }).toThrow('CUID generator not yet implemented');
+         expect(id).toMatch(/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/);
+      });
+
+      it('should generate unique ULIDs', () => {
+         const service = IdService.getInstance();
+         const id1 = service.getUlid();
+         const id2 = service.getUlid({ monotonic: true });
+
+         expect(id1).not.toBe(id2);
       });
 
       it('should generate NanoId using getNanoId()', () => {
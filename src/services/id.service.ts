@@ -1,17 +1,66 @@
 import {
    IIdGenerator,
+   IdGeneratorFactory,
    IdGeneratorOptions,
    IdGeneratorType,
+   IdValidator,
    SnowflakeOptions,
+   SnowflakeStats,
    NanoIdOptions,
+   CuidOptions,
+   UlidOptions,
+   IdTypeMap,
+   UuidV4,
+   UuidV1,
+   UuidV3,
+   UuidV5,
+   UuidV6,
+   UuidV7,
+   Snowflake,
+   Cuid,
+   NanoId,
+   Ulid,
+   TypeId,
+   TypeIdOptions,
+   Ksuid,
+   KsuidOptions,
+   StringIdEncoding,
+   EntityIdOptions,
+   IdRange,
+   PrefixSeparator,
 } from '../interfaces/id-generator.interface';
 import { UuidV4Generator } from '../generators/uuid-v4-generator';
+import { UuidV5Generator } from '../generators/uuid-v5-generator';
+import { UuidV1Generator } from '../generators/uuid-v1-generator';
+import { UuidV6Generator } from '../generators/uuid-v6-generator';
+import { UuidV7Generator } from '../generators/uuid-v7-generator';
 import { NanoIdGenerator } from '../generators/nano-id-generator';
 import { SnowflakeGenerator } from '../generators/snowflake-generator';
+import { resolveSnowflakeConfig } from '../generators/snowflake-layout';
+import { generateIds } from '../utils/generate-ids';
+import { encodeId } from '../utils/id-encoding';
+import { inspect, IdInspection } from '../utils/inspect';
+import { idRangeFor } from '../utils/id-range';
+import { createUuidV3 } from '../utils/uuid';
+import { validate, ValidationResult } from '../utils/validate';
+import { CuidGenerator } from '../generators/cuid-generator';
+import { UlidGenerator } from '../generators/ulid-generator';
+import { PrefixedIdGenerator } from '../generators/prefixed-id-generator';
+import { TypeIdGenerator } from '../generators/typeid-generator';
+import { KsuidGenerator } from '../generators/ksuid-generator';
+import {
+   ID_GENERATOR_TYPES,
+   ID_VALIDATION_TYPES,
+   validateIdGeneratorOptions,
+} from '../utils/validate-options';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { UnsupportedGeneratorError } from '../errors/unsupported-generator.error';
 
 /**
  * ID service that uses dependency injection to provide ID generation functionality
- * Implements the Singleton pattern for global ID generator access
+ * Provides a default singleton for global access, named instances for
+ * applications that need several configurations, and a public constructor
+ * for standalone use
  *
  * @example
  * // Configure in your app.module or main entry point
@@ -36,41 +85,229 @@ import { SnowflakeGenerator } from '../generators/snowflake-generator';
  *   }
  * });
  */
-export class IdService {
-   private static instance: IdService;
-   private generator: IIdGenerator;
+export class IdService<T extends IdGeneratorType = IdGeneratorType> {
+   private static instance?: IdService;
+   private static instances = new Map<string, IdService>();
+   private static generatorFactories = new Map<string, IdGeneratorFactory>();
+   private static generatorValidators = new Map<string, IdValidator>();
+   private generator: IIdGenerator<IdTypeMap[T]>;
+   private type: IdGeneratorType;
    private options: IdGeneratorOptions;
+   private uuidV7Generator?: UuidV7Generator;
+   private uuidV1Generator?: UuidV1Generator;
+   private uuidV6Generator?: UuidV6Generator;
+   private cuidGenerators = new Map<string, CuidGenerator>();
+   private ulidGenerators = new Map<string, UlidGenerator>();
+   private typeIdGenerators = new Map<string, TypeIdGenerator>();
+   private snowflakeGenerators = new Map<string, SnowflakeGenerator>();
+   private retiredSnowflakeGenerators = new Map<string, SnowflakeGenerator>();
+   private instanceKeys = new WeakMap<object, number>();
+   private instanceCount = 0;
+   private entityGenerators = new Map<
+      string,
+      PrefixedIdGenerator<string, string, PrefixSeparator>
+   >();
+
+   /**
+    * Creates a standalone service, independent of the default and named instances
+    * @param options Optional ID generator configuration
+    * @throws IdConfigurationError or UnsupportedGeneratorError if the options are invalid
+    * @example
+    * const orders = new IdService({ type: 'snowflake', snowflake: { workerId: 2 } });
+    * const id = orders.getId(); // Snowflake
+    */
+   constructor(options: IdGeneratorOptions<T> = {}) {
+      validateIdGeneratorOptions(options, IdService.getCustomTypes());
 
-   private constructor(options: IdGeneratorOptions = {}) {
       this.options = options;
-      const type = options.type || 'uuidv4';
-      this.generator = this.createGenerator(type, options);
+      this.type = options.type ?? 'uuidv4';
+      this.generator = this.createGenerator(this.type, options) as IIdGenerator<
+         IdTypeMap[T]
+      >;
+      this.createEntityGenerators();
    }
 
    /**
-    * Gets the singleton instance of IdService
+    * Gets the default singleton instance of IdService
+    * The instance is typed on the generator type of the options, so getId()
+    * returns the matching branded ID type. Without a type, it is typed on any
+    * generator type: pass the configured one as type argument to narrow it
+    * Options that would change the configuration are only accepted by the
+    * call that creates the instance, use configure() to change them later.
+    * Later calls may repeat options already applied (e.g. framework factories
+    * that run more than once). Providers and callbacks are only compared by
+    * class, so such factories may create new providers on every run; the
+    * instance keeps the ones it was created with
     * @param options Optional ID generator configuration
     * @returns The IdService instance
+    * @throws IdConfigurationError if options that differ from the current
+    * configuration are passed once the instance exists
     * @example
-    * const idService = IdService.getInstance({ type: 'uuidv4' });
+    * const idService = IdService.getInstance({ type: 'snowflake' });
+    * const id = idService.getId(); // Snowflake
+    * const sameId = IdService.getInstance<'snowflake'>().getId(); // Snowflake
     */
-   public static getInstance(options?: IdGeneratorOptions): IdService {
+   public static getInstance<T extends IdGeneratorType = IdGeneratorType>(
+      options?: IdGeneratorOptions<T>
+   ): IdService<T> {
       if (!IdService.instance) {
          IdService.instance = new IdService(options);
+      } else if (options && !IdService.instance.hasOptions(options)) {
+         throw new IdConfigurationError(
+            'IdService is already initialized. Use configure() to change its options, or IdService.create() for another instance'
+         );
+      }
+      return IdService.instance as IdService<T>;
+   }
+
+   /**
+    * Creates a named instance of IdService
+    * @param name The instance name
+    * @param options Optional ID generator configuration
+    * @returns The new IdService instance
+    * @throws IdConfigurationError if an instance with this name exists or the
+    * options are invalid
+    * @example
+    * IdService.create('orders', { type: 'snowflake', snowflake: { workerId: 2 } });
+    * IdService.create('links', { type: 'nanoid', nanoid: { size: 8 } });
+    */
+   public static create<T extends IdGeneratorType = 'uuidv4'>(
+      name: string,
+      options?: IdGeneratorOptions<T>
+   ): IdService<T> {
+      if (IdService.instances.has(name)) {
+         throw new IdConfigurationError(
+            `IdService instance '${name}' already exists`
+         );
+      }
+      const instance = new IdService(options);
+      IdService.instances.set(name, instance);
+      return instance;
+   }
+
+   /**
+    * Gets a named instance of IdService
+    * @param name The instance name
+    * @returns The IdService instance
+    * @throws IdConfigurationError if no instance with this name exists
+    * @example
+    * const orderId = IdService.get<'snowflake'>('orders').getId(); // Snowflake
+    */
+   public static get<T extends IdGeneratorType = IdGeneratorType>(
+      name: string
+   ): IdService<T> {
+      const instance = IdService.instances.get(name);
+      if (!instance) {
+         throw new IdConfigurationError(
+            `IdService instance '${name}' does not exist. Create it with IdService.create()`
+         );
+      }
+      return instance as IdService<T>;
+   }
+
+   /**
+    * Removes the default and named instances, or a single named instance
+    * Intended for tests
+    * @param name Optional name of the instance to remove
+    * @example
+    * afterEach(() => IdService.reset());
+    */
+   public static reset(name?: string): void {
+      if (name !== undefined) {
+         IdService.instances.delete(name);
+         return;
+      }
+      IdService.instance = undefined;
+      IdService.instances.clear();
+   }
+
+   /**
+    * Registers the factory of a custom generator type
+    * Declare the type and its ID type by augmenting IdTypeMap (and its options
+    * by augmenting IdGeneratorOptions) so that it is type-checked like the
+    * built-in types. Registering a type again replaces its factory for the
+    * services created afterwards, and its validator for every service.
+    * Registrations survive reset()
+    * @param type The generator type
+    * @param factory Creates a generator from the service options
+    * @param validator Optional check used by isValid() and validate(); without
+    * one, validating IDs of the type throws
+    * @throws IdConfigurationError if the type is empty or a built-in type
+    * @example
+    * declare module '@brmorillo/ids' {
+    *   interface IdTypeMap {
+    *     xid: Brand<string, 'Xid'>;
+    *   }
+    * }
+    *
+    * IdService.registerGenerator(
+    *   'xid',
+    *   (options) => new XidGenerator(options),
+    *   (id) => /^[0-9a-v]{20}$/.test(id)
+    * );
+    * const id = new IdService({ type: 'xid' }).getId(); // Brand<string, 'Xid'>
+    */
+   public static registerGenerator<K extends IdGeneratorType>(
+      type: K,
+      factory: IdGeneratorFactory<K>,
+      validator?: IdValidator
+   ): void {
+      if (typeof type !== 'string' || type.length === 0) {
+         throw new IdConfigurationError(
+            'Generator type must be a non-empty string'
+         );
+      }
+      if (ID_VALIDATION_TYPES.includes(type)) {
+         throw new IdConfigurationError(
+            `Generator type '${type}' is built in and cannot be replaced`
+         );
+      }
+      IdService.generatorFactories.set(type, factory);
+      if (validator) {
+         IdService.generatorValidators.set(type, validator);
+      } else {
+         IdService.generatorValidators.delete(type);
       }
-      return IdService.instance;
    }
 
    /**
     * Reconfigures the ID generator with new options
+    * Options are merged into the current configuration, and the generator type
+    * is kept when omitted. The merged configuration is validated first, so
+    * invalid options leave the current configuration untouched. Cached
+    * generators are rebuilt with the new options
     * @param options ID generator configuration
+    * @returns The same service, typed on the new generator type
+    * @throws IdConfigurationError or UnsupportedGeneratorError if the options are invalid
     * @example
-    * idService.configure({ type: 'uuidv7' });
+    * const uuidService = idService.configure({ type: 'uuidv7' });
+    * uuidService.configure({ snowflake: { workerId: 2 } }); // Still UUID v7
     */
-   public configure(options: IdGeneratorOptions): void {
-      this.options = { ...this.options, ...options };
-      const type = options.type || 'uuidv4';
-      this.generator = this.createGenerator(type, this.options);
+   public configure<U extends IdGeneratorType = T>(
+      options: IdGeneratorOptions<U>
+   ): IdService<U> {
+      const merged: IdGeneratorOptions = {
+         ...this.options,
+         ...options,
+         entities: { ...this.options.entities, ...options.entities },
+      };
+      validateIdGeneratorOptions(merged, IdService.getCustomTypes());
+
+      this.options = merged;
+      this.uuidV7Generator = undefined;
+      this.uuidV1Generator = undefined;
+      this.uuidV6Generator = undefined;
+      this.cuidGenerators.clear();
+      this.ulidGenerators.clear();
+      this.typeIdGenerators.clear();
+      this.retireSnowflakeGenerators();
+      this.type = options.type ?? this.type;
+      this.generator = this.createGenerator(
+         this.type,
+         this.options
+      ) as IIdGenerator<IdTypeMap[T]>;
+      this.createEntityGenerators();
+      return this as unknown as IdService<U>;
    }
 
    /**
@@ -79,10 +316,22 @@ export class IdService {
     * @example
     * const id = idService.getId(); // '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d'
     */
-   public getId(): string {
+   public getId(): IdTypeMap[T] {
       return this.generator.getId();
    }
 
+   /**
+    * Generates multiple IDs using the configured generator
+    * @param count The number of IDs to generate
+    * @returns The generated IDs, in generation order
+    * @throws IdConfigurationError if count is not a non-negative integer
+    * @example
+    * const ids = idService.getIds(1000);
+    */
+   public getIds(count: number): IdTypeMap[T][] {
+      return generateIds(this.generator, count);
+   }
+
    /**
     * Generates a UUID v4
     * @returns A random UUID v4 string
@@ -90,26 +339,134 @@ export class IdService {
     * const id = idService.getUuidV4();
     * // '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d'
     */
-   public getUuidV4(): string {
-      const generator = new UuidV4Generator();
+   public getUuidV4(): UuidV4 {
+      const generator = new UuidV4Generator(
+         this.withProviders(this.options.uuidv4)
+      );
       return generator.getId();
    }
 
+   /**
+    * Generates multiple UUID v4s
+    * @param count The number of IDs to generate
+    * @returns The generated UUID v4 strings
+    * @example
+    * const ids = idService.getUuidV4s(100);
+    */
+   public getUuidV4s(count: number): UuidV4[] {
+      const generator = new UuidV4Generator(
+         this.withProviders(this.options.uuidv4)
+      );
+      return generateIds(generator, count);
+   }
+
    /**
     * Generates a UUID v7 (time-ordered)
+    * Reuses a single generator so IDs stay monotonic across calls
     * @returns A time-ordered UUID v7 string
-    * @throws Error - UUIDv7 not yet implemented
     * @example
     * const id = idService.getUuidV7();
-    * // '018c3e5a-8b3e-7000-8000-000000000000'
+    * // '018c3e5a-8b3e-7a1c-9f2d-3b4c5d6e7f80'
+    */
+   public getUuidV7(): UuidV7 {
+      return this.getUuidV7Generator().getId();
+   }
+
+   /**
+    * Generates multiple UUID v7s
+    * @param count The number of IDs to generate
+    * @returns The generated UUID v7 strings, in ascending order
+    * @example
+    * const ids = idService.getUuidV7s(100);
+    */
+   public getUuidV7s(count: number): UuidV7[] {
+      return generateIds(this.getUuidV7Generator(), count);
+   }
+
+   /**
+    * Generates a UUID v1 (time-based, not sortable as a string)
+    * Reuses a single generator so IDs stay unique across calls
+    * @returns A UUID v1 string
+    * @example
+    * const id = idService.getUuidV1();
+    * // 'c232ab00-9414-11ec-b3c8-9f6bdeced846'
+    */
+   public getUuidV1(): UuidV1 {
+      return this.getUuidV1Generator().getId();
+   }
+
+   /**
+    * Generates multiple UUID v1s
+    * @param count The number of IDs to generate
+    * @returns The generated UUID v1 strings, in generation order
+    * @example
+    * const ids = idService.getUuidV1s(100);
+    */
+   public getUuidV1s(count: number): UuidV1[] {
+      return generateIds(this.getUuidV1Generator(), count);
+   }
+
+   /**
+    * Generates a UUID v6 (UUID v1 fields, time-ordered)
+    * Reuses a single generator so IDs stay monotonic across calls
+    * @returns A time-ordered UUID v6 string
+    * @example
+    * const id = idService.getUuidV6();
+    * // '1ec9414c-232a-6b00-b3c8-9f6bdeced846'
+    */
+   public getUuidV6(): UuidV6 {
+      return this.getUuidV6Generator().getId();
+   }
+
+   /**
+    * Generates multiple UUID v6s
+    * @param count The number of IDs to generate
+    * @returns The generated UUID v6 strings, in ascending order
+    * @example
+    * const ids = idService.getUuidV6s(100);
+    */
+   public getUuidV6s(count: number): UuidV6[] {
+      return generateIds(this.getUuidV6Generator(), count);
+   }
+
+   /**
+    * Generates the deterministic UUID v5 of a name
+    * The same namespace and name always give the same ID, so re-running an
+    * import yields the same IDs
+    * @param namespace The namespace UUID (see UUID_NAMESPACES)
+    * @param name The name, as a string (UTF-8) or bytes
+    * @returns A UUID v5 string, in the configured UUID v5 encoding
+    * @throws IdConfigurationError if the namespace is not a UUID
+    * @example
+    * const id = idService.getUuidV5(UUID_NAMESPACES.DNS, 'www.example.com');
+    * // '2ed6657d-e927-568b-95e1-2665a8aea6a2'
+    */
+   public getUuidV5(namespace: string, name: string | Uint8Array): UuidV5 {
+      return new UuidV5Generator({ ...this.options.uuidv5, namespace }).getId(
+         name
+      );
+   }
+
+   /**
+    * Generates the deterministic UUID v3 of a name
+    * Only for compatibility with existing v3 IDs - prefer getUuidV5()
+    * @param namespace The namespace UUID (see UUID_NAMESPACES)
+    * @param name The name, as a string (UTF-8) or bytes
+    * @returns A UUID v3 string
+    * @throws IdConfigurationError if the namespace is not a UUID
+    * @example
+    * const id = idService.getUuidV3(UUID_NAMESPACES.DNS, 'www.example.com');
+    * // '5df41881-3aed-3515-88a7-2f4a814cf09e'
     */
-   public getUuidV7(): string {
-      throw new Error('UUIDv7 generator not yet implemented');
+   public getUuidV3(namespace: string, name: string | Uint8Array): UuidV3 {
+      return createUuidV3(namespace, name);
    }
 
    /**
     * Generates a Snowflake ID
     * Uses the configuration from getInstance() if no options provided
+    * One generator is kept per distinct configuration, so sequencing and
+    * clock-regression protection hold across calls
     * @param options Optional Snowflake configuration options (overrides default config)
     * @returns A Snowflake ID string
     * @example
@@ -127,23 +484,96 @@ export class IdService {
     *   epoch: 1288834974657
     * });
     */
-   public getSnowflake(options?: SnowflakeOptions): string {
+   public getSnowflake(options?: SnowflakeOptions): Snowflake {
       // Use provided options, or fall back to configured options, or defaults
       const finalOptions = options || this.options.snowflake;
-      const generator = new SnowflakeGenerator(finalOptions);
-      return generator.getId();
+      const id = this.getSnowflakeGenerator(
+         this.withProviders(finalOptions)
+      ).getId();
+      return this.encodeSnowflake(id, finalOptions?.encoding);
+   }
+
+   /**
+    * Generates multiple Snowflake IDs
+    * Sequence ranges are reserved per tick instead of reading the clock per ID
+    * @param count The number of IDs to generate
+    * @param options Optional Snowflake configuration options (overrides default config)
+    * @returns The generated Snowflake ID strings, in ascending order
+    * @example
+    * const ids = idService.getSnowflakes(10000, { workerId: 2 });
+    */
+   public getSnowflakes(
+      count: number,
+      options?: SnowflakeOptions
+   ): Snowflake[] {
+      const finalOptions = options || this.options.snowflake;
+      return generateIds(
+         this.getSnowflakeGenerator(this.withProviders(finalOptions)),
+         count
+      ).map((id) => this.encodeSnowflake(id, finalOptions?.encoding));
+   }
+
+   /**
+    * Generates a Snowflake ID without blocking the event loop
+    * Same as getSnowflake(), but waits for sequence exhaustion or clock
+    * regressions (with the 'wait' strategy) using timers instead of busy-spinning
+    * @param options Optional Snowflake configuration options (overrides default config)
+    * @returns A promise resolving to a Snowflake ID string
+    * @example
+    * const id = await idService.getSnowflakeAsync({
+    *   workerId: 1,
+    *   clockBackwardsStrategy: 'wait',
+    * });
+    */
+   public getSnowflakeAsync(options?: SnowflakeOptions): Promise<Snowflake> {
+      const finalOptions = options || this.options.snowflake;
+      return this.getSnowflakeGenerator(this.withProviders(finalOptions))
+         .getIdAsync()
+         .then((id) => this.encodeSnowflake(id, finalOptions?.encoding));
+   }
+
+   /**
+    * Gets the counters of the Snowflake generator for a node
+    * @param options Optional Snowflake configuration options identifying the node
+    * (overrides default config)
+    * @returns A snapshot of the node's counters
+    * @example
+    * const { idsIssued, sequenceExhaustions } = idService.getSnowflakeStats();
+    */
+   public getSnowflakeStats(options?: SnowflakeOptions): SnowflakeStats {
+      const finalOptions = options || this.options.snowflake;
+      return this.getSnowflakeGenerator(
+         this.withProviders(finalOptions)
+      ).getStats();
    }
 
    /**
     * Generates a CUID (Collision-resistant Unique IDentifier)
-    * @returns A CUID string
-    * @throws Error - CUID not yet implemented
+    * Uses the configuration from getInstance() if no options provided
+    * @param options Optional CUID configuration options (overrides default config)
+    * @returns A CUID2-style string
     * @example
     * const id = idService.getCuid();
-    * // 'clh5z8kqt0000qzrmn5b8t2j4'
+    * // 'tz4a98xxat96iws9zmbrgj3a'
+    *
+    * @example
+    * // Shorter ID with a custom fingerprint
+    * const id = idService.getCuid({ length: 10, fingerprint: 'api-eu-1' });
     */
-   public getCuid(): string {
-      throw new Error('CUID generator not yet implemented');
+   public getCuid(options?: CuidOptions): Cuid {
+      return this.getCuidGenerator(options).getId();
+   }
+
+   /**
+    * Generates multiple CUIDs
+    * @param count The number of IDs to generate
+    * @param options Optional CUID configuration options (overrides default config)
+    * @returns The generated CUID strings
+    * @example
+    * const ids = idService.getCuids(100, { length: 16 });
+    */
+   public getCuids(count: number, options?: CuidOptions): Cuid[] {
+      return generateIds(this.getCuidGenerator(options), count);
    }
 
    /**
@@ -169,21 +599,588 @@ export class IdService {
     *   size: 16
     * });
     */
-   public getNanoId(options?: NanoIdOptions): string {
+   public getNanoId(options?: NanoIdOptions): NanoId {
       // Merge provided options with configured options
       const finalOptions = options
          ? { ...this.options.nanoid, ...options }
          : this.options.nanoid;
-      const generator = new NanoIdGenerator(finalOptions);
+      const generator = new NanoIdGenerator(this.withProviders(finalOptions));
+      return generator.getId();
+   }
+
+   /**
+    * Generates multiple NanoIds
+    * Random bytes for the whole batch are drawn in one pool
+    * @param count The number of IDs to generate
+    * @param options Optional NanoId configuration options (overrides default config)
+    * @returns The generated NanoId strings
+    * @example
+    * const ids = idService.getNanoIds(1000, { size: 10 });
+    */
+   public getNanoIds(count: number, options?: NanoIdOptions): NanoId[] {
+      const finalOptions = options
+         ? { ...this.options.nanoid, ...options }
+         : this.options.nanoid;
+      const generator = new NanoIdGenerator(this.withProviders(finalOptions));
+      return generateIds(generator, count);
+   }
+
+   /**
+    * Generates a ULID (Universally Unique Lexicographically Sortable Identifier)
+    * Uses the configuration from getInstance() if no options provided
+    * One generator is kept per distinct configuration, so monotonic mode
+    * holds across calls
+    * @param options Optional ULID configuration options (overrides default config)
+    * @returns A 26-character ULID string
+    * @example
+    * const id = idService.getUlid();
+    * // '01ARZ3NDEKTSV4RRFFQ69G5FAV'
+    *
+    * @example
+    * // Monotonic ULIDs, increasing across calls
+    * const id = idService.getUlid({ monotonic: true });
+    */
+   public getUlid(options?: UlidOptions): Ulid {
+      return this.getUlidGenerator(options).getId();
+   }
+
+   /**
+    * Generates multiple ULIDs
+    * @param count The number of IDs to generate
+    * @param options Optional ULID configuration options (overrides default config)
+    * @returns The generated ULID strings
+    * @example
+    * const ids = idService.getUlids(100, { monotonic: true });
+    */
+   public getUlids(count: number, options?: UlidOptions): Ulid[] {
+      return generateIds(this.getUlidGenerator(options), count);
+   }
+
+   /**
+    * Generates a TypeID (type prefix + UUID v7 in Base32)
+    * Uses the configuration from getInstance() if no options provided
+    * One generator is kept per prefix, so IDs stay sortable across calls
+    * @param options Optional TypeID configuration options (overrides default config)
+    * @returns A TypeID string
+    * @example
+    * const id = idService.getTypeId({ prefix: 'user' });
+    * // 'user_01h455vb4pex5vsknk084sn02q'
+    */
+   public getTypeId(options?: TypeIdOptions): TypeId {
+      return this.getTypeIdGenerator(options).getId();
+   }
+
+   /**
+    * Generates multiple TypeIDs
+    * @param count The number of IDs to generate
+    * @param options Optional TypeID configuration options (overrides default config)
+    * @returns The generated TypeID strings, in ascending order
+    * @example
+    * const ids = idService.getTypeIds(100, { prefix: 'order' });
+    */
+   public getTypeIds(count: number, options?: TypeIdOptions): TypeId[] {
+      return generateIds(this.getTypeIdGenerator(options), count);
+   }
+
+   /**
+    * Generates a KSUID (32-bit second timestamp + 128-bit random payload)
+    * Uses the configuration from getInstance() if no options provided
+    * @param options Optional KSUID configuration options (overrides default config)
+    * @returns A 27-character KSUID string
+    * @example
+    * const id = idService.getKsuid();
+    * // '0ujtsYcgvSTl8PAuAdqWYSMnLOv'
+    */
+   public getKsuid(options?: KsuidOptions): Ksuid {
+      const generator = new KsuidGenerator(
+         this.withProviders({ ...this.options.ksuid, ...options })
+      );
       return generator.getId();
    }
 
+   /**
+    * Generates multiple KSUIDs
+    * @param count The number of IDs to generate
+    * @param options Optional KSUID configuration options (overrides default config)
+    * @returns The generated KSUID strings
+    * @example
+    * const ids = idService.getKsuids(100);
+    */
+   public getKsuids(count: number, options?: KsuidOptions): Ksuid[] {
+      const generator = new KsuidGenerator(
+         this.withProviders({ ...this.options.ksuid, ...options })
+      );
+      return generateIds(generator, count);
+   }
+
+   /**
+    * Gets the smallest and largest IDs the configured generator can mint
+    * within a time window, for `WHERE id BETWEEN ? AND ?` queries
+    * @param from The start of the window, as a Date or a Unix timestamp in milliseconds
+    * @param to The end of the window, as a Date or a Unix timestamp in milliseconds
+    * @returns The inclusive ID bounds (see idRangeFor())
+    * @throws IdConfigurationError if the configured type does not embed a
+    * sortable timestamp, or a date is invalid or out of range
+    * @example
+    * const { min, max } = idService.getIdRange(
+    *   new Date('2025-12-01T00:00:00Z'),
+    *   new Date('2025-12-02T00:00:00Z')
+    * );
+    */
+   public getIdRange(
+      from: number | Date,
+      to: number | Date
+   ): IdRange<IdTypeMap[T]> {
+      return idRangeFor(this.type, from, to, this.options) as IdRange<
+         IdTypeMap[T]
+      >;
+   }
+
+   /**
+    * Detects the format of an ID and decodes everything embedded in it
+    * Snowflake IDs and KSUIDs are decoded with the configured options
+    * @param id The ID to inspect
+    * @returns A discriminated union describing the ID (see inspect())
+    * @example
+    * const info = idService.parse('1234567890123456789');
+    * if (info.format === 'snowflake') {
+    *   console.log(info.date, info.workerId, info.processId);
+    * }
+    */
+   public parse(id: string): IdInspection {
+      return inspect(id, {
+         snowflake: this.options.snowflake,
+         ksuid: this.options.ksuid,
+      });
+   }
+
+   /**
+    * Registers an entity with its own ID prefix and generator
+    * The generator type defaults to the configured type, and generator options
+    * default to the service-wide ones
+    * @param name The entity name
+    * @param options Prefix, separator, generator type and generator options
+    * @returns The entity's prefixed ID generator
+    * @throws IdConfigurationError if the prefix, separator, generator type or
+    * generator options are invalid
+    * @example
+    * idService.registerEntity('user', { prefix: 'user', type: 'ulid' });
+    * idService.registerEntity('order', {
+    *   prefix: 'ord',
+    *   type: 'nanoid',
+    *   nanoid: { size: 16 },
+    * });
+    */
+   public registerEntity<P extends string, S extends PrefixSeparator = '_'>(
+      name: string,
+      options: EntityIdOptions<P, S>
+   ): PrefixedIdGenerator<P, string, S> {
+      validateIdGeneratorOptions(
+         { type: this.type, entities: { [name]: options } },
+         IdService.getCustomTypes()
+      );
+      const generator = this.createEntityGenerator(options);
+      this.options = {
+         ...this.options,
+         entities: { ...this.options.entities, [name]: options },
+      };
+      this.entityGenerators.set(name, generator);
+      return generator;
+   }
+
+   /**
+    * Gets the prefixed ID generator of a registered entity
+    * Generators are created once per entity, so time-ordered IDs stay monotonic
+    * @param entity The entity name
+    * @returns The entity's prefixed ID generator
+    * @throws IdConfigurationError if the entity is not registered
+    * @example
+    * const userId = idService.for('user').getId(); // 'user_01ARZ3NDEKTSV4RRFFQ69G5FAV'
+    * const { id } = idService.for('user').parse(userId);
+    */
+   public for(
+      entity: string
+   ): PrefixedIdGenerator<string, string, PrefixSeparator> {
+      const generator = this.entityGenerators.get(entity);
+      if (!generator) {
+         throw new IdConfigurationError(
+            `Entity '${entity}' is not registered. Register it with registerEntity() or the entities option`
+         );
+      }
+      return generator;
+   }
+
+   /**
+    * Checks whether an ID is valid for the configured generator type and options
+    * @param id The value to check
+    * @returns True if the ID could have been produced by the configured generator
+    * @throws IdConfigurationError if the type is a custom type registered
+    * without a validator
+    * @example
+    * idService.configure({ type: 'nanoid', nanoid: { size: 10 } });
+    * idService.isValid('V1StGXR8_Z'); // true
+    */
+   public isValid(id: unknown): id is IdTypeMap[T] {
+      return this.validate(id).valid;
+   }
+
+   /**
+    * Validates an ID against the configured generator type and options
+    * Custom types are checked by the validator given to registerGenerator()
+    * @param id The value to validate
+    * @returns `{ valid: true }` or `{ valid: false, reason }`
+    * @throws IdConfigurationError if the type is a custom type registered
+    * without a validator
+    * @example
+    * idService.validate('abc');
+    * // { valid: false, reason: 'UUID must be 36 characters in the 8-4-4-4-12 hexadecimal format' }
+    */
+   public validate(id: unknown): ValidationResult {
+      if (ID_GENERATOR_TYPES.includes(this.type)) {
+         return validate(id, this.type, this.options);
+      }
+
+      const validator = IdService.generatorValidators.get(this.type);
+      if (!validator) {
+         throw new IdConfigurationError(
+            `Generator type '${this.type}' has no validator. Pass one to IdService.registerGenerator() to validate its IDs`
+         );
+      }
+      if (typeof id !== 'string') {
+         return {
+            valid: false,
+            reason: `ID must be a string, got ${id === null ? 'null' : typeof id}`,
+         };
+      }
+      return validator(id, this.options)
+         ? { valid: true }
+         : {
+              valid: false,
+              reason: `ID was rejected by the '${this.type}' validator`,
+           };
+   }
+
+   /**
+    * Checks whether options are already applied, i.e. configure() would not
+    * change the configuration
+    */
+   private hasOptions(options: IdGeneratorOptions): boolean {
+      const current: IdGeneratorOptions = {
+         ...this.options,
+         type: this.type,
+         entities: { ...this.options.entities },
+      };
+      const merged: IdGeneratorOptions = {
+         ...current,
+         ...options,
+         type: options.type ?? this.type,
+         entities: { ...current.entities, ...options.entities },
+      };
+      return IdService.isEqual(merged, current);
+   }
+
+   /**
+    * Compares plain objects and arrays by value, providers by class and
+    * callbacks by kind
+    */
+   private static isEqual(a: unknown, b: unknown): boolean {
+      if (a === b) {
+         return true;
+      }
+      if (typeof a === 'function' || typeof b === 'function') {
+         return typeof a === typeof b;
+      }
+      if (Array.isArray(a) && Array.isArray(b)) {
+         return (
+            a.length === b.length &&
+            a.every((value, i) => IdService.isEqual(value, b[i]))
+         );
+      }
+      if (!IdService.isPlainObject(a) || !IdService.isPlainObject(b)) {
+         return (
+            typeof a === 'object' &&
+            typeof b === 'object' &&
+            a !== null &&
+            b !== null &&
+            Object.getPrototypeOf(a) === Object.getPrototypeOf(b)
+         );
+      }
+      const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+      return (
+         keys.length ===
+            Object.keys(b).filter((key) => b[key] !== undefined).length &&
+         keys.every((key) => IdService.isEqual(a[key], b[key]))
+      );
+   }
+
+   /**
+    * Checks whether a value is an object literal (not a class instance)
+    */
+   private static isPlainObject(
+      value: unknown
+   ): value is Record<string, unknown> {
+      if (typeof value !== 'object' || value === null) {
+         return false;
+      }
+      const prototype = Object.getPrototypeOf(value);
+      return prototype === Object.prototype || prototype === null;
+   }
+
+   /**
+    * Gets the registered custom generator types
+    */
+   private static getCustomTypes(): string[] {
+      return [...IdService.generatorFactories.keys()];
+   }
+
+   /**
+    * Applies the service-wide clock and random providers to generator options
+    * Providers set in the generator options take precedence
+    */
+   private withProviders<T extends object>(
+      options?: T
+   ): T & Pick<IdGeneratorOptions, 'clock' | 'random'> {
+      return {
+         clock: this.options.clock,
+         random: this.options.random,
+         ...(options as T),
+      };
+   }
+
+   /**
+    * Creates the prefixed generators of the configured entities
+    */
+   private createEntityGenerators(): void {
+      this.entityGenerators.clear();
+      for (const [name, options] of Object.entries(
+         this.options.entities ?? {}
+      )) {
+         this.entityGenerators.set(name, this.createEntityGenerator(options));
+      }
+   }
+
+   /**
+    * Creates the prefixed generator of an entity
+    * TypeID entities wrap unprefixed TypeIDs, so the entity prefix becomes
+    * the TypeID prefix ('user_01h455vb4pex5vsknk084sn02q')
+    */
+   private createEntityGenerator<P extends string, S extends PrefixSeparator>(
+      options: EntityIdOptions<P, S>
+   ): PrefixedIdGenerator<P, string, S> {
+      const {
+         prefix,
+         separator,
+         type = this.type,
+         ...generatorOptions
+      } = options;
+      const generator =
+         type === 'typeid'
+            ? this.getTypeIdGenerator({ prefix: '' })
+            : this.createGenerator(type, {
+                 ...this.options,
+                 ...generatorOptions,
+              });
+      return new PrefixedIdGenerator(generator, { prefix, separator });
+   }
+
+   /**
+    * Gets the shared UUID v7 generator, creating it on first use
+    */
+   private getUuidV7Generator(): UuidV7Generator {
+      if (!this.uuidV7Generator) {
+         this.uuidV7Generator = new UuidV7Generator(
+            this.withProviders(this.options.uuidv7)
+         );
+      }
+      return this.uuidV7Generator;
+   }
+
+   /**
+    * Gets the shared UUID v1 generator, creating it on first use
+    */
+   private getUuidV1Generator(): UuidV1Generator {
+      if (!this.uuidV1Generator) {
+         this.uuidV1Generator = new UuidV1Generator(
+            this.withProviders(this.options.uuidv1)
+         );
+      }
+      return this.uuidV1Generator;
+   }
+
+   /**
+    * Gets the shared UUID v6 generator, creating it on first use
+    */
+   private getUuidV6Generator(): UuidV6Generator {
+      if (!this.uuidV6Generator) {
+         this.uuidV6Generator = new UuidV6Generator(
+            this.withProviders(this.options.uuidv6)
+         );
+      }
+      return this.uuidV6Generator;
+   }
+
+   /**
+    * Gets the cached CUID generator for the given options, creating it on first use
+    * Options are merged into the configured ones. Generators are keyed by
+    * their length, fingerprint and providers, so the fingerprint is computed
+    * and the counter seeded once per configuration
+    */
+   private getCuidGenerator(options?: CuidOptions): CuidGenerator {
+      const finalOptions = this.withProviders({
+         ...this.options.cuid,
+         ...options,
+      });
+      const { fingerprint } = finalOptions;
+      const key = JSON.stringify([
+         finalOptions.length,
+         typeof fingerprint === 'function'
+            ? this.getInstanceKey(fingerprint)
+            : fingerprint,
+         this.getInstanceKey(finalOptions.clock),
+         this.getInstanceKey(finalOptions.random),
+      ]);
+      let generator = this.cuidGenerators.get(key);
+      if (!generator) {
+         generator = new CuidGenerator(finalOptions);
+         this.cuidGenerators.set(key, generator);
+      }
+      return generator;
+   }
+
+   /**
+    * Gets the cached ULID generator for the given options, creating it on first use
+    * Options are merged into the configured ones. Generators are keyed by
+    * their monotonic mode and providers
+    */
+   private getUlidGenerator(options?: UlidOptions): UlidGenerator {
+      const finalOptions = this.withProviders({
+         ...this.options.ulid,
+         ...options,
+      });
+      const key = JSON.stringify([
+         finalOptions.monotonic ?? false,
+         this.getInstanceKey(finalOptions.clock),
+         this.getInstanceKey(finalOptions.random),
+      ]);
+      let generator = this.ulidGenerators.get(key);
+      if (!generator) {
+         generator = new UlidGenerator(finalOptions);
+         this.ulidGenerators.set(key, generator);
+      }
+      return generator;
+   }
+
+   /**
+    * Gets the cached TypeID generator for the given options, creating it on first use
+    * Options are merged into the configured ones. Generators are keyed by
+    * their prefix and providers
+    */
+   private getTypeIdGenerator(options?: TypeIdOptions): TypeIdGenerator {
+      const finalOptions = this.withProviders({
+         ...this.options.typeid,
+         ...options,
+      });
+      const key = JSON.stringify([
+         finalOptions.prefix ?? '',
+         this.getInstanceKey(finalOptions.clock),
+         this.getInstanceKey(finalOptions.random),
+      ]);
+      let generator = this.typeIdGenerators.get(key);
+      if (!generator) {
+         generator = new TypeIdGenerator(finalOptions);
+         this.typeIdGenerators.set(key, generator);
+      }
+      return generator;
+   }
+
+   /**
+    * Gets the cached Snowflake generator for the given options, creating it on first use
+    * Generators are keyed by the resolved fields that define their ID space
+    * (epoch, layout, tick duration, worker and process IDs, node ID provider),
+    * so options that only differ by omitted defaults share the same generator.
+    * The node ID provider is only consulted by the generator, so a released
+    * lease fails generation rather than the lookup. Two generators never
+    * mint IDs for the same node, so behavioural options (clock regression and
+    * sequence exhaustion handling) are taken from the first call for a given
+    * node until configure() rebuilds the generators. Generators always
+    * produce decimal IDs - the requested encoding is applied by encodeSnowflake()
+    */
+   private getSnowflakeGenerator(
+      options?: SnowflakeOptions
+   ): SnowflakeGenerator {
+      const { epoch, layout, tickDuration, workerId, processId } =
+         resolveSnowflakeConfig(options);
+      const key = JSON.stringify([
+         epoch,
+         layout,
+         tickDuration,
+         workerId,
+         processId,
+         this.getInstanceKey(options?.nodeIdProvider),
+      ]);
+      let generator = this.snowflakeGenerators.get(key);
+      if (!generator) {
+         generator = new SnowflakeGenerator({
+            ...options,
+            encoding: undefined,
+         });
+         const retired = this.retiredSnowflakeGenerators.get(key);
+         if (retired) {
+            generator.continueFrom(retired);
+            this.retiredSnowflakeGenerators.delete(key);
+         }
+         this.snowflakeGenerators.set(key, generator);
+      }
+      return generator;
+   }
+
+   /**
+    * Drops the cached Snowflake generators so that they are rebuilt with the
+    * new options. Their replacements continue their sequences, so a node
+    * never repeats an ID across reconfigurations
+    */
+   private retireSnowflakeGenerators(): void {
+      for (const [key, generator] of this.snowflakeGenerators) {
+         this.retiredSnowflakeGenerators.set(key, generator);
+      }
+      this.snowflakeGenerators.clear();
+   }
+
+   /**
+    * Numbers provider instances, so cached generators can be keyed by them
+    * @returns 0 without an instance, otherwise a number unique to the instance
+    */
+   private getInstanceKey(instance?: object): number {
+      if (!instance) {
+         return 0;
+      }
+      let key = this.instanceKeys.get(instance);
+      if (key === undefined) {
+         key = ++this.instanceCount;
+         this.instanceKeys.set(instance, key);
+      }
+      return key;
+   }
+
+   /**
+    * Converts a decimal Snowflake ID to the requested encoding
+    */
+   private encodeSnowflake(
+      id: Snowflake,
+      encoding?: StringIdEncoding
+   ): Snowflake {
+      return encoding && encoding !== 'decimal'
+         ? (encodeId(id, encoding, { bits: 64 }) as Snowflake)
+         : id;
+   }
+
    /**
     * Creates an ID generator instance based on the specified type
+    * Custom types are created by their registered factory
     * @param type The ID generator type
     * @param options ID generator configuration
     * @returns An IIdGenerator implementation
-    * @throws Error if the generator type is not supported
+    * @throws UnsupportedGeneratorError if the generator type is not supported
     */
    private createGenerator(
       type: IdGeneratorType,
@@ -191,17 +1188,46 @@ export class IdService {
    ): IIdGenerator {
       switch (type) {
          case 'uuidv4':
-            return new UuidV4Generator();
+            return new UuidV4Generator(this.withProviders(options.uuidv4));
          case 'uuidv7':
-            throw new Error('UUIDv7 generator not yet implemented');
-         case 'snowflake':
-            return new SnowflakeGenerator(options.snowflake);
+            return this.getUuidV7Generator();
+         case 'uuidv1':
+            return this.getUuidV1Generator();
+         case 'uuidv6':
+            return this.getUuidV6Generator();
+         case 'snowflake': {
+            const generator = this.getSnowflakeGenerator(
+               this.withProviders(options.snowflake)
+            );
+            const encoding = options.snowflake?.encoding;
+            if (!encoding || encoding === 'decimal') {
+               return generator;
+            }
+            return {
+               getId: () => this.encodeSnowflake(generator.getId(), encoding),
+               getIds: (count) =>
+                  generator
+                     .getIds(count)
+                     .map((id) => this.encodeSnowflake(id, encoding)),
+            };
+         }
          case 'cuid':
-            throw new Error('CUID generator not yet implemented');
+            return this.getCuidGenerator(options.cuid);
          case 'nanoid':
-            return new NanoIdGenerator(options.nanoid);
-         default:
-            return new UuidV4Generator();
+            return new NanoIdGenerator(this.withProviders(options.nanoid));
+         case 'ulid':
+            return this.getUlidGenerator();
+         case 'typeid':
+            return this.getTypeIdGenerator(options.typeid);
+         case 'ksuid':
+            return new KsuidGenerator(this.withProviders(options.ksuid));
+         default: {
+            const factory = IdService.generatorFactories.get(type);
+            if (!factory) {
+               throw new UnsupportedGeneratorError(type);
+            }
+            return factory(options);
+         }
       }
    }
 }
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'bun:test';
+import {
+   CollisionRiskOptions,
+   estimateCollisionRisk,
+   estimateSnowflakeCapacity,
+   getCollisionProbability,
+   recommendNanoIdSize,
+} from './collision-risk';
+import { FixedClock } from '../providers/clock.provider';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+
+describe('estimateCollisionRisk', () => {
+   const volume = { idsPerHour: 1000, years: 5 };
+
+   it('should compute the risk of NanoIds', () => {
+      const risk = estimateCollisionRisk({ type: 'nanoid', size: 8 }, volume);
+
+      expect(risk.entropyBits).toBe(48);
+      expect(risk.totalIds).toBe(43830000);
+      expect(risk.expectedCollisions).toBeCloseTo(3.4125, 4);
+      expect(risk.collisionProbability).toBeCloseTo(0.967, 3);
+   });
+
+   it('should use the default NanoId alphabet and size', () => {
+      const risk = estimateCollisionRisk({ type: 'nanoid' }, volume);
+
+      expect(risk.entropyBits).toBe(126);
+      expect(risk.collisionProbability).toBeLessThan(1e-20);
+   });
+
+   it('should account for custom alphabets', () => {
+      const risk = estimateCollisionRisk(
+         { type: 'nanoid', alphabet: '0123456789', size: 10 },
+         { idsPerHour: 10, years: 1 }
+      );
+
+      expect(risk.entropyBits).toBeCloseTo(33.22, 2);
+      expect(risk.totalIds).toBe(87660);
+   });
+
+   it('should compute the risk of UUID v4', () => {
+      const risk = estimateCollisionRisk(
+         { type: 'uuidv4' },
+         { idsPerHour: 1e9, years: 10 }
+      );
+
+      expect(risk.entropyBits).toBe(122);
+      expect(risk.collisionProbability).toBeCloseTo(7.2263e-10, 13);
+   });
+
+   it('should report Snowflake capacity instead of a collision risk', () => {
+      const risk = estimateCollisionRisk(
+         { type: 'snowflake', preset: 'twitter' },
+         volume
+      );
+
+      expect(risk.collisionProbability).toBe(0);
+      expect(risk.snowflake?.idsPerSecondPerNode).toBe(4096000);
+      expect(risk.snowflake?.sufficient).toBe(true);
+   });
+
+   it('should reject invalid volumes', () => {
+      expect(() =>
+         estimateCollisionRisk({ type: 'uuidv4' }, { idsPerHour: -1, years: 1 })
+      ).toThrow('idsPerHour must be a non-negative number');
+      expect(() =>
+         estimateCollisionRisk({ type: 'uuidv4' }, { idsPerHour: 1, years: 0 })
+      ).toThrow('years must be a positive number');
+   });
+
+   it('should reject unsupported formats', () => {
+      expect(() =>
+         estimateCollisionRisk(
+            { type: 'cuid' } as unknown as CollisionRiskOptions,
+            volume
+         )
+      ).toThrow(IdConfigurationError);
+   });
+});
+
+describe('estimateSnowflakeCapacity', () => {
+   it('should compute the capacity of the default layout', () => {
+      const capacity = estimateSnowflakeCapacity({
+         clock: new FixedClock(new Date('2025-01-01T00:00:00.000Z')),
+      });
+
+      expect(capacity.idsPerSecondPerNode).toBe(4096000);
+      expect(capacity.maxNodes).toBe(1024);
+      expect(capacity.overflowDate.toISOString()).toBe(
+         '2094-08-07T15:47:35.552Z'
+      );
+      expect(capacity.yearsUntilOverflow).toBeCloseTo(69.6, 1);
+      expect(capacity.nodesRequired).toBeUndefined();
+   });
+
+   it('should account for tick duration and layout', () => {
+      const capacity = estimateSnowflakeCapacity({ preset: 'sonyflake' });
+
+      expect(capacity.idsPerSecondPerNode).toBe(25600);
+      expect(capacity.maxNodes).toBe(65536);
+      expect(capacity.overflowDate.getUTCFullYear()).toBe(2188);
+   });
+
+   it('should check whether the layout sustains a volume', () => {
+      const layout = {
+         timestampBits: 41,
+         workerIdBits: 2,
+         processIdBits: 0,
+         sequenceBits: 4,
+      };
+
+      expect(
+         estimateSnowflakeCapacity(
+            { layout },
+            { idsPerHour: 16000 * 3600 * 3, years: 1 }
+         )
+      ).toMatchObject({ nodesRequired: 3, sufficient: true });
+      expect(
+         estimateSnowflakeCapacity(
+            { layout },
+            { idsPerHour: 16000 * 3600 * 5, years: 1 }
+         )
+      ).toMatchObject({ nodesRequired: 5, sufficient: false });
+      expect(
+         estimateSnowflakeCapacity({ layout }, { idsPerHour: 1, years: 200 })
+            .sufficient
+      ).toBe(false);
+   });
+});
+
+describe('recommendNanoIdSize', () => {
+   const volume = { idsPerHour: 1000, years: 5 };
+
+   it('should find the shortest size for the default target', () => {
+      const size = recommendNanoIdSize(volume);
+
+      expect(size).toBe(12);
+      expect(
+         estimateCollisionRisk({ type: 'nanoid', size }, volume)
+            .collisionProbability
+      ).toBeLessThanOrEqual(1e-6);
+      expect(
+         estimateCollisionRisk({ type: 'nanoid', size: size - 1 }, volume)
+            .collisionProbability
+      ).toBeGreaterThan(1e-6);
+   });
+
+   it('should honour the alphabet and target probability', () => {
+      expect(
+         recommendNanoIdSize(volume, {
+            alphabet: '0123456789',
+            maxCollisionProbability: 0.01,
+         })
+      ).toBe(17);
+   });
+
+   it('should reject invalid targets and alphabets', () => {
+      expect(() =>
+         recommendNanoIdSize(volume, { maxCollisionProbability: 0 })
+      ).toThrow(
+         'Target collision probability must be between 0 and 1 (exclusive)'
+      );
+      expect(() => recommendNanoIdSize(volume, { alphabet: 'a' })).toThrow(
+         'NanoId alphabet must contain at least 2 characters'
+      );
+   });
+});
+
+describe('getCollisionProbability', () => {
+   it('should follow the birthday bound', () => {
+      expect(getCollisionProbability(0, 8)).toBe(0);
+      expect(getCollisionProbability(1, 8)).toBe(0);
+      // 23 people, 365 days
+      expect(getCollisionProbability(23, Math.log2(365))).toBeCloseTo(0.5, 1);
+   });
+});
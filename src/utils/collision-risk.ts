@@ -0,0 +1,309 @@
+import { urlAlphabet } from 'nanoid';
+import type {
+   NanoIdOptions,
+   SnowflakeOptions,
+} from '../interfaces/id-generator.interface';
+import { resolveSnowflakeConfig } from '../generators/snowflake-layout';
+import { SystemClock } from '../providers/clock.provider';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+
+/**
+ * Default collision probability considered acceptable for random IDs
+ * (one in a million over the whole data set)
+ */
+export const MAX_NANOID_COLLISION_PROBABILITY = 1e-6;
+
+/**
+ * Random bits of a UUID v4 (128 bits minus version and variant)
+ */
+export const UUID_V4_ENTROPY_BITS = 122;
+
+const MS_PER_HOUR = 3600000;
+const MS_PER_YEAR = 365.25 * 24 * MS_PER_HOUR;
+
+/**
+ * ID format to analyse with estimateCollisionRisk()
+ */
+export type CollisionRiskOptions =
+   | ({ type: 'nanoid' } & Pick<NanoIdOptions, 'alphabet' | 'size'>)
+   | { type: 'uuidv4' }
+   | ({ type: 'snowflake' } & SnowflakeOptions);
+
+/**
+ * Expected ID volume
+ */
+export interface IdVolume {
+   /**
+    * IDs generated per hour, across all nodes
+    */
+   idsPerHour: number;
+
+   /**
+    * Lifetime of the data set in years
+    */
+   years: number;
+}
+
+/**
+ * Collision risk of an ID format for a given volume
+ */
+export interface CollisionRisk {
+   /**
+    * Random bits per ID (0 for Snowflake IDs, which are unique by construction)
+    */
+   entropyBits: number;
+
+   /**
+    * Total number of IDs over the lifetime
+    */
+   totalIds: number;
+
+   /**
+    * Probability of at least one collision (birthday bound)
+    */
+   collisionProbability: number;
+
+   /**
+    * Expected number of colliding pairs
+    */
+   expectedCollisions: number;
+
+   /**
+    * Capacity of the Snowflake layout (Snowflake only)
+    */
+   snowflake?: SnowflakeCapacity;
+}
+
+/**
+ * Capacity of a Snowflake layout
+ */
+export interface SnowflakeCapacity {
+   /**
+    * Maximum IDs per second a single node can issue
+    */
+   idsPerSecondPerNode: number;
+
+   /**
+    * Number of distinct nodes (worker and process ID combinations)
+    */
+   maxNodes: number;
+
+   /**
+    * Date at which the timestamp field overflows for the epoch
+    */
+   overflowDate: Date;
+
+   /**
+    * Years left until the timestamp field overflows
+    */
+   yearsUntilOverflow: number;
+
+   /**
+    * Nodes needed to sustain the requested volume (only with a volume)
+    */
+   nodesRequired?: number;
+
+   /**
+    * Whether the layout sustains the requested volume for the requested
+    * lifetime with the available nodes (only with a volume)
+    */
+   sufficient?: boolean;
+}
+
+/**
+ * Estimates the collision risk of an ID format for an expected volume
+ * Random formats (NanoId, UUID v4) use the birthday bound. Snowflake IDs cannot
+ * collide while every node has its own worker and process ID, so their report
+ * focuses on the layout capacity instead
+ * @param options The ID format to analyse
+ * @param volume Expected IDs per hour and lifetime in years
+ * @returns Entropy, collision probability and, for Snowflake, capacity
+ * @throws IdConfigurationError if the format or the volume is invalid
+ * @example
+ * const risk = estimateCollisionRisk(
+ *   { type: 'nanoid', size: 8 },
+ *   { idsPerHour: 1000, years: 5 }
+ * );
+ * // { entropyBits: 48, totalIds: 43830000, collisionProbability: 0.967..., ... }
+ */
+export function estimateCollisionRisk(
+   options: CollisionRiskOptions,
+   volume: IdVolume
+): CollisionRisk {
+   const totalIds = getTotalIds(volume);
+
+   switch (options.type) {
+      case 'nanoid':
+         return getRandomIdRisk(
+            getNanoIdEntropyBits(
+               options.alphabet ?? urlAlphabet,
+               options.size ?? 21
+            ),
+            totalIds
+         );
+      case 'uuidv4':
+         return getRandomIdRisk(UUID_V4_ENTROPY_BITS, totalIds);
+      case 'snowflake':
+         return {
+            entropyBits: 0,
+            totalIds,
+            collisionProbability: 0,
+            expectedCollisions: 0,
+            snowflake: estimateSnowflakeCapacity(options, volume),
+         };
+      default:
+         throw new IdConfigurationError(
+            `Cannot estimate the collision risk of '${(options as { type: string }).type}' IDs`
+         );
+   }
+}
+
+/**
+ * Computes the capacity of a Snowflake layout
+ * @param options Snowflake configuration options (preset, layout, epoch, tick duration)
+ * @param volume Optional expected volume, to check whether the layout sustains it
+ * @returns Throughput per node, node count and timestamp overflow
+ * @throws IdConfigurationError if the options or the volume are invalid
+ * @example
+ * estimateSnowflakeCapacity({ preset: 'sonyflake' });
+ * // { idsPerSecondPerNode: 25600, maxNodes: 65536, overflowDate: 2188-..., ... }
+ */
+export function estimateSnowflakeCapacity(
+   options?: SnowflakeOptions,
+   volume?: IdVolume
+): SnowflakeCapacity {
+   const { epoch, layout, tickDuration } = resolveSnowflakeConfig(options);
+   const now = (options?.clock ?? new SystemClock()).now();
+
+   const idsPerSecondPerNode = 2 ** layout.sequenceBits * (1000 / tickDuration);
+   const maxNodes = 2 ** (layout.workerIdBits + layout.processIdBits);
+   const overflowTime = epoch + 2 ** layout.timestampBits * tickDuration;
+   const capacity: SnowflakeCapacity = {
+      idsPerSecondPerNode,
+      maxNodes,
+      overflowDate: new Date(overflowTime),
+      yearsUntilOverflow: (overflowTime - now) / MS_PER_YEAR,
+   };
+
+   if (volume) {
+      getTotalIds(volume);
+      const nodesRequired = Math.ceil(
+         volume.idsPerHour / (idsPerSecondPerNode * 3600)
+      );
+      capacity.nodesRequired = nodesRequired;
+      capacity.sufficient =
+         nodesRequired <= maxNodes &&
+         volume.years <= capacity.yearsUntilOverflow;
+   }
+
+   return capacity;
+}
+
+/**
+ * Finds the shortest NanoId size that keeps the collision probability at or
+ * below a target for an expected volume
+ * @param volume Expected IDs per hour and lifetime in years
+ * @param options Optional alphabet (default: URL-friendly alphabet) and target
+ * probability (default: one in a million)
+ * @returns The minimum NanoId size
+ * @throws IdConfigurationError if the volume, alphabet or target is invalid
+ * @example
+ * recommendNanoIdSize({ idsPerHour: 1000, years: 5 }); // 12
+ * recommendNanoIdSize(
+ *   { idsPerHour: 1000, years: 5 },
+ *   { alphabet: '0123456789', maxCollisionProbability: 0.01 }
+ * ); // 17
+ */
+export function recommendNanoIdSize(
+   volume: IdVolume,
+   options?: { alphabet?: string; maxCollisionProbability?: number }
+): number {
+   const totalIds = getTotalIds(volume);
+   const alphabet = options?.alphabet ?? urlAlphabet;
+   const target =
+      options?.maxCollisionProbability ?? MAX_NANOID_COLLISION_PROBABILITY;
+
+   if (alphabet.length < 2) {
+      throw new IdConfigurationError(
+         'NanoId alphabet must contain at least 2 characters'
+      );
+   }
+   if (!(target > 0 && target < 1)) {
+      throw new IdConfigurationError(
+         'Target collision probability must be between 0 and 1 (exclusive)'
+      );
+   }
+
+   let size = 1;
+   while (
+      getCollisionProbability(totalIds, getNanoIdEntropyBits(alphabet, size)) >
+      target
+   ) {
+      size++;
+   }
+   return size;
+}
+
+/**
+ * Computes the birthday-bound probability of at least one collision
+ * @param ids Number of IDs
+ * @param entropyBits Random bits per ID
+ * @returns The probability, between 0 and 1
+ * @example
+ * getCollisionProbability(10000, 26.58); // ~0.39
+ */
+export function getCollisionProbability(
+   ids: number,
+   entropyBits: number
+): number {
+   return -Math.expm1(-getExpectedCollisions(ids, entropyBits));
+}
+
+/**
+ * Computes the random bits of a NanoId
+ * @param alphabet The alphabet
+ * @param size The ID length
+ * @returns size * log2(alphabet length)
+ */
+export function getNanoIdEntropyBits(alphabet: string, size: number): number {
+   return size * Math.log2(alphabet.length);
+}
+
+/**
+ * Builds the risk report of a random ID format
+ */
+function getRandomIdRisk(entropyBits: number, totalIds: number): CollisionRisk {
+   return {
+      entropyBits,
+      totalIds,
+      collisionProbability: getCollisionProbability(totalIds, entropyBits),
+      expectedCollisions: getExpectedCollisions(totalIds, entropyBits),
+   };
+}
+
+/**
+ * Computes the expected number of colliding pairs: n(n-1) / 2N
+ */
+function getExpectedCollisions(ids: number, entropyBits: number): number {
+   if (ids < 2) {
+      return 0;
+   }
+   return (ids * (ids - 1)) / 2 / 2 ** entropyBits;
+}
+
+/**
+ * Validates a volume and computes its total number of IDs
+ */
+function getTotalIds(volume: IdVolume): number {
+   if (!Number.isFinite(volume.idsPerHour) || volume.idsPerHour < 0) {
+      throw new IdConfigurationError(
+         'idsPerHour must be a non-negative number'
+      );
+   }
+   if (!Number.isFinite(volume.years) || volume.years <= 0) {
+      throw new IdConfigurationError('years must be a positive number');
+   }
+   return Math.round(
+      volume.idsPerHour * volume.years * (MS_PER_YEAR / MS_PER_HOUR)
+   );
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'bun:test';
+import {
+   encodeCrockfordBase32,
+   decodeCrockfordBase32,
+} from './crockford-base32';
+
+describe('Crockford Base32', () => {
+   it('should encode values', () => {
+      expect(encodeCrockfordBase32(0n)).toBe('0');
+      expect(encodeCrockfordBase32(31n)).toBe('Z');
+      expect(encodeCrockfordBase32(1234n)).toBe('16J');
+   });
+
+   it('should pad to a fixed length', () => {
+      expect(encodeCrockfordBase32(1234n, 10)).toBe('000000016J');
+   });
+
+   it('should throw when the value does not fit the length', () => {
+      expect(() => encodeCrockfordBase32(1024n, 2)).toThrow(
+         'Value does not fit in 2 Crockford Base32 characters'
+      );
+   });
+
+   it('should throw for negative values', () => {
+      expect(() => encodeCrockfordBase32(-1n)).toThrow(
+         'Crockford Base32 can only encode non-negative values'
+      );
+   });
+
+   it('should decode case-insensitively with Crockford aliases', () => {
+      expect(decodeCrockfordBase32('16J')).toBe(1234n);
+      expect(decodeCrockfordBase32('16j')).toBe(1234n);
+      expect(decodeCrockfordBase32('OIL')).toBe(decodeCrockfordBase32('011'));
+      expect(decodeCrockfordBase32('1-6-J')).toBe(1234n);
+   });
+
+   it('should round-trip 128-bit values', () => {
+      const value = (1n << 128n) - 1n;
+      const encoded = encodeCrockfordBase32(value, 26);
+
+      expect(encoded).toBe('7ZZZZZZZZZZZZZZZZZZZZZZZZZ');
+      expect(decodeCrockfordBase32(encoded)).toBe(value);
+   });
+
+   it('should throw for invalid characters', () => {
+      expect(() => decodeCrockfordBase32('U')).toThrow(
+         "Invalid Crockford Base32 character: 'U'"
+      );
+      expect(() => decodeCrockfordBase32('')).toThrow(
+         'Cannot decode an empty Crockford Base32 string'
+      );
+   });
+});
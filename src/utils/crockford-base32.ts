@@ -0,0 +1,77 @@
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * Crockford Base32 alphabet (excludes I, L, O and U)
+ */
+export const CROCKFORD_BASE32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Encodes a non-negative integer as Crockford Base32
+ * @param value The value to encode
+ * @param length Optional fixed output length (left-padded with '0')
+ * @returns The Crockford Base32 string (uppercase)
+ * @throws InvalidIdError if the value is negative or does not fit in the given length
+ * @example
+ * encodeCrockfordBase32(1234n); // '16J'
+ * encodeCrockfordBase32(1234n, 10); // '000000016J'
+ */
+export function encodeCrockfordBase32(value: bigint, length?: number): string {
+   if (value < 0n) {
+      throw new InvalidIdError(
+         'Crockford Base32 can only encode non-negative values'
+      );
+   }
+
+   let encoded = '';
+   let remaining = value;
+   do {
+      encoded = CROCKFORD_BASE32_ALPHABET[Number(remaining & 31n)] + encoded;
+      remaining >>= 5n;
+   } while (remaining > 0n);
+
+   if (length === undefined) {
+      return encoded;
+   }
+   if (encoded.length > length) {
+      throw new InvalidIdError(
+         `Value does not fit in ${length} Crockford Base32 characters`
+      );
+   }
+   return encoded.padStart(length, '0');
+}
+
+/**
+ * Decodes a Crockford Base32 string into an integer
+ * Decoding is case-insensitive, maps I/L to 1 and O to 0, and ignores hyphens
+ * @param input The Crockford Base32 string
+ * @returns The decoded value
+ * @throws InvalidIdError if the input contains invalid characters
+ * @example
+ * decodeCrockfordBase32('16J'); // 1234n
+ * decodeCrockfordBase32('16j'); // 1234n
+ */
+export function decodeCrockfordBase32(input: string): bigint {
+   const normalized = input
+      .replace(/-/g, '')
+      .toUpperCase()
+      .replace(/[IL]/g, '1')
+      .replace(/O/g, '0');
+
+   if (normalized.length === 0) {
+      throw new InvalidIdError(
+         'Cannot decode an empty Crockford Base32 string'
+      );
+   }
+
+   let value = 0n;
+   for (const char of normalized) {
+      const digit = CROCKFORD_BASE32_ALPHABET.indexOf(char);
+      if (digit === -1) {
+         throw new InvalidIdError(
+            `Invalid Crockford Base32 character: '${char}'`
+         );
+      }
+      value = (value << 5n) | BigInt(digit);
+   }
+   return value;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'bun:test';
+import { generateIds } from './generate-ids';
+
+describe('generateIds', () => {
+   it('should fall back to getId() in a loop', () => {
+      let counter = 0;
+      const generator = { getId: () => `id-${counter++}` };
+
+      expect(generateIds(generator, 3)).toEqual(['id-0', 'id-1', 'id-2']);
+   });
+
+   it('should use getIds() when available', () => {
+      const generator = {
+         getId: () => 'single',
+         getIds: (count: number) => Array(count).fill('batch'),
+      };
+
+      expect(generateIds(generator, 2)).toEqual(['batch', 'batch']);
+   });
+
+   it('should throw error for invalid counts', () => {
+      const generator = { getId: () => 'id' };
+
+      expect(() => generateIds(generator, -1)).toThrow(
+         'Count must be a non-negative integer'
+      );
+      expect(() => generateIds(generator, NaN)).toThrow(
+         'Count must be a non-negative integer'
+      );
+   });
+});
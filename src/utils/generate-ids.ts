@@ -0,0 +1,41 @@
+import { IIdGenerator } from '../interfaces/id-generator.interface';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+
+/**
+ * Generates multiple IDs with any generator
+ * Uses the generator's optimised getIds() when available,
+ * otherwise calls getId() in a loop
+ * @param generator The ID generator
+ * @param count The number of IDs to generate
+ * @returns The generated IDs, in generation order
+ * @throws IdConfigurationError if count is not a non-negative integer
+ * @example
+ * const ids = generateIds(new UuidV4Generator(), 1000);
+ */
+export function generateIds<T extends string>(
+   generator: IIdGenerator<T>,
+   count: number
+): T[] {
+   assertValidCount(count);
+
+   if (generator.getIds) {
+      return generator.getIds(count);
+   }
+
+   const ids: T[] = [];
+   for (let i = 0; i < count; i++) {
+      ids.push(generator.getId());
+   }
+   return ids;
+}
+
+/**
+ * Validates the number of IDs requested from a batch method
+ * @param count The number of IDs requested
+ * @throws IdConfigurationError if count is not a non-negative integer
+ */
+export function assertValidCount(count: number): void {
+   if (!Number.isInteger(count) || count < 0) {
+      throw new IdConfigurationError('Count must be a non-negative integer');
+   }
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'bun:test';
+import { encodeId, decodeId } from './id-encoding';
+import { SnowflakeGenerator } from '../generators/snowflake-generator';
+import { UuidV7Generator } from '../generators/uuid-v7-generator';
+import { FixedClock } from '../providers/clock.provider';
+import type { StringIdEncoding } from '../interfaces/id-generator.interface';
+
+const STRING_ENCODINGS: StringIdEncoding[] = [
+   'decimal',
+   'hex',
+   'base32',
+   'base58',
+   'base62',
+   'base64url',
+];
+
+describe('ID encoding', () => {
+   describe('Snowflake values', () => {
+      const id = '1234567890123456789';
+
+      it('should encode in every representation', () => {
+         expect(encodeId(id, 'decimal')).toBe(id);
+         expect(encodeId(id, 'hex')).toBe('112210f47de98115');
+         expect(encodeId(id, 'base32')).toBe('128GGYHYYK08N');
+         expect(encodeId(id, 'base58')).toBe('3sDK21t5nHJ');
+         expect(encodeId(id, 'base62')).toBe('1TCKi1nFuNh');
+         expect(encodeId(id, 'base64url')).toBe('ESIQ9H3pgRU');
+         expect(encodeId(id, 'bigint')).toBe(1234567890123456789n);
+         expect(encodeId(id, 'bytes')).toEqual(
+            new Uint8Array([0x11, 0x22, 0x10, 0xf4, 0x7d, 0xe9, 0x81, 0x15])
+         );
+      });
+
+      it('should round-trip losslessly', () => {
+         for (const encoding of STRING_ENCODINGS) {
+            const decoded = decodeId(encodeId(id, encoding), encoding);
+            expect(encodeId(decoded, 'decimal')).toBe(id);
+         }
+         expect(decodeId(encodeId(id, 'bytes'), 'bytes')).toBe(BigInt(id));
+         expect(decodeId(encodeId(id, 'bigint'), 'bigint')).toBe(BigInt(id));
+      });
+
+      it('should pad small values to 64 bits', () => {
+         expect(encodeId(1n, 'base62')).toBe('00000000001');
+         expect(encodeId(1n, 'base58')).toBe('11111111112');
+         expect(encodeId(1n, 'hex')).toBe('0000000000000001');
+         expect(encodeId(1n, 'bytes')).toHaveLength(8);
+      });
+   });
+
+   describe('UUID values', () => {
+      const uuid = '018c3e5a-8b3e-7a1c-9f2d-3b4c5d6e7f80';
+
+      it('should encode with a 128-bit width', () => {
+         expect(encodeId(uuid, 'base62')).toHaveLength(22);
+         expect(encodeId(uuid, 'base58')).toHaveLength(22);
+         expect(encodeId(uuid, 'base32')).toHaveLength(26);
+         expect(encodeId(uuid, 'base64url')).toBe('AYw-Wos-ehyfLTtMXW5_gA');
+         expect(encodeId(uuid, 'bytes')).toHaveLength(16);
+      });
+
+      it('should round-trip to the canonical UUID', () => {
+         for (const encoding of STRING_ENCODINGS) {
+            const decoded = decodeId(encodeId(uuid, encoding), encoding);
+            expect(encodeId(decoded, 'uuid')).toBe(uuid);
+         }
+      });
+
+      it('should format small values as UUIDs', () => {
+         expect(encodeId(0n, 'uuid')).toBe(
+            '00000000-0000-0000-0000-000000000000'
+         );
+      });
+   });
+
+   describe('Sort order', () => {
+      it('should preserve the order of Snowflake IDs', () => {
+         const generator = new SnowflakeGenerator();
+         const ids = [
+            ...generator.getIds(10),
+            ...new SnowflakeGenerator({
+               clock: new FixedClock(Date.now() + 86400000),
+            }).getIds(10),
+         ];
+
+         for (const encoding of [
+            'hex',
+            'base32',
+            'base58',
+            'base62',
+         ] as const) {
+            const encoded = ids.map((id) => encodeId(id, encoding));
+            expect([...encoded].sort()).toEqual(encoded);
+         }
+      });
+
+      it('should preserve the order of UUID v7s', () => {
+         const generator = new UuidV7Generator();
+         const ids = Array.from({ length: 100 }, () => generator.getId());
+
+         for (const encoding of [
+            'hex',
+            'base32',
+            'base58',
+            'base62',
+         ] as const) {
+            const encoded = ids.map((id) => encodeId(id, encoding));
+            expect([...encoded].sort()).toEqual(encoded);
+         }
+      });
+   });
+
+   describe('Bit width', () => {
+      it('should use the given width', () => {
+         expect(encodeId(255n, 'hex', { bits: 16 })).toBe('00ff');
+         expect(encodeId(255n, 'bytes', { bits: 16 })).toEqual(
+            new Uint8Array([0, 255])
+         );
+      });
+
+      it('should infer the width of byte arrays', () => {
+         expect(encodeId(new Uint8Array([1, 2, 3, 4]), 'hex')).toBe('01020304');
+      });
+
+      it('should reject values that do not fit', () => {
+         expect(() => encodeId(256n, 'hex', { bits: 8 })).toThrow(
+            'ID value does not fit in 8 bits'
+         );
+         expect(() => decodeId('zzzzzzzzzzzz', 'base62', { bits: 64 })).toThrow(
+            'ID value does not fit in 64 bits'
+         );
+         expect(() => encodeId(1n, 'hex', { bits: 12 })).toThrow(
+            'Bit width must be a positive multiple of 8'
+         );
+      });
+   });
+
+   describe('Invalid input', () => {
+      it('should reject non-canonical source IDs', () => {
+         expect(() => encodeId('abc', 'base62')).toThrow(
+            "Cannot encode 'abc': expected a decimal Snowflake or a UUID string"
+         );
+         expect(() => encodeId(-1n, 'base62')).toThrow(
+            'ID value must be non-negative'
+         );
+      });
+
+      it('should reject characters outside the alphabet', () => {
+         expect(() => decodeId('0OIl', 'base58')).toThrow(
+            "Invalid base58 character '0'"
+         );
+         expect(() => decodeId('abc!', 'base62')).toThrow(
+            "Invalid base62 character '!'"
+         );
+         expect(() => decodeId('xyz', 'hex')).toThrow("Invalid hex ID: 'xyz'");
+         expect(() => decodeId('a+b/', 'base64url')).toThrow(
+            "Invalid base64url ID: 'a+b/'"
+         );
+      });
+
+      it('should reject inputs of the wrong type', () => {
+         expect(() => decodeId('00ff', 'bytes')).toThrow(
+            "Encoding 'bytes' expects a Uint8Array"
+         );
+         expect(() => decodeId('255', 'bigint')).toThrow(
+            "Encoding 'bigint' expects a non-negative bigint"
+         );
+         expect(() => decodeId('', 'base62')).toThrow(
+            "Encoding 'base62' expects a non-empty string"
+         );
+      });
+   });
+});
@@ -0,0 +1,305 @@
+import type {
+   EncodedId,
+   IdEncoding,
+   IdEncodingOptions,
+} from '../interfaces/id-generator.interface';
+import {
+   decodeCrockfordBase32,
+   encodeCrockfordBase32,
+} from './crockford-base32';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * Base58 alphabet (Bitcoin), in ASCII order
+ */
+export const BASE58_ALPHABET =
+   '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Base62 alphabet, in ASCII order
+ */
+export const BASE62_ALPHABET =
+   '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/**
+ * ID value accepted by encodeId(): a bigint, big-endian bytes,
+ * or a canonical Snowflake (decimal) or UUID string
+ */
+export type IdValue = bigint | Uint8Array | string;
+
+const UUID_REGEX =
+   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DECIMAL_REGEX = /^\d+$/;
+const HEX_REGEX = /^[0-9a-f]+$/i;
+const BASE64URL_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Encodes an ID value in another representation
+ * Fixed-width encodings are padded to the bit width, so IDs of the same width
+ * keep their sort order in 'hex', 'base32', 'base58' and 'base62'
+ * @param id The ID as a bigint, big-endian bytes, or canonical Snowflake or UUID string
+ * @param encoding The target representation
+ * @param options Optional bit width (see IdEncodingOptions)
+ * @returns The encoded ID
+ * @throws InvalidIdError if the ID is invalid or does not fit in the bit width
+ * @example
+ * encodeId('1234567890123456789', 'base62'); // '1TCKi1nFuNh'
+ * encodeId('018c3e5a-8b3e-7a1c-9f2d-3b4c5d6e7f80', 'base58');
+ * encodeId('1234567890123456789', 'bytes'); // Uint8Array(8)
+ */
+export function encodeId<E extends IdEncoding>(
+   id: IdValue,
+   encoding: E,
+   options?: IdEncodingOptions
+): EncodedId<E> {
+   const value = toBigInt(id);
+   const bits =
+      encoding === 'uuid' ? 128 : (options?.bits ?? inferBits(id, value));
+   assertFits(value, bits);
+
+   return encodeValue(value, encoding, bits) as EncodedId<E>;
+}
+
+/**
+ * Decodes an ID from any representation into its integer value
+ * Use encodeId() on the result to convert it to another representation
+ * @param encoded The encoded ID (a Uint8Array for 'bytes', a bigint for 'bigint')
+ * @param encoding The representation of the encoded ID
+ * @param options Optional bit width the value must fit in
+ * @returns The ID value
+ * @throws InvalidIdError if the input is not valid for the encoding
+ * @example
+ * const value = decodeId('1TCKi1nFuNh', 'base62'); // 1234567890123456789n
+ * encodeId(value, 'decimal'); // '1234567890123456789'
+ */
+export function decodeId(
+   encoded: IdValue,
+   encoding: IdEncoding,
+   options?: IdEncodingOptions
+): bigint {
+   const value = decodeValue(encoded, encoding);
+   if (options?.bits !== undefined) {
+      assertFits(value, options.bits);
+   }
+   return value;
+}
+
+/**
+ * Encodes a value that fits in the given bit width
+ */
+function encodeValue(
+   value: bigint,
+   encoding: IdEncoding,
+   bits: number
+): bigint | Uint8Array | string {
+   switch (encoding) {
+      case 'bigint':
+         return value;
+      case 'bytes':
+         return toBytes(value, bits / 8);
+      case 'decimal':
+         return value.toString();
+      case 'uuid': {
+         const hex = value.toString(16).padStart(32, '0');
+         return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+      }
+      case 'hex':
+         return value.toString(16).padStart(bits / 4, '0');
+      case 'base32':
+         return encodeCrockfordBase32(value, getEncodedLength(bits, 32));
+      case 'base58':
+         return encodeRadix(value, BASE58_ALPHABET, bits);
+      case 'base62':
+         return encodeRadix(value, BASE62_ALPHABET, bits);
+      case 'base64url':
+         return Buffer.from(toBytes(value, bits / 8)).toString('base64url');
+      default:
+         throw new IdConfigurationError(`Unsupported encoding: '${encoding}'`);
+   }
+}
+
+/**
+ * Decodes the value of an encoded ID
+ */
+function decodeValue(encoded: IdValue, encoding: IdEncoding): bigint {
+   if (encoding === 'bytes') {
+      if (!(encoded instanceof Uint8Array)) {
+         throw new InvalidIdError("Encoding 'bytes' expects a Uint8Array");
+      }
+      return fromBytes(encoded);
+   }
+   if (encoding === 'bigint') {
+      if (typeof encoded !== 'bigint' || encoded < 0n) {
+         throw new InvalidIdError(
+            "Encoding 'bigint' expects a non-negative bigint"
+         );
+      }
+      return encoded;
+   }
+   if (typeof encoded !== 'string' || encoded.length === 0) {
+      throw new InvalidIdError(
+         `Encoding '${encoding}' expects a non-empty string`
+      );
+   }
+
+   switch (encoding) {
+      case 'decimal':
+         assertMatches(encoded, DECIMAL_REGEX, encoding);
+         return BigInt(encoded);
+      case 'uuid':
+         assertMatches(encoded, UUID_REGEX, encoding);
+         return BigInt(`0x${encoded.replace(/-/g, '')}`);
+      case 'hex':
+         assertMatches(encoded, HEX_REGEX, encoding);
+         return BigInt(`0x${encoded}`);
+      case 'base32':
+         return decodeCrockfordBase32(encoded);
+      case 'base58':
+         return decodeRadix(encoded, BASE58_ALPHABET, encoding);
+      case 'base62':
+         return decodeRadix(encoded, BASE62_ALPHABET, encoding);
+      case 'base64url':
+         assertMatches(encoded, BASE64URL_REGEX, encoding);
+         return fromBytes(Buffer.from(encoded, 'base64url'));
+      default:
+         throw new IdConfigurationError(`Unsupported encoding: '${encoding}'`);
+   }
+}
+
+/**
+ * Converts a bigint, bytes or canonical ID string to its integer value
+ */
+function toBigInt(id: IdValue): bigint {
+   if (typeof id === 'bigint') {
+      if (id < 0n) {
+         throw new InvalidIdError('ID value must be non-negative');
+      }
+      return id;
+   }
+   if (id instanceof Uint8Array) {
+      return fromBytes(id);
+   }
+   if (UUID_REGEX.test(id)) {
+      return BigInt(`0x${id.replace(/-/g, '')}`);
+   }
+   if (DECIMAL_REGEX.test(id)) {
+      return BigInt(id);
+   }
+   throw new InvalidIdError(
+      `Cannot encode '${id}': expected a decimal Snowflake or a UUID string`
+   );
+}
+
+/**
+ * Infers the bit width of an ID when no width is given
+ */
+function inferBits(id: IdValue, value: bigint): number {
+   if (id instanceof Uint8Array) {
+      return id.length * 8;
+   }
+   if (typeof id === 'string' && UUID_REGEX.test(id)) {
+      return 128;
+   }
+   return value < 1n << 64n ? 64 : 128;
+}
+
+/**
+ * Validates the bit width and checks that the value fits in it
+ */
+function assertFits(value: bigint, bits: number): void {
+   if (!Number.isInteger(bits) || bits <= 0 || bits % 8 !== 0) {
+      throw new IdConfigurationError(
+         'Bit width must be a positive multiple of 8'
+      );
+   }
+   if (value >= 1n << BigInt(bits)) {
+      throw new InvalidIdError(`ID value does not fit in ${bits} bits`);
+   }
+}
+
+/**
+ * Checks that an encoded ID only uses the characters of its encoding
+ */
+function assertMatches(
+   input: string,
+   pattern: RegExp,
+   encoding: IdEncoding
+): void {
+   if (!pattern.test(input)) {
+      throw new InvalidIdError(`Invalid ${encoding} ID: '${input}'`);
+   }
+}
+
+/**
+ * Gets the number of digits needed to encode any value of the given bit width
+ */
+function getEncodedLength(bits: number, radix: number): number {
+   const max = 1n << BigInt(bits);
+   let length = 0;
+   for (let capacity = 1n; capacity < max; capacity *= BigInt(radix)) {
+      length++;
+   }
+   return length;
+}
+
+/**
+ * Encodes a value in the given alphabet, left-padded to the bit width
+ */
+function encodeRadix(value: bigint, alphabet: string, bits: number): string {
+   const radix = BigInt(alphabet.length);
+   let encoded = '';
+   let remaining = value;
+   while (remaining > 0n) {
+      encoded = alphabet[Number(remaining % radix)] + encoded;
+      remaining /= radix;
+   }
+   return encoded.padStart(
+      getEncodedLength(bits, alphabet.length),
+      alphabet[0]
+   );
+}
+
+/**
+ * Decodes a value from the given alphabet
+ */
+function decodeRadix(
+   input: string,
+   alphabet: string,
+   encoding: IdEncoding
+): bigint {
+   const radix = BigInt(alphabet.length);
+   let value = 0n;
+   for (const char of input) {
+      const index = alphabet.indexOf(char);
+      if (index === -1) {
+         throw new InvalidIdError(`Invalid ${encoding} character '${char}'`);
+      }
+      value = value * radix + BigInt(index);
+   }
+   return value;
+}
+
+/**
+ * Converts a value to big-endian bytes
+ */
+function toBytes(value: bigint, length: number): Uint8Array {
+   const bytes = new Uint8Array(length);
+   let remaining = value;
+   for (let i = length - 1; i >= 0; i--) {
+      bytes[i] = Number(remaining & 0xffn);
+      remaining >>= 8n;
+   }
+   return bytes;
+}
+
+/**
+ * Converts big-endian bytes to a value
+ */
+function fromBytes(bytes: Uint8Array): bigint {
+   let value = 0n;
+   for (const byte of bytes) {
+      value = (value << 8n) | BigInt(byte);
+   }
+   return value;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'bun:test';
+import { idRangeFor } from './id-range';
+import { SnowflakeGenerator } from '../generators/snowflake-generator';
+import { UuidV6Generator } from '../generators/uuid-v6-generator';
+import { UuidV7Generator } from '../generators/uuid-v7-generator';
+import { UlidGenerator } from '../generators/ulid-generator';
+import { TypeIdGenerator } from '../generators/typeid-generator';
+import { KsuidGenerator } from '../generators/ksuid-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import type { Snowflake } from '../interfaces/id-generator.interface';
+
+describe('idRangeFor', () => {
+   const from = new Date('2026-01-01T00:00:00Z');
+   const to = new Date('2026-01-01T00:00:01Z');
+
+   /**
+    * Mints one ID at each edge of the window and just outside of it
+    */
+   function mint(create: (clock: FixedClock) => { getId(): string }): {
+      inside: string[];
+      outside: string[];
+   } {
+      const at = (time: number) => create(new FixedClock(time)).getId();
+      return {
+         inside: [at(from.getTime()), at(to.getTime())],
+         outside: [at(from.getTime() - 1000), at(to.getTime() + 1000)],
+      };
+   }
+
+   it('should bound Snowflake IDs', () => {
+      const range = idRangeFor('snowflake', from, to);
+      const { inside, outside } = mint(
+         (clock) => new SnowflakeGenerator({ workerId: 31, clock })
+      );
+      const min = BigInt(range.min);
+      const max = BigInt(range.max);
+
+      const bound: Snowflake = range.min;
+      expect(bound).toBe('143505594777600000');
+      for (const id of inside) {
+         expect(BigInt(id) >= min && BigInt(id) <= max).toBe(true);
+      }
+      expect(BigInt(outside[0]) < min).toBe(true);
+      expect(BigInt(outside[1]) > max).toBe(true);
+   });
+
+   it('should follow the Snowflake layout and encoding', () => {
+      const snowflake = {
+         preset: 'sonyflake' as const,
+         encoding: 'hex' as const,
+      };
+      const range = idRangeFor('snowflake', from, to, { snowflake });
+      const { inside, outside } = mint(
+         (clock) => new SnowflakeGenerator({ ...snowflake, clock })
+      );
+
+      expect(range.min).toMatch(/^[0-9a-f]{16}$/);
+      expect(range.max.endsWith('ffffff')).toBe(true);
+      expect(inside.every((id) => id >= range.min && id <= range.max)).toBe(
+         true
+      );
+      expect(outside[0] < range.min && outside[1] > range.max).toBe(true);
+   });
+
+   it('should bound time-ordered UUIDs, ULIDs, TypeIDs and KSUIDs', () => {
+      const cases = [
+         {
+            range: idRangeFor('uuidv7', from, to),
+            create: (clock: FixedClock) => new UuidV7Generator({ clock }),
+         },
+         {
+            range: idRangeFor('uuidv6', from, to),
+            create: (clock: FixedClock) => new UuidV6Generator({ clock }),
+         },
+         {
+            range: idRangeFor('ulid', from, to),
+            create: (clock: FixedClock) => new UlidGenerator({ clock }),
+         },
+         {
+            range: idRangeFor('typeid', from, to, {
+               typeid: { prefix: 'user' },
+            }),
+            create: (clock: FixedClock) =>
+               new TypeIdGenerator({ prefix: 'user', clock }),
+         },
+         {
+            range: idRangeFor('ksuid', from, to),
+            create: (clock: FixedClock) => new KsuidGenerator({ clock }),
+         },
+      ];
+
+      for (const { range, create } of cases) {
+         const { inside, outside } = mint(create);
+         const [first, last] = inside;
+
+         expect(first >= range.min && last <= range.max).toBe(true);
+         expect(outside[0] < range.min && outside[1] > range.max).toBe(true);
+      }
+   });
+
+   it('should build canonical bounds', () => {
+      expect(idRangeFor('uuidv7', from, to)).toEqual({
+         min: '019b76da-a800-7000-8000-000000000000',
+         max: '019b76da-abe8-7fff-bfff-ffffffffffff',
+      });
+      expect(idRangeFor('ulid', 0, 0)).toEqual({
+         min: '00000000000000000000000000',
+         max: '0000000000ZZZZZZZZZZZZZZZZ',
+      });
+      expect(
+         idRangeFor('uuidv7', from, to, { uuidv7: { encoding: 'hex' } }).min
+      ).toBe('019b76daa80070008000000000000000');
+   });
+
+   it('should reject unsupported types and invalid windows', () => {
+      expect(() => idRangeFor('nanoid', from, to)).toThrow(
+         new IdConfigurationError(
+            "IDs of type 'nanoid' do not embed a sortable timestamp"
+         )
+      );
+      expect(() => idRangeFor('uuidv1', from, to)).toThrow(
+         IdConfigurationError
+      );
+      expect(() => idRangeFor('uuidv7', to, from)).toThrow(
+         new IdConfigurationError(
+            'Range start 2026-01-01T00:00:01.000Z is after its end 2026-01-01T00:00:00.000Z'
+         )
+      );
+      expect(() => idRangeFor('ksuid', 0, to)).toThrow(
+         'is out of the KSUID range'
+      );
+      expect(() => idRangeFor('ulid', -1, to)).toThrow(
+         'does not fit in the 48-bit ULID timestamp'
+      );
+      expect(() => idRangeFor('snowflake', NaN, to)).toThrow(
+         "Invalid date: 'NaN'"
+      );
+   });
+});
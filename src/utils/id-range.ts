@@ -0,0 +1,252 @@
+import type {
+   IdGeneratorOptions,
+   IdGeneratorType,
+   IdRange,
+   IdTypeMap,
+   StringIdEncoding,
+} from '../interfaces/id-generator.interface';
+import {
+   resolveSnowflakeConfig,
+   MAX_SNOWFLAKE_BITS,
+   snowflakeFromDate,
+} from '../generators/snowflake-layout';
+import { KSUID_EPOCH } from '../generators/ksuid-generator';
+import { encodeCrockfordBase32 } from './crockford-base32';
+import { encodeId } from './id-encoding';
+import { encodeTypeId } from './typeid';
+import { UUID_GREGORIAN_OFFSET } from './uuid';
+import {
+   validateKsuidOptions,
+   validateTypeIdOptions,
+   validateUuidOptions,
+} from './validate-options';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+
+/**
+ * Lower and upper bounds as integer values, before encoding
+ */
+interface ValueRange {
+   min: bigint;
+   max: bigint;
+}
+
+// Largest timestamp of the 48-bit UUID v7 and ULID timestamp fields
+const MAX_MS_TIMESTAMP = 2 ** 48 - 1;
+
+// RFC 9562 variant bits (10) at the top of the low 64 bits
+const UUID_VARIANT = 0b10n << 62n;
+const UUID_LOW_RANDOM = (1n << 62n) - 1n;
+
+/**
+ * Gets the smallest and largest IDs that can be minted within a time window
+ * Use the bounds in `WHERE id BETWEEN ? AND ?` queries on time-ordered primary
+ * keys. Both bounds are inclusive, at the precision of the ID type (one tick
+ * for Snowflake IDs, one second for KSUIDs, one millisecond otherwise)
+ *
+ * Supported types: 'snowflake', 'uuidv7', 'uuidv6', 'ulid', 'typeid' and
+ * 'ksuid'. Bounds follow the epoch, layout, prefix and encoding of the
+ * matching options section; encodings other than the canonical one only keep
+ * the ID order if they are order-preserving ('hex', 'base32', 'base58', 'base62')
+ * @param type The ID type
+ * @param from The start of the window, as a Date or a Unix timestamp in milliseconds
+ * @param to The end of the window, as a Date or a Unix timestamp in milliseconds
+ * @param options The options the IDs are minted with
+ * @returns The inclusive ID bounds
+ * @throws IdConfigurationError if the type does not embed a sortable
+ * timestamp, a date is invalid or out of range, or from is after to
+ * @example
+ * const { min, max } = idRangeFor(
+ *   'snowflake',
+ *   new Date('2025-12-01T00:00:00Z'),
+ *   new Date('2025-12-31T23:59:59.999Z')
+ * );
+ * await db.query('SELECT * FROM events WHERE id BETWEEN $1 AND $2', [min, max]);
+ */
+export function idRangeFor<K extends IdGeneratorType>(
+   type: K,
+   from: number | Date,
+   to: number | Date,
+   options?: IdGeneratorOptions
+): IdRange<IdTypeMap[K]> {
+   const start = toTimestamp(from);
+   const end = toTimestamp(to);
+   if (start > end) {
+      throw new IdConfigurationError(
+         `Range start ${new Date(start).toISOString()} is after its end ${new Date(end).toISOString()}`
+      );
+   }
+
+   return getRange(type, start, end, options) as IdRange<IdTypeMap[K]>;
+}
+
+/**
+ * Builds the encoded bounds of a supported ID type
+ */
+function getRange(
+   type: IdGeneratorType,
+   start: number,
+   end: number,
+   options?: IdGeneratorOptions
+): IdRange {
+   switch (type) {
+      case 'snowflake': {
+         const snowflake = { ...options?.snowflake, encoding: undefined };
+         const { layout } = resolveSnowflakeConfig({
+            preset: snowflake.preset,
+            layout: snowflake.layout,
+         });
+         const lowBits = BigInt(
+            layout.workerIdBits + layout.processIdBits + layout.sequenceBits
+         );
+         return encodeRange(
+            {
+               min: BigInt(snowflakeFromDate(start, snowflake)),
+               max:
+                  BigInt(snowflakeFromDate(end, snowflake)) |
+                  ((1n << lowBits) - 1n),
+            },
+            options?.snowflake?.encoding ?? 'decimal',
+            MAX_SNOWFLAKE_BITS
+         );
+      }
+      case 'uuidv7':
+         validateUuidOptions(options?.uuidv7);
+         return encodeRange(
+            getUuidV7Range(start, end),
+            options?.uuidv7?.encoding ?? 'uuid',
+            128
+         );
+      case 'uuidv6':
+         validateUuidOptions(options?.uuidv6);
+         return encodeRange(
+            getUuidV6Range(start, end),
+            options?.uuidv6?.encoding ?? 'uuid',
+            128
+         );
+      case 'typeid': {
+         validateTypeIdOptions(options?.typeid);
+         const prefix = options?.typeid?.prefix ?? '';
+         const { min, max } = encodeRange(
+            getUuidV7Range(start, end),
+            'uuid',
+            128
+         );
+         return {
+            min: encodeTypeId(prefix, min),
+            max: encodeTypeId(prefix, max),
+         };
+      }
+      case 'ulid':
+         assertMsTimestamp(start, 'ULID');
+         assertMsTimestamp(end, 'ULID');
+         return {
+            min:
+               encodeCrockfordBase32(BigInt(start), 10) +
+               encodeCrockfordBase32(0n, 16),
+            max:
+               encodeCrockfordBase32(BigInt(end), 10) +
+               encodeCrockfordBase32((1n << 80n) - 1n, 16),
+         };
+      case 'ksuid': {
+         validateKsuidOptions(options?.ksuid);
+         const epoch = options?.ksuid?.epoch ?? KSUID_EPOCH;
+         const toSeconds = (timestamp: number) => {
+            const seconds = Math.floor((timestamp - epoch) / 1000);
+            if (seconds < 0 || seconds > 2 ** 32 - 1) {
+               throw new IdConfigurationError(
+                  `Date ${new Date(timestamp).toISOString()} is out of the KSUID range: between the epoch and 2^32 seconds after it`
+               );
+            }
+            return BigInt(seconds) << 128n;
+         };
+         return encodeRange(
+            {
+               min: toSeconds(start),
+               max: toSeconds(end) | ((1n << 128n) - 1n),
+            },
+            'base62',
+            160
+         );
+      }
+      default:
+         throw new IdConfigurationError(
+            `IDs of type '${type}' do not embed a sortable timestamp`
+         );
+   }
+}
+
+/**
+ * Builds the UUID v7 bounds: version and variant set, counter and random bits
+ * all 0 in the lower bound and all 1 in the upper bound
+ */
+function getUuidV7Range(start: number, end: number): ValueRange {
+   assertMsTimestamp(start, 'UUID v7');
+   assertMsTimestamp(end, 'UUID v7');
+   return {
+      min: (BigInt(start) << 80n) | (0x7n << 76n) | UUID_VARIANT,
+      max:
+         (BigInt(end) << 80n) |
+         (0x7fffn << 64n) |
+         UUID_VARIANT |
+         UUID_LOW_RANDOM,
+   };
+}
+
+/**
+ * Builds the UUID v6 bounds: the first and last 100-nanosecond interval of
+ * the window, with clock sequence and node all 0 or all 1
+ */
+function getUuidV6Range(start: number, end: number): ValueRange {
+   const toValue = (timestamp: number, offset: bigint) => {
+      const ticks = BigInt(timestamp) * 10000n + offset + UUID_GREGORIAN_OFFSET;
+      if (ticks < 0n || ticks >= 1n << 60n) {
+         throw new IdConfigurationError(
+            `Date ${new Date(timestamp).toISOString()} does not fit in the 60-bit UUID v6 timestamp`
+         );
+      }
+      return (
+         ((ticks >> 12n) << 80n) | (0x6n << 76n) | ((ticks & 0xfffn) << 64n)
+      );
+   };
+   return {
+      min: toValue(start, 0n) | UUID_VARIANT,
+      max: toValue(end, 9999n) | UUID_VARIANT | UUID_LOW_RANDOM,
+   };
+}
+
+/**
+ * Encodes both bounds of a value range
+ */
+function encodeRange(
+   range: ValueRange,
+   encoding: StringIdEncoding,
+   bits: number
+): IdRange {
+   return {
+      min: encodeId(range.min, encoding, { bits }),
+      max: encodeId(range.max, encoding, { bits }),
+   };
+}
+
+/**
+ * Checks that a timestamp fits in a 48-bit Unix millisecond timestamp field
+ */
+function assertMsTimestamp(timestamp: number, format: string): void {
+   if (timestamp < 0 || timestamp > MAX_MS_TIMESTAMP) {
+      throw new IdConfigurationError(
+         `Date ${new Date(timestamp).toISOString()} does not fit in the 48-bit ${format} timestamp`
+      );
+   }
+}
+
+/**
+ * Converts a Date or Unix timestamp to whole milliseconds
+ */
+function toTimestamp(date: number | Date): number {
+   const timestamp = typeof date === 'number' ? date : date.getTime();
+   // Also rejects timestamps Date cannot represent
+   if (Number.isNaN(new Date(timestamp).getTime())) {
+      throw new IdConfigurationError(`Invalid date: '${date}'`);
+   }
+   return Math.floor(timestamp);
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'bun:test';
+import { inspect } from './inspect';
+import { SnowflakeGenerator } from '../generators/snowflake-generator';
+import { UlidGenerator } from '../generators/ulid-generator';
+import { UuidV7Generator } from '../generators/uuid-v7-generator';
+import { CuidGenerator } from '../generators/cuid-generator';
+import { NanoIdGenerator } from '../generators/nano-id-generator';
+import { FixedClock } from '../providers/clock.provider';
+import { encodeId } from './id-encoding';
+
+describe('inspect', () => {
+   describe('UUID', () => {
+      it('should detect UUID v4 with variant and randomness', () => {
+         const result = inspect('9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d');
+
+         expect(result).toEqual({
+            format: 'uuid',
+            id: '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d',
+            version: 4,
+            variant: 'rfc9562',
+            randomness: expect.any(String),
+         });
+      });
+
+      it('should decode the timestamp of a UUID v7', () => {
+         const generator = new UuidV7Generator({
+            clock: new FixedClock(1700000000000),
+         });
+         const result = inspect(generator.getId());
+
+         if (result.format !== 'uuid') {
+            throw new Error('Expected a UUID');
+         }
+         expect(result.version).toBe(7);
+         expect(result.timestamp).toBe(1700000000000);
+         expect(result.date?.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+         expect(result.randomness?.length).toBe(19);
+      });
+
+      it('should decode timestamp, clock sequence and node of UUID v1 and v6', () => {
+         const v1 = inspect('c232ab00-9414-11ec-b3c8-9f6bdeced846');
+         const v6 = inspect('1ec9414c-232a-6b00-b3c8-9f6bdeced846');
+
+         for (const result of [v1, v6]) {
+            if (result.format !== 'uuid') {
+               throw new Error('Expected a UUID');
+            }
+            expect(result.date?.toISOString()).toBe('2022-02-22T19:22:22.000Z');
+            expect(result.clockSequence).toBe(0x33c8);
+            expect(result.node).toBe('9f:6b:de:ce:d8:46');
+         }
+      });
+
+      it('should report the variant of nil and max UUIDs', () => {
+         expect(inspect('00000000-0000-0000-0000-000000000000')).toMatchObject({
+            version: 0,
+            variant: 'ncs',
+         });
+         expect(inspect('ffffffff-ffff-ffff-ffff-ffffffffffff')).toMatchObject({
+            version: 15,
+            variant: 'future',
+         });
+      });
+   });
+
+   describe('Snowflake', () => {
+      it('should decode with the default configuration', () => {
+         const generator = new SnowflakeGenerator({
+            workerId: 7,
+            processId: 3,
+         });
+         const result = inspect(generator.getId());
+
+         expect(result).toMatchObject({
+            format: 'snowflake',
+            workerId: 7,
+            processId: 3,
+         });
+      });
+
+      it('should decode with a custom epoch and layout', () => {
+         const result = inspect('175928847299117063', {
+            snowflake: { preset: 'discord' },
+         });
+
+         if (result.format !== 'snowflake') {
+            throw new Error('Expected a Snowflake');
+         }
+         expect(result.date.toISOString()).toBe('2016-04-30T11:18:25.796Z');
+      });
+
+      it('should decode IDs in the configured encoding', () => {
+         const snowflake = { preset: 'discord', encoding: 'base62' } as const;
+         const decimal = inspect('175928847299117063', { snowflake });
+         const encoded = inspect(
+            encodeId('175928847299117063', 'base62', { bits: 64 }),
+            { snowflake }
+         );
+
+         expect(decimal).toMatchObject({ format: 'snowflake' });
+         expect(encoded).toMatchObject({ format: 'snowflake' });
+         if (decimal.format !== 'snowflake' || encoded.format !== 'snowflake') {
+            throw new Error('Expected Snowflakes');
+         }
+         expect(decimal.date.toISOString()).toBe('2016-04-30T11:18:25.796Z');
+         expect(encoded.date).toEqual(decimal.date);
+         expect(inspect('V1StGXR8_Z', { snowflake }).format).toBe('nanoid');
+      });
+
+      it('should not treat values beyond 64 bits as Snowflakes', () => {
+         expect(inspect('18446744073709551616').format).not.toBe('snowflake');
+      });
+   });
+
+   describe('Other formats', () => {
+      it('should decode ULIDs', () => {
+         const generator = new UlidGenerator({
+            clock: new FixedClock(1469918176385),
+         });
+         const result = inspect(generator.getId());
+
+         expect(result).toMatchObject({
+            format: 'ulid',
+            timestamp: 1469918176385,
+         });
+      });
+
+      it('should decode prefixed TypeIDs', () => {
+         const result = inspect('user_01h455vb4pex5vsknk084sn02q');
+
+         expect(result).toMatchObject({
+            format: 'typeid',
+            prefix: 'user',
+            uuid: {
+               id: '01890a5d-ac96-774b-bcce-b302099a8057',
+               version: 7,
+               timestamp: 1688096058518,
+            },
+         });
+      });
+
+      it('should detect CUIDs', () => {
+         const id = new CuidGenerator().getId();
+
+         expect(inspect(id)).toEqual({ format: 'cuid', id, length: 24 });
+      });
+
+      it('should decode KSUIDs', () => {
+         expect(inspect('0ujtsYcgvSTl8PAuAdqWYSMnLOv')).toEqual({
+            format: 'ksuid',
+            id: '0ujtsYcgvSTl8PAuAdqWYSMnLOv',
+            timestamp: 1507608047000,
+            date: new Date('2017-10-10T04:00:47.000Z'),
+            payload: 'b5a1cd34b5f99d1154fb6853345c9735',
+         });
+         expect(
+            inspect('0ujtsYcgvSTl8PAuAdqWYSMnLOv', { ksuid: { epoch: 0 } })
+         ).toMatchObject({ timestamp: 107608047000 });
+         // Beyond 160 bits
+         expect(inspect('zZZZZZZZZZZZZZZZZZZZZZZZZZZ').format).toBe('nanoid');
+      });
+
+      it('should detect NanoId-like strings', () => {
+         const id = `A${new NanoIdGenerator().getId()}`;
+
+         expect(inspect(id)).toEqual({ format: 'nanoid', id, length: 22 });
+      });
+
+      it('should report unknown strings', () => {
+         expect(inspect('not an id!')).toEqual({
+            format: 'unknown',
+            id: 'not an id!',
+         });
+         expect(inspect('').format).toBe('unknown');
+      });
+   });
+});
@@ -0,0 +1,335 @@
+import type {
+   KsuidOptions,
+   SnowflakeComponents,
+   SnowflakeOptions,
+   StringIdEncoding,
+} from '../interfaces/id-generator.interface';
+import { deconstructSnowflake } from '../generators/snowflake-layout';
+import { KSUID_EPOCH } from '../generators/ksuid-generator';
+import { decodeCrockfordBase32 } from './crockford-base32';
+import { decodeId, encodeId } from './id-encoding';
+import { decodeTypeId } from './typeid';
+import { getUuidTimestamp, getUuidVariant, UuidVariant } from './uuid';
+
+/**
+ * Inspection result for a UUID (any version)
+ */
+export interface UuidInspection {
+   format: 'uuid';
+   id: string;
+
+   /**
+    * Version field (4 bits)
+    */
+   version: number;
+
+   /**
+    * Variant field
+    */
+   variant: UuidVariant;
+
+   /**
+    * Embedded Unix timestamp in milliseconds (versions 1, 6 and 7 only)
+    */
+   timestamp?: number;
+
+   /**
+    * Embedded timestamp as a Date (versions 1, 6 and 7 only)
+    */
+   date?: Date;
+
+   /**
+    * Clock sequence (versions 1 and 6 only)
+    */
+   clockSequence?: number;
+
+   /**
+    * Node ID, usually a MAC address (versions 1 and 6 only)
+    * @example 'aa:bb:cc:dd:ee:ff'
+    */
+   node?: string;
+
+   /**
+    * Random bits as a hex string (versions 4 and 7 only)
+    */
+   randomness?: string;
+}
+
+/**
+ * Inspection result for a Snowflake ID
+ * Components are decoded with the epoch and layout given in the options
+ */
+export interface SnowflakeInspection extends SnowflakeComponents {
+   format: 'snowflake';
+   id: string;
+}
+
+/**
+ * Inspection result for a ULID
+ */
+export interface UlidInspection {
+   format: 'ulid';
+   id: string;
+   timestamp: number;
+   date: Date;
+
+   /**
+    * 80 random bits as a hex string
+    */
+   randomness: string;
+}
+
+/**
+ * Inspection result for a prefixed TypeID
+ */
+export interface TypeIdInspection {
+   format: 'typeid';
+   id: string;
+   prefix: string;
+
+   /**
+    * Inspection of the embedded UUID (usually v7)
+    */
+   uuid: UuidInspection;
+}
+
+/**
+ * Inspection result for a KSUID
+ * The timestamp is decoded with the epoch given in the options
+ */
+export interface KsuidInspection {
+   format: 'ksuid';
+   id: string;
+
+   /**
+    * Embedded Unix timestamp in milliseconds (whole seconds)
+    */
+   timestamp: number;
+   date: Date;
+
+   /**
+    * 128-bit random payload as a hex string
+    */
+   payload: string;
+}
+
+/**
+ * Inspection result for a CUID (opaque hash, nothing is embedded)
+ */
+export interface CuidInspection {
+   format: 'cuid';
+   id: string;
+   length: number;
+}
+
+/**
+ * Inspection result for a NanoId-like string (opaque, nothing is embedded)
+ */
+export interface NanoIdInspection {
+   format: 'nanoid';
+   id: string;
+   length: number;
+}
+
+/**
+ * Inspection result for an unrecognised string
+ */
+export interface UnknownInspection {
+   format: 'unknown';
+   id: string;
+}
+
+/**
+ * Result of inspecting an ID, discriminated by `format`
+ */
+export type IdInspection =
+   | UuidInspection
+   | SnowflakeInspection
+   | UlidInspection
+   | TypeIdInspection
+   | KsuidInspection
+   | CuidInspection
+   | NanoIdInspection
+   | UnknownInspection;
+
+/**
+ * Options for ID inspection
+ */
+export interface InspectOptions {
+   /**
+    * Epoch, layout and tick duration used to decode Snowflake IDs
+    * Defaults to the library's default Snowflake configuration. With an
+    * encoding, IDs in that encoding are also detected as Snowflake IDs
+    */
+   snowflake?: SnowflakeOptions;
+
+   /**
+    * Epoch used to decode KSUIDs
+    * Defaults to the KSUID epoch (2014-05-13T16:53:20.000Z)
+    */
+   ksuid?: Pick<KsuidOptions, 'epoch'>;
+}
+
+const UUID_REGEX =
+   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ULID_REGEX = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i;
+const TYPEID_REGEX = /^[a-z]([a-z_]{0,61}[a-z])?_[0-7][0-9a-hjkmnp-tv-z]{25}$/;
+const SNOWFLAKE_REGEX = /^\d{1,20}$/;
+const CUID_REGEX = /^[a-z][0-9a-z]{1,31}$/;
+const KSUID_REGEX = /^[0-9A-Za-z]{27}$/;
+const NANOID_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Detects the format of an ID and decodes everything embedded in it
+ *
+ * Detection is best effort, checked in this order:
+ * UUID (any version) > prefixed TypeID > ULID >
+ * Snowflake (decimal, fits in 64 bits) >
+ * Snowflake in the configured encoding (canonical form only) >
+ * CUID (lowercase base36, starts with a letter, 2-32 chars) >
+ * KSUID (27 Base62 chars, fits in 160 bits) >
+ * NanoId-like (URL-safe alphabet) > unknown.
+ * Formats that share an alphabet are ambiguous - e.g. an all-digit NanoId
+ * is reported as a Snowflake.
+ *
+ * @param id The ID to inspect
+ * @param options Optional inspection options (Snowflake epoch and layout)
+ * @returns A discriminated union describing the ID
+ * @example
+ * const info = inspect('018c3e5a-8b3e-7a1c-9f2d-3b4c5d6e7f80');
+ * if (info.format === 'uuid' && info.version === 7) {
+ *   console.log(info.date); // 2023-12-05T...
+ * }
+ */
+export function inspect(id: string, options?: InspectOptions): IdInspection {
+   if (UUID_REGEX.test(id)) {
+      return inspectUuid(id);
+   }
+
+   if (TYPEID_REGEX.test(id)) {
+      const { prefix, uuid } = decodeTypeId(id);
+      return { format: 'typeid', id, prefix, uuid: inspectUuid(uuid) };
+   }
+
+   if (ULID_REGEX.test(id)) {
+      const value = decodeCrockfordBase32(id);
+      const timestamp = Number(value >> 80n);
+      return {
+         format: 'ulid',
+         id,
+         timestamp,
+         date: new Date(timestamp),
+         randomness: (value & ((1n << 80n) - 1n))
+            .toString(16)
+            .padStart(20, '0'),
+      };
+   }
+
+   if (SNOWFLAKE_REGEX.test(id) && BigInt(id) < 1n << 64n) {
+      return {
+         format: 'snowflake',
+         id,
+         ...deconstructSnowflake(id, {
+            ...options?.snowflake,
+            encoding: 'decimal',
+         }),
+      };
+   }
+
+   const encoding = options?.snowflake?.encoding;
+   if (encoding && encoding !== 'decimal') {
+      const value = decodeCanonical(id, encoding, 64);
+      if (value !== undefined) {
+         return {
+            format: 'snowflake',
+            id,
+            ...deconstructSnowflake(value.toString(), {
+               ...options?.snowflake,
+               encoding: 'decimal',
+            }),
+         };
+      }
+   }
+
+   if (CUID_REGEX.test(id)) {
+      return { format: 'cuid', id, length: id.length };
+   }
+
+   if (KSUID_REGEX.test(id)) {
+      const value = decodeId(id, 'base62');
+      if (value < 1n << 160n) {
+         const epoch = options?.ksuid?.epoch ?? KSUID_EPOCH;
+         const timestamp = Number(value >> 128n) * 1000 + epoch;
+         return {
+            format: 'ksuid',
+            id,
+            timestamp,
+            date: new Date(timestamp),
+            payload: (value & ((1n << 128n) - 1n))
+               .toString(16)
+               .padStart(32, '0'),
+         };
+      }
+   }
+
+   if (NANOID_REGEX.test(id)) {
+      return { format: 'nanoid', id, length: id.length };
+   }
+
+   return { format: 'unknown', id };
+}
+
+/**
+ * Decodes an ID that is exactly what the encoding produces (padding and case)
+ * @returns The decoded value, or undefined if the ID is not in that encoding
+ */
+function decodeCanonical(
+   id: string,
+   encoding: StringIdEncoding,
+   bits: number
+): bigint | undefined {
+   try {
+      const value = decodeId(id, encoding, { bits });
+      return encodeId(value, encoding, { bits }) === id ? value : undefined;
+   } catch {
+      return undefined;
+   }
+}
+
+/**
+ * Decodes the version, variant and embedded fields of a UUID
+ */
+function inspectUuid(id: string): UuidInspection {
+   const hex = id.replace(/-/g, '').toLowerCase();
+   const value = BigInt(`0x${hex}`);
+   const version = parseInt(hex[12], 16);
+   const variant = getUuidVariant(id);
+
+   const result: UuidInspection = { format: 'uuid', id, version, variant };
+
+   if (version === 1 || version === 6) {
+      result.date = getUuidTimestamp(id);
+      result.timestamp = result.date.getTime();
+      result.clockSequence = parseInt(hex.slice(16, 20), 16) & 0x3fff;
+      result.node = hex.slice(20).match(/../g)!.join(':');
+   } else if (version === 7) {
+      result.date = getUuidTimestamp(id);
+      result.timestamp = result.date.getTime();
+      // rand_a (12 bits) followed by rand_b (62 bits)
+      const randA = (value >> 64n) & 0xfffn;
+      const randB = value & ((1n << 62n) - 1n);
+      result.randomness = ((randA << 62n) | randB)
+         .toString(16)
+         .padStart(19, '0');
+   } else if (version === 4) {
+      // 48 + 12 + 62 random bits around the version and variant fields
+      const high = value >> 80n;
+      const middle = (value >> 64n) & 0xfffn;
+      const low = value & ((1n << 62n) - 1n);
+      result.randomness = ((((high << 12n) | middle) << 62n) | low)
+         .toString(16)
+         .padStart(31, '0');
+   }
+
+   return result;
+}
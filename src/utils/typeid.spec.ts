@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'bun:test';
+import { assertValidTypeIdPrefix, decodeTypeId, encodeTypeId } from './typeid';
+
+// Test vectors from the TypeID specification
+const VALID = [
+   ['', '00000000000000000000000000', '00000000-0000-0000-0000-000000000000'],
+   ['', '00000000000000000000000001', '00000000-0000-0000-0000-000000000001'],
+   ['', '0000000000000000000000000a', '00000000-0000-0000-0000-00000000000a'],
+   ['', '0000000000000000000000000g', '00000000-0000-0000-0000-000000000010'],
+   ['', '00000000000000000000000010', '00000000-0000-0000-0000-000000000020'],
+   ['', '7zzzzzzzzzzzzzzzzzzzzzzzzz', 'ffffffff-ffff-ffff-ffff-ffffffffffff'],
+   [
+      'prefix',
+      'prefix_0123456789abcdefghjkmnpqrs',
+      '0110c853-1d09-52d8-d73e-1194e95b5f19',
+   ],
+   [
+      'pre_fix',
+      'pre_fix_00000000000000000000000000',
+      '00000000-0000-0000-0000-000000000000',
+   ],
+   ['', '01h455vb4pex5vsknk084sn02q', '01890a5d-ac96-774b-bcce-b302099a8057'],
+];
+
+describe('TypeID codec', () => {
+   it('should encode the specification vectors', () => {
+      for (const [prefix, typeId, uuid] of VALID) {
+         expect(encodeTypeId(prefix, uuid)).toBe(typeId);
+      }
+   });
+
+   it('should decode the specification vectors', () => {
+      for (const [prefix, typeId, uuid] of VALID) {
+         expect(decodeTypeId(typeId)).toEqual({ prefix, uuid });
+      }
+   });
+
+   it('should accept uppercase UUIDs when encoding', () => {
+      expect(encodeTypeId('user', '01890A5D-AC96-774B-BCCE-B302099A8057')).toBe(
+         'user_01h455vb4pex5vsknk084sn02q'
+      );
+   });
+
+   it('should reject invalid UUIDs when encoding', () => {
+      expect(() => encodeTypeId('user', 'not-a-uuid')).toThrow(
+         "Invalid UUID: 'not-a-uuid'"
+      );
+   });
+
+   it('should reject invalid suffixes', () => {
+      expect(() => decodeTypeId('prefix_0123456789abcdefghjkmnpq')).toThrow(
+         'TypeID suffix must be 26 characters long, got 24'
+      );
+      expect(() => decodeTypeId('prefix_0123456789ABCDEFGHJKMNPQRS')).toThrow(
+         'TypeID suffix must contain only lowercase Crockford Base32 characters'
+      );
+      expect(() => decodeTypeId('prefix_0123456789abcdefghjkmnpqrl')).toThrow(
+         'TypeID suffix must contain only lowercase Crockford Base32 characters'
+      );
+      expect(() => decodeTypeId('8zzzzzzzzzzzzzzzzzzzzzzzzz')).toThrow(
+         'TypeID suffix exceeds 128 bits'
+      );
+   });
+
+   it('should reject a separator without prefix', () => {
+      expect(() => decodeTypeId('_00000000000000000000000000')).toThrow(
+         'TypeID with an empty prefix must not have a separator'
+      );
+   });
+
+   it('should reject invalid prefixes when decoding', () => {
+      for (const typeId of [
+         'PREFIX_00000000000000000000000000',
+         'prefix__00000000000000000000000000',
+         '_prefix_00000000000000000000000000',
+         'pre.fix_00000000000000000000000000',
+         'pre1fix_00000000000000000000000000',
+      ]) {
+         expect(() => decodeTypeId(typeId)).toThrow(/^TypeID prefix/);
+      }
+   });
+
+   describe('assertValidTypeIdPrefix', () => {
+      it('should accept empty and underscore-separated prefixes', () => {
+         expect(() => assertValidTypeIdPrefix('')).not.toThrow();
+         expect(() => assertValidTypeIdPrefix('user_account')).not.toThrow();
+         expect(() => assertValidTypeIdPrefix('a'.repeat(63))).not.toThrow();
+      });
+
+      it('should reject prefixes longer than 63 characters', () => {
+         expect(() => assertValidTypeIdPrefix('a'.repeat(64))).toThrow(
+            'TypeID prefix must be at most 63 characters long'
+         );
+      });
+
+      it('should reject prefixes outside the grammar', () => {
+         expect(() => assertValidTypeIdPrefix('user_')).toThrow(
+            "TypeID prefix 'user_' must contain only lowercase letters and underscores, and start and end with a letter"
+         );
+      });
+   });
+});
@@ -0,0 +1,128 @@
+import type {
+   TypeId,
+   TypeIdComponents,
+} from '../interfaces/id-generator.interface';
+import {
+   decodeCrockfordBase32,
+   encodeCrockfordBase32,
+} from './crockford-base32';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * Maximum length of a TypeID prefix
+ */
+export const MAX_TYPEID_PREFIX_LENGTH = 63;
+
+/**
+ * Length of the Base32-encoded UUID suffix of a TypeID
+ */
+export const TYPEID_SUFFIX_LENGTH = 26;
+
+const TYPEID_PREFIX_REGEX = /^([a-z]([a-z_]*[a-z])?)?$/;
+const TYPEID_SUFFIX_REGEX = /^[0-9a-hjkmnp-tv-z]{26}$/;
+const UUID_REGEX =
+   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates a TypeID prefix against the TypeID specification
+ * Prefixes are empty, or up to 63 lowercase letters and underscores that
+ * start and end with a letter
+ * @param prefix The prefix to validate
+ * @throws IdConfigurationError if the prefix does not follow the specification
+ * @example
+ * assertValidTypeIdPrefix('user_account'); // OK
+ * assertValidTypeIdPrefix('User'); // throws
+ */
+export function assertValidTypeIdPrefix(prefix: string): void {
+   const reason = getTypeIdPrefixError(prefix);
+   if (reason) {
+      throw new IdConfigurationError(reason);
+   }
+}
+
+/**
+ * Encodes a UUID as a TypeID
+ * @param prefix The type prefix (may be empty)
+ * @param uuid The canonical UUID string (any version, UUID v7 recommended)
+ * @returns The TypeID (`prefix_` followed by 26 lowercase Crockford Base32 characters)
+ * @throws IdConfigurationError if the prefix is invalid
+ * @throws InvalidIdError if the UUID is invalid
+ * @example
+ * encodeTypeId('user', '01890a5d-ac96-774b-bcce-b302099a8057');
+ * // 'user_01h455vb4pex5vsknk084sn02q'
+ */
+export function encodeTypeId(prefix: string, uuid: string): TypeId {
+   assertValidTypeIdPrefix(prefix);
+   if (!UUID_REGEX.test(uuid)) {
+      throw new InvalidIdError(`Invalid UUID: '${uuid}'`);
+   }
+
+   const suffix = encodeCrockfordBase32(
+      BigInt(`0x${uuid.replace(/-/g, '')}`),
+      TYPEID_SUFFIX_LENGTH
+   ).toLowerCase();
+
+   return (prefix ? `${prefix}_${suffix}` : suffix) as TypeId;
+}
+
+/**
+ * Decodes a TypeID into its prefix and canonical UUID
+ * Decoding is strict: the suffix must be lowercase and may not use the
+ * Crockford aliases (i, l, o)
+ * @param typeId The TypeID string
+ * @returns The prefix and the lowercase UUID
+ * @throws InvalidIdError if the TypeID does not follow the specification
+ * @example
+ * decodeTypeId('user_01h455vb4pex5vsknk084sn02q');
+ * // { prefix: 'user', uuid: '01890a5d-ac96-774b-bcce-b302099a8057' }
+ */
+export function decodeTypeId(typeId: string): TypeIdComponents {
+   const separator = typeId.lastIndexOf('_');
+   const prefix = separator === -1 ? '' : typeId.slice(0, separator);
+   const suffix = typeId.slice(separator + 1);
+
+   if (separator === 0) {
+      throw new InvalidIdError(
+         'TypeID with an empty prefix must not have a separator'
+      );
+   }
+   const prefixError = getTypeIdPrefixError(prefix);
+   if (prefixError) {
+      throw new InvalidIdError(prefixError);
+   }
+
+   if (suffix.length !== TYPEID_SUFFIX_LENGTH) {
+      throw new InvalidIdError(
+         `TypeID suffix must be ${TYPEID_SUFFIX_LENGTH} characters long, got ${suffix.length}`
+      );
+   }
+   if (!TYPEID_SUFFIX_REGEX.test(suffix)) {
+      throw new InvalidIdError(
+         'TypeID suffix must contain only lowercase Crockford Base32 characters'
+      );
+   }
+   if (suffix[0] > '7') {
+      throw new InvalidIdError('TypeID suffix exceeds 128 bits');
+   }
+
+   const hex = decodeCrockfordBase32(suffix).toString(16).padStart(32, '0');
+
+   return {
+      prefix,
+      uuid: `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`,
+   };
+}
+
+/**
+ * Describes why a TypeID prefix does not follow the specification
+ */
+function getTypeIdPrefixError(prefix: string): string | undefined {
+   if (prefix.length > MAX_TYPEID_PREFIX_LENGTH) {
+      return `TypeID prefix must be at most ${MAX_TYPEID_PREFIX_LENGTH} characters long`;
+   }
+   if (!TYPEID_PREFIX_REGEX.test(prefix)) {
+      return `TypeID prefix '${prefix}' must contain only lowercase letters and underscores, and start and end with a letter`;
+   }
+   return undefined;
+}
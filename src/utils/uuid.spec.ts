@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'bun:test';
+import {
+   compareUuids,
+   convertUuidV1ToV6,
+   convertUuidV6ToV1,
+   createUuidV3,
+   createUuidV5,
+   getUuidTimestamp,
+   getUuidVariant,
+   getUuidVersion,
+   MAX_UUID,
+   NIL_UUID,
+   parseUuid,
+   stringifyUuid,
+   UUID_NAMESPACES,
+} from './uuid';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+describe('UUID utilities', () => {
+   describe('createUuidV5', () => {
+      it('should match the RFC 9562 test vector', () => {
+         expect(createUuidV5(UUID_NAMESPACES.DNS, 'www.example.com')).toBe(
+            '2ed6657d-e927-568b-95e1-2665a8aea6a2'
+         );
+      });
+
+      it('should be deterministic per namespace and name', () => {
+         const id = createUuidV5(UUID_NAMESPACES.URL, 'https://example.com');
+
+         expect(createUuidV5(UUID_NAMESPACES.URL, 'https://example.com')).toBe(
+            id
+         );
+         expect(
+            createUuidV5(UUID_NAMESPACES.DNS, 'https://example.com')
+         ).not.toBe(id);
+         expect(
+            createUuidV5(
+               UUID_NAMESPACES.URL,
+               new TextEncoder().encode('https://example.com')
+            )
+         ).toBe(id);
+      });
+
+      it('should accept custom and uppercase namespaces', () => {
+         const namespace = createUuidV5(UUID_NAMESPACES.DNS, 'example.com');
+
+         expect(createUuidV5(namespace.toUpperCase(), 'order-42')).toBe(
+            createUuidV5(namespace, 'order-42')
+         );
+      });
+
+      it('should reject invalid namespaces', () => {
+         expect(() => createUuidV5('orders', 'order-42')).toThrow(
+            new IdConfigurationError(
+               "UUID namespace must be a UUID, got 'orders'"
+            )
+         );
+      });
+   });
+
+   describe('createUuidV3', () => {
+      it('should match the RFC 9562 test vector', () => {
+         expect(createUuidV3(UUID_NAMESPACES.DNS, 'www.example.com')).toBe(
+            '5df41881-3aed-3515-88a7-2f4a814cf09e'
+         );
+      });
+   });
+
+   describe('parseUuid and stringifyUuid', () => {
+      it('should convert between strings and bytes', () => {
+         const bytes = parseUuid('6BA7B810-9DAD-11D1-80B4-00C04FD430C8');
+
+         expect(bytes).toHaveLength(16);
+         expect(bytes[0]).toBe(0x6b);
+         expect(bytes[15]).toBe(0xc8);
+         expect(stringifyUuid(bytes)).toBe(UUID_NAMESPACES.DNS);
+         expect(parseUuid(NIL_UUID).every((byte) => byte === 0)).toBe(true);
+         expect(parseUuid(MAX_UUID).every((byte) => byte === 0xff)).toBe(true);
+      });
+
+      it('should reject invalid input', () => {
+         expect(() => parseUuid('not-a-uuid')).toThrow(
+            new InvalidIdError("Invalid UUID: 'not-a-uuid'")
+         );
+         expect(() => stringifyUuid(new Uint8Array(15))).toThrow(
+            'A UUID has 16 bytes, got 15'
+         );
+      });
+   });
+
+   describe('compareUuids', () => {
+      it('should order UUIDs by their bytes', () => {
+         const uuids = [
+            MAX_UUID,
+            '018c3e5a-8b3e-7a1c-9f2d-3b4c5d6e7f80',
+            NIL_UUID,
+            '018C3E5A-8B3E-7A1C-9F2D-3B4C5D6E7F7F',
+         ];
+
+         expect([...uuids].sort(compareUuids)).toEqual([
+            NIL_UUID,
+            '018C3E5A-8B3E-7A1C-9F2D-3B4C5D6E7F7F',
+            '018c3e5a-8b3e-7a1c-9f2d-3b4c5d6e7f80',
+            MAX_UUID,
+         ]);
+         expect(compareUuids(MAX_UUID, MAX_UUID.toUpperCase())).toBe(0);
+      });
+   });
+
+   describe('getUuidVersion and getUuidVariant', () => {
+      it('should read the version and variant fields', () => {
+         expect(getUuidVersion(UUID_NAMESPACES.DNS)).toBe(1);
+         expect(
+            getUuidVersion(createUuidV3(UUID_NAMESPACES.DNS, 'example.com'))
+         ).toBe(3);
+         expect(
+            getUuidVersion(createUuidV5(UUID_NAMESPACES.DNS, 'example.com'))
+         ).toBe(5);
+         expect(getUuidVersion(NIL_UUID)).toBe(0);
+         expect(getUuidVersion(MAX_UUID)).toBe(15);
+
+         expect(getUuidVariant(UUID_NAMESPACES.DNS)).toBe('rfc9562');
+         expect(getUuidVariant(NIL_UUID)).toBe('ncs');
+         expect(getUuidVariant('00000000-0000-0000-c000-000000000000')).toBe(
+            'microsoft'
+         );
+         expect(getUuidVariant(MAX_UUID)).toBe('future');
+      });
+   });
+
+   describe('convertUuidV1ToV6 and convertUuidV6ToV1', () => {
+      // RFC 9562, appendix A
+      const v1 = 'c232ab00-9414-11ec-b3c8-9f6bdeced846';
+      const v6 = '1ec9414c-232a-6b00-b3c8-9f6bdeced846';
+
+      it('should reorder the timestamp fields', () => {
+         expect(convertUuidV1ToV6(v1)).toBe(v6);
+         expect(convertUuidV6ToV1(v6)).toBe(v1);
+         expect(convertUuidV6ToV1(convertUuidV1ToV6(UUID_NAMESPACES.DNS))).toBe(
+            UUID_NAMESPACES.DNS
+         );
+      });
+
+      it('should reject other versions', () => {
+         expect(() => convertUuidV1ToV6(v6)).toThrow(
+            new InvalidIdError('Expected a UUID v1, got version 6')
+         );
+         expect(() => convertUuidV6ToV1(v1)).toThrow(
+            new InvalidIdError('Expected a UUID v6, got version 1')
+         );
+      });
+   });
+
+   describe('getUuidTimestamp', () => {
+      it('should extract the timestamp of v1, v6 and v7 UUIDs', () => {
+         const date = new Date('2022-02-22T19:22:22Z');
+
+         expect(
+            getUuidTimestamp('c232ab00-9414-11ec-b3c8-9f6bdeced846')
+         ).toEqual(date);
+         expect(
+            getUuidTimestamp('1ec9414c-232a-6b00-b3c8-9f6bdeced846')
+         ).toEqual(date);
+         expect(
+            getUuidTimestamp('017f22e2-79b0-7cc3-98c4-dc0c0c07398f')
+         ).toEqual(date);
+         expect(getUuidTimestamp(UUID_NAMESPACES.DNS)).toEqual(
+            new Date('1998-02-04T22:13:53.151Z')
+         );
+      });
+
+      it('should reject versions without a timestamp', () => {
+         expect(() =>
+            getUuidTimestamp(createUuidV5(UUID_NAMESPACES.DNS, 'example.com'))
+         ).toThrow(new InvalidIdError('UUID version 5 has no timestamp'));
+      });
+   });
+});
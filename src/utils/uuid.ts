@@ -0,0 +1,305 @@
+import { v3, v5 } from 'uuid';
+import type {
+   UuidV1,
+   UuidV3,
+   UuidV5,
+   UuidV6,
+} from '../interfaces/id-generator.interface';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * UUID variant field values
+ */
+export type UuidVariant = 'ncs' | 'rfc9562' | 'microsoft' | 'future';
+
+/**
+ * Nil UUID (all bits 0)
+ */
+export const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Max UUID (all bits 1)
+ */
+export const MAX_UUID = 'ffffffff-ffff-ffff-ffff-ffffffffffff';
+
+/**
+ * Standard namespaces for name-based UUIDs (RFC 9562, appendix C)
+ */
+export const UUID_NAMESPACES = {
+   /**
+    * Fully qualified domain names
+    */
+   DNS: '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+
+   /**
+    * URLs
+    */
+   URL: '6ba7b811-9dad-11d1-80b4-00c04fd430c8',
+
+   /**
+    * ISO object identifiers
+    */
+   OID: '6ba7b812-9dad-11d1-80b4-00c04fd430c8',
+
+   /**
+    * X.500 distinguished names
+    */
+   X500: '6ba7b814-9dad-11d1-80b4-00c04fd430c8',
+} as const;
+
+/**
+ * 100-nanosecond intervals between the Gregorian epoch (1582-10-15) and
+ * the Unix epoch, as used by UUID v1 and v6 timestamps
+ */
+export const UUID_GREGORIAN_OFFSET = 122192928000000000n;
+
+const UUID_REGEX =
+   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Creates a name-based UUID v5 (SHA-1)
+ * The same namespace and name always give the same UUID
+ * @param namespace The namespace UUID (see UUID_NAMESPACES)
+ * @param name The name, as a string (UTF-8) or bytes
+ * @returns The UUID v5
+ * @throws IdConfigurationError if the namespace is not a UUID
+ * @example
+ * createUuidV5(UUID_NAMESPACES.DNS, 'www.example.com');
+ * // '2ed6657d-e927-568b-95e1-2665a8aea6a2'
+ */
+export function createUuidV5(
+   namespace: string,
+   name: string | Uint8Array
+): UuidV5 {
+   return v5(name, parseNamespace(namespace)) as UuidV5;
+}
+
+/**
+ * Creates a name-based UUID v3 (MD5)
+ * Only for compatibility with existing v3 IDs - prefer createUuidV5()
+ * @param namespace The namespace UUID (see UUID_NAMESPACES)
+ * @param name The name, as a string (UTF-8) or bytes
+ * @returns The UUID v3
+ * @throws IdConfigurationError if the namespace is not a UUID
+ * @example
+ * createUuidV3(UUID_NAMESPACES.DNS, 'www.example.com');
+ * // '5df41881-3aed-3515-88a7-2f4a814cf09e'
+ */
+export function createUuidV3(
+   namespace: string,
+   name: string | Uint8Array
+): UuidV3 {
+   return v3(name, parseNamespace(namespace)) as UuidV3;
+}
+
+/**
+ * Converts a UUID string to its 16 bytes
+ * @param uuid The UUID, in the 8-4-4-4-12 hexadecimal format (any case)
+ * @returns The bytes, in big-endian order
+ * @throws InvalidIdError if the string is not a UUID
+ * @example
+ * parseUuid(MAX_UUID); // Uint8Array(16) [255, 255, ...]
+ */
+export function parseUuid(uuid: string): Uint8Array {
+   if (typeof uuid !== 'string' || !UUID_REGEX.test(uuid)) {
+      throw new InvalidIdError(`Invalid UUID: '${uuid}'`);
+   }
+   return Uint8Array.from(Buffer.from(uuid.replace(/-/g, ''), 'hex'));
+}
+
+/**
+ * Converts 16 bytes to a canonical (lowercase) UUID string
+ * @param bytes The bytes, in big-endian order
+ * @returns The UUID string
+ * @throws InvalidIdError if there are not exactly 16 bytes
+ */
+export function stringifyUuid(bytes: Uint8Array): string {
+   if (bytes.length !== 16) {
+      throw new InvalidIdError(`A UUID has 16 bytes, got ${bytes.length}`);
+   }
+   return formatHex(Buffer.from(bytes).toString('hex'));
+}
+
+/**
+ * Compares two UUIDs by their bytes (case-insensitive)
+ * Time-ordered UUIDs (v6, v7) compare in creation order
+ * @param a The first UUID
+ * @param b The second UUID
+ * @returns -1, 0 or 1, for use with Array.prototype.sort()
+ * @throws InvalidIdError if either string is not a UUID
+ * @example
+ * uuids.sort(compareUuids);
+ */
+export function compareUuids(a: string, b: string): number {
+   const left = parseUuid(a);
+   const right = parseUuid(b);
+   for (let i = 0; i < 16; i++) {
+      if (left[i] !== right[i]) {
+         return left[i] < right[i] ? -1 : 1;
+      }
+   }
+   return 0;
+}
+
+/**
+ * Reads the version field of a UUID
+ * @param uuid The UUID
+ * @returns The version (0 for the nil UUID, 15 for the max UUID)
+ * @throws InvalidIdError if the string is not a UUID
+ * @example
+ * getUuidVersion(createUuidV5(UUID_NAMESPACES.URL, 'https://example.com')); // 5
+ */
+export function getUuidVersion(uuid: string): number {
+   return parseUuid(uuid)[6] >> 4;
+}
+
+/**
+ * Reads the variant field of a UUID
+ * @param uuid The UUID
+ * @returns The variant ('rfc9562' for every standard UUID version)
+ * @throws InvalidIdError if the string is not a UUID
+ */
+export function getUuidVariant(uuid: string): UuidVariant {
+   return getVariant(parseUuid(uuid)[8] >> 4);
+}
+
+/**
+ * Converts a UUID v1 to the equivalent UUID v6
+ * Only the timestamp fields are reordered, so the conversion is lossless and
+ * the v6 UUIDs sort in creation order
+ * @param uuid The UUID v1
+ * @returns The UUID v6 with the same timestamp, clock sequence and node
+ * @throws InvalidIdError if the string is not a UUID v1
+ * @example
+ * convertUuidV1ToV6('c232ab00-9414-11ec-b3c8-9f6bdeced846');
+ * // '1ec9414c-232a-6b00-b3c8-9f6bdeced846'
+ */
+export function convertUuidV1ToV6(uuid: string): UuidV6 {
+   const hex = getUuidHex(uuid, 1);
+   const ticks = getUuidTicks(hex, 1);
+   return formatHex(
+      toHex(ticks >> 28n, 8) +
+         toHex((ticks >> 12n) & 0xffffn, 4) +
+         '6' +
+         toHex(ticks & 0xfffn, 3) +
+         hex.slice(16)
+   ) as UuidV6;
+}
+
+/**
+ * Converts a UUID v6 back to the equivalent UUID v1
+ * @param uuid The UUID v6
+ * @returns The UUID v1 with the same timestamp, clock sequence and node
+ * @throws InvalidIdError if the string is not a UUID v6
+ * @example
+ * convertUuidV6ToV1('1ec9414c-232a-6b00-b3c8-9f6bdeced846');
+ * // 'c232ab00-9414-11ec-b3c8-9f6bdeced846'
+ */
+export function convertUuidV6ToV1(uuid: string): UuidV1 {
+   const hex = getUuidHex(uuid, 6);
+   const ticks = getUuidTicks(hex, 6);
+   return formatHex(
+      toHex(ticks & 0xffffffffn, 8) +
+         toHex((ticks >> 32n) & 0xffffn, 4) +
+         '1' +
+         toHex(ticks >> 48n, 3) +
+         hex.slice(16)
+   ) as UuidV1;
+}
+
+/**
+ * Extracts the timestamp of a time-based UUID (v1, v6 or v7)
+ * v1 and v6 timestamps have a 100-nanosecond precision, truncated to the
+ * millisecond by Date
+ * @param uuid The UUID
+ * @returns The creation date
+ * @throws InvalidIdError if the string is not a UUID, or its version has no timestamp
+ * @example
+ * getUuidTimestamp('c232ab00-9414-11ec-b3c8-9f6bdeced846');
+ * // 2022-02-22T19:22:22.000Z
+ */
+export function getUuidTimestamp(uuid: string): Date {
+   const hex = getUuidHex(uuid);
+   const version = parseInt(hex[12], 16);
+
+   if (version === 1 || version === 6) {
+      const ticks = getUuidTicks(hex, version);
+      return new Date(Number((ticks - UUID_GREGORIAN_OFFSET) / 10000n));
+   }
+   if (version === 7) {
+      return new Date(parseInt(hex.slice(0, 12), 16));
+   }
+   throw new InvalidIdError(`UUID version ${version} has no timestamp`);
+}
+
+/**
+ * Gets the 32 lowercase hex digits of a UUID, optionally checking its version
+ */
+function getUuidHex(uuid: string, version?: number): string {
+   const hex = Buffer.from(parseUuid(uuid)).toString('hex');
+   const actualVersion = parseInt(hex[12], 16);
+   if (version !== undefined && actualVersion !== version) {
+      throw new InvalidIdError(
+         `Expected a UUID v${version}, got version ${actualVersion}`
+      );
+   }
+   return hex;
+}
+
+/**
+ * Reads the 60-bit timestamp of a UUID v1 or v6 in 100-nanosecond intervals
+ * v1: time_low | time_mid | time_high, v6: time_high | time_mid | time_low
+ */
+function getUuidTicks(hex: string, version: 1 | 6): bigint {
+   const fields = [
+      BigInt(`0x${hex.slice(0, 8)}`),
+      BigInt(`0x${hex.slice(8, 12)}`),
+      BigInt(`0x${hex.slice(13, 16)}`),
+   ];
+   return version === 1
+      ? (fields[2] << 48n) | (fields[1] << 32n) | fields[0]
+      : (fields[0] << 28n) | (fields[1] << 12n) | fields[2];
+}
+
+/**
+ * Formats a value as fixed-width hex digits
+ */
+function toHex(value: bigint, digits: number): string {
+   return value.toString(16).padStart(digits, '0');
+}
+
+/**
+ * Inserts the dashes of the 8-4-4-4-12 format into 32 hex digits
+ */
+function formatHex(hex: string): string {
+   return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Maps the top bits of the variant nibble to the variant name
+ */
+function getVariant(nibble: number): UuidVariant {
+   if ((nibble & 0b1000) === 0) {
+      return 'ncs';
+   }
+   if ((nibble & 0b0100) === 0) {
+      return 'rfc9562';
+   }
+   if ((nibble & 0b0010) === 0) {
+      return 'microsoft';
+   }
+   return 'future';
+}
+
+/**
+ * Converts a namespace UUID to bytes
+ */
+function parseNamespace(namespace: string): Uint8Array {
+   if (typeof namespace !== 'string' || !UUID_REGEX.test(namespace)) {
+      throw new IdConfigurationError(
+         `UUID namespace must be a UUID, got '${namespace}'`
+      );
+   }
+   return parseUuid(namespace);
+}
@@ -0,0 +1,334 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import {
+   validateCuidOptions,
+   validateIdGeneratorOptions,
+   validateKsuidOptions,
+   validateNanoIdOptions,
+   validatePrefixedIdOptions,
+   validateSnowflakeOptions,
+   validateTypeIdOptions,
+   validateUlidOptions,
+   validateUuidOptions,
+   validateUuidV1Options,
+   validateUuidV5Options,
+} from './validate-options';
+import { UUID_NAMESPACES } from './uuid';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { UnsupportedGeneratorError } from '../errors/unsupported-generator.error';
+import type {
+   IdGeneratorType,
+   NanoIdEntropyWarning,
+   StringIdEncoding,
+} from '../interfaces/id-generator.interface';
+
+describe('validateSnowflakeOptions', () => {
+   it('should return the resolved configuration', () => {
+      const config = validateSnowflakeOptions({
+         preset: 'twitter',
+         workerId: 3,
+      });
+
+      expect(config.epoch).toBe(1288834974657);
+      expect(config.workerId).toBe(3);
+   });
+
+   it('should accept epoch 0', () => {
+      expect(validateSnowflakeOptions({ epoch: 0 }).epoch).toBe(0);
+   });
+
+   it('should reject invalid epochs', () => {
+      expect(() => validateSnowflakeOptions({ epoch: -1 })).toThrow(
+         'Epoch must be a non-negative integer (Unix timestamp in milliseconds)'
+      );
+      expect(() => validateSnowflakeOptions({ epoch: 1.5 })).toThrow(
+         IdConfigurationError
+      );
+   });
+
+   it('should reject epochs in the future', () => {
+      const epoch = Date.now() + 60000;
+
+      expect(() => validateSnowflakeOptions({ epoch })).toThrow(
+         `Epoch ${new Date(epoch).toISOString()} is in the future`
+      );
+   });
+
+   it('should reject worker and process IDs outside the layout', () => {
+      expect(() => validateSnowflakeOptions({ workerId: 32 })).toThrow(
+         'Worker ID must be between 0 and 31'
+      );
+      expect(() => validateSnowflakeOptions({ processId: 1.5 })).toThrow(
+         'Process ID must be between 0 and 31'
+      );
+   });
+
+   it('should reject unsupported encodings', () => {
+      expect(() =>
+         validateSnowflakeOptions({ encoding: 'base36' as StringIdEncoding })
+      ).toThrow("Unsupported encoding: 'base36'");
+   });
+});
+
+describe('validateNanoIdOptions', () => {
+   it('should accept the defaults and custom alphabets', () => {
+      expect(() => validateNanoIdOptions()).not.toThrow();
+      expect(() =>
+         validateNanoIdOptions({ alphabet: '0123456789abcdef', size: 8 })
+      ).not.toThrow();
+   });
+
+   it('should reject alphabets that are too short or too long', () => {
+      const message =
+         'NanoId alphabet must contain between 2 and 256 characters';
+
+      expect(() => validateNanoIdOptions({ alphabet: '' })).toThrow(message);
+      expect(() => validateNanoIdOptions({ alphabet: 'a' })).toThrow(message);
+      expect(() =>
+         validateNanoIdOptions({
+            alphabet: Array.from({ length: 257 }, (_, i) =>
+               String.fromCharCode(0x100 + i)
+            ).join(''),
+         })
+      ).toThrow(message);
+   });
+
+   it('should reject duplicate characters', () => {
+      expect(() => validateNanoIdOptions({ alphabet: 'abca' })).toThrow(
+         "NanoId alphabet contains duplicate character 'a'"
+      );
+   });
+
+   it('should reject characters outside the Basic Multilingual Plane', () => {
+      expect(() => validateNanoIdOptions({ alphabet: 'ab😀' })).toThrow(
+         'NanoId alphabet must contain only single UTF-16 code unit characters'
+      );
+   });
+
+   it('should reject invalid sizes', () => {
+      for (const size of [0, -1, 1.5, NaN]) {
+         expect(() => validateNanoIdOptions({ size })).toThrow(
+            'NanoId size must be a positive integer'
+         );
+      }
+   });
+
+   it('should reject invalid expected ID counts', () => {
+      expect(() => validateNanoIdOptions({ expectedIds: -1 })).toThrow(
+         'NanoId expectedIds must be a non-negative number'
+      );
+   });
+
+   it('should warn when the entropy is too low for the expected IDs', () => {
+      const warnings: NanoIdEntropyWarning[] = [];
+      validateNanoIdOptions({
+         alphabet: '0123456789',
+         size: 8,
+         expectedIds: 10000,
+         onLowEntropy: (warning) => warnings.push(warning),
+      });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].expectedIds).toBe(10000);
+      expect(warnings[0].entropyBits).toBeCloseTo(26.58, 2);
+      expect(warnings[0].collisionProbability).toBeCloseTo(0.393, 3);
+   });
+
+   it('should not warn when the entropy is sufficient', () => {
+      const warnings: NanoIdEntropyWarning[] = [];
+      validateNanoIdOptions({
+         expectedIds: 1e9,
+         onLowEntropy: (warning) => warnings.push(warning),
+      });
+
+      expect(warnings).toEqual([]);
+   });
+
+   it('should emit a process warning once per configuration by default', () => {
+      const emitWarning = spyOn(process, 'emitWarning').mockImplementation(
+         () => {}
+      );
+
+      try {
+         const options = { alphabet: 'ab', size: 10, expectedIds: 100 };
+         validateNanoIdOptions(options);
+         validateNanoIdOptions(options);
+
+         expect(emitWarning).toHaveBeenCalledTimes(1);
+         expect(emitWarning.mock.calls[0][0]).toContain('10.0 bits of entropy');
+      } finally {
+         emitWarning.mockRestore();
+      }
+   });
+});
+
+describe('validateCuidOptions', () => {
+   it('should reject lengths outside 2-32', () => {
+      expect(() => validateCuidOptions({ length: 24 })).not.toThrow();
+      expect(() => validateCuidOptions({ length: 1 })).toThrow(
+         'CUID length must be between 2 and 32'
+      );
+      expect(() => validateCuidOptions({ length: 33 })).toThrow(
+         IdConfigurationError
+      );
+   });
+});
+
+describe('validateUuidOptions', () => {
+   it('should reject unsupported encodings', () => {
+      expect(() => validateUuidOptions({ encoding: 'base58' })).not.toThrow();
+      expect(() =>
+         validateUuidOptions({ encoding: 'bytes' as StringIdEncoding })
+      ).toThrow("Unsupported encoding: 'bytes'");
+   });
+});
+
+describe('validateUuidV5Options', () => {
+   it('should reject invalid namespaces and encodings', () => {
+      expect(() =>
+         validateUuidV5Options({ namespace: UUID_NAMESPACES.OID })
+      ).not.toThrow();
+      expect(() => validateUuidV5Options({ namespace: 'orders' })).toThrow(
+         new IdConfigurationError("UUID namespace must be a UUID, got 'orders'")
+      );
+      expect(() =>
+         validateUuidV5Options({ encoding: 'bytes' as StringIdEncoding })
+      ).toThrow("Unsupported encoding: 'bytes'");
+   });
+});
+
+describe('validateUuidV1Options', () => {
+   it('should reject invalid nodes and encodings', () => {
+      expect(() =>
+         validateUuidV1Options({ node: '00:1B:63:84:45:E6' })
+      ).not.toThrow();
+      expect(() =>
+         validateUuidV1Options({ node: '001b638445e6' })
+      ).not.toThrow();
+      expect(() => validateUuidV1Options({ node: '00:1b:63:84:45' })).toThrow(
+         new IdConfigurationError(
+            "UUID node must be 6 hex bytes (e.g. '00:1b:63:84:45:e6'), got '00:1b:63:84:45'"
+         )
+      );
+      expect(() =>
+         validateUuidV1Options({ encoding: 'bytes' as StringIdEncoding })
+      ).toThrow("Unsupported encoding: 'bytes'");
+   });
+
+   it('should be applied to the service-wide options', () => {
+      expect(() =>
+         validateIdGeneratorOptions({ uuidv6: { node: 'zz:zz:zz:zz:zz:zz' } })
+      ).toThrow(IdConfigurationError);
+   });
+});
+
+describe('validateUlidOptions', () => {
+   it('should reject a non-boolean monotonic option', () => {
+      expect(() => validateUlidOptions({ monotonic: true })).not.toThrow();
+      expect(() =>
+         // @ts-expect-error - Testing an invalid option type
+         validateUlidOptions({ monotonic: 'yes' })
+      ).toThrow('ULID monotonic option must be a boolean');
+      expect(() =>
+         // @ts-expect-error - Testing an invalid option type
+         validateIdGeneratorOptions({ ulid: { monotonic: 1 } })
+      ).toThrow(IdConfigurationError);
+   });
+});
+
+describe('validateTypeIdOptions', () => {
+   it('should reject invalid prefixes', () => {
+      expect(() => validateTypeIdOptions({ prefix: 'user' })).not.toThrow();
+      expect(() => validateTypeIdOptions({ prefix: 'User' })).toThrow(
+         IdConfigurationError
+      );
+   });
+});
+
+describe('validateKsuidOptions', () => {
+   it('should reject invalid epochs', () => {
+      expect(() => validateKsuidOptions({ epoch: 0 })).not.toThrow();
+      expect(() => validateKsuidOptions({ epoch: 1.5 })).toThrow(
+         IdConfigurationError
+      );
+      expect(() =>
+         validateIdGeneratorOptions({ ksuid: { epoch: Date.now() + 60000 } })
+      ).toThrow(/^Epoch .* is in the future$/);
+   });
+});
+
+describe('validatePrefixedIdOptions', () => {
+   it('should reject invalid prefixes and separators', () => {
+      expect(() => validatePrefixedIdOptions({ prefix: 'user' })).not.toThrow();
+      expect(() => validatePrefixedIdOptions({ prefix: '' })).toThrow(
+         'Prefix must be between 1 and 32 characters long'
+      );
+      expect(() => validatePrefixedIdOptions({ prefix: '1user' })).toThrow(
+         "Prefix '1user' must start with a lowercase letter and contain only lowercase letters and digits"
+      );
+      expect(() =>
+         // @ts-expect-error - Testing invalid separator
+         validatePrefixedIdOptions({ prefix: 'user', separator: '/' })
+      ).toThrow("Separator must be one of '_', '-', '.', ':'");
+   });
+});
+
+describe('validateIdGeneratorOptions', () => {
+   it('should validate every generator section', () => {
+      expect(() =>
+         validateIdGeneratorOptions({
+            type: 'uuidv4',
+            snowflake: { workerId: 99 },
+         })
+      ).toThrow('Worker ID must be between 0 and 31');
+      expect(() =>
+         validateIdGeneratorOptions({ nanoid: { alphabet: 'aa' } })
+      ).toThrow("NanoId alphabet contains duplicate character 'a'");
+   });
+
+   it('should reject uuidv5 as the service or entity type', () => {
+      expect(() =>
+         validateIdGeneratorOptions({
+            // @ts-expect-error - Testing a validation-only type
+            type: 'uuidv5',
+            uuidv5: { namespace: UUID_NAMESPACES.URL },
+         })
+      ).toThrow('UUID v5 IDs are derived from a name');
+      expect(() =>
+         validateIdGeneratorOptions({
+            // @ts-expect-error - Testing a validation-only type
+            entities: { order: { prefix: 'ord', type: 'uuidv5' } },
+         })
+      ).toThrow('UUID v5 IDs are derived from a name');
+      expect(() =>
+         validateIdGeneratorOptions({
+            uuidv5: { namespace: UUID_NAMESPACES.URL, encoding: 'base62' },
+         })
+      ).not.toThrow();
+   });
+
+   it('should reject unsupported generator types', () => {
+      expect(() =>
+         validateIdGeneratorOptions({ type: 'objectid' as IdGeneratorType })
+      ).toThrow(UnsupportedGeneratorError);
+   });
+
+   it('should validate entities', () => {
+      expect(() =>
+         validateIdGeneratorOptions({
+            entities: { user: { prefix: 'user', type: 'nanoid' } },
+         })
+      ).not.toThrow();
+      expect(() =>
+         validateIdGeneratorOptions({
+            entities: { user: { prefix: 'User' } },
+         })
+      ).toThrow(IdConfigurationError);
+      expect(() =>
+         validateIdGeneratorOptions({
+            entities: {
+               user: { prefix: 'user', type: 'nanoid', nanoid: { size: 0 } },
+            },
+         })
+      ).toThrow('NanoId size must be a positive integer');
+   });
+});
@@ -0,0 +1,500 @@
+import { urlAlphabet } from 'nanoid';
+import type {
+   CuidOptions,
+   IdGeneratorOptions,
+   IdGeneratorType,
+   IdValidationType,
+   KsuidOptions,
+   NanoIdOptions,
+   NodeId,
+   PrefixedIdOptions,
+   PrefixSeparator,
+   SnowflakeLayout,
+   SnowflakeOptions,
+   StringIdEncoding,
+   TypeIdOptions,
+   UlidOptions,
+   UuidV1Options,
+   UuidV4Options,
+   UuidV5Options,
+   UuidV7Options,
+} from '../interfaces/id-generator.interface';
+import {
+   resolveSnowflakeConfig,
+   SnowflakeConfig,
+} from '../generators/snowflake-layout';
+import { assertValidTypeIdPrefix } from './typeid';
+import { parseUuid } from './uuid';
+import {
+   getCollisionProbability,
+   getNanoIdEntropyBits,
+   MAX_NANOID_COLLISION_PROBABILITY,
+} from './collision-risk';
+import { IdConfigurationError } from '../errors/id-configuration.error';
+import { UnsupportedGeneratorError } from '../errors/unsupported-generator.error';
+
+/**
+ * Generator types supported by IdService
+ */
+export const ID_GENERATOR_TYPES: readonly IdGeneratorType[] = [
+   'uuidv4',
+   'uuidv7',
+   'uuidv1',
+   'uuidv6',
+   'snowflake',
+   'nanoid',
+   'cuid',
+   'ulid',
+   'typeid',
+   'ksuid',
+];
+
+/**
+ * Built-in ID types that IDs can be validated against
+ */
+export const ID_VALIDATION_TYPES: readonly IdValidationType[] = [
+   ...ID_GENERATOR_TYPES,
+   'uuidv5',
+];
+
+/**
+ * Largest NanoId alphabet (one random byte selects one character)
+ */
+export const MAX_NANOID_ALPHABET_LENGTH = 256;
+
+/**
+ * CUID length limits
+ */
+export const MIN_CUID_LENGTH = 2;
+export const MAX_CUID_LENGTH = 32;
+
+/**
+ * Maximum length of an ID prefix
+ */
+export const MAX_PREFIX_LENGTH = 32;
+
+const STRING_ID_ENCODINGS: readonly StringIdEncoding[] = [
+   'decimal',
+   'uuid',
+   'hex',
+   'base32',
+   'base58',
+   'base62',
+   'base64url',
+];
+const PREFIX_SEPARATORS: readonly PrefixSeparator[] = ['_', '-', '.', ':'];
+const PREFIX_REGEX = /^[a-z][a-z0-9]*$/;
+const UUID_NODE_REGEX = /^[0-9a-f]{2}([:-]?)(?:[0-9a-f]{2}\1){4}[0-9a-f]{2}$/i;
+
+// Low entropy warnings already emitted as process warnings
+const emittedEntropyWarnings = new Set<string>();
+
+/**
+ * Validates ID generator options before they are applied
+ * Every generator-specific section and every entity is checked, so a service
+ * is never left half-configured by an invalid option
+ * @param options ID generator configuration
+ * @param customTypes Registered custom generator types, accepted on top of the built-in ones
+ * @throws UnsupportedGeneratorError if a generator type is not supported
+ * @throws IdConfigurationError if any option is invalid
+ * @example
+ * validateIdGeneratorOptions({ type: 'nanoid', nanoid: { size: 0 } });
+ * // throws 'NanoId size must be a positive integer'
+ */
+export function validateIdGeneratorOptions(
+   options: IdGeneratorOptions,
+   customTypes: readonly string[] = []
+): void {
+   // Not a generator type, but JavaScript callers deserve a helpful error
+   if ((options.type as string | undefined) === 'uuidv5') {
+      throw new IdConfigurationError(
+         'UUID v5 IDs are derived from a name and cannot be a generator type. Use getUuidV5(namespace, name) or getUuidV3(namespace, name)'
+      );
+   }
+   assertSupportedType(options.type, customTypes);
+
+   if (options.snowflake) {
+      validateSnowflakeOptions(options.snowflake);
+   }
+   if (options.nanoid) {
+      validateNanoIdOptions(options.nanoid);
+   }
+   if (options.cuid) {
+      validateCuidOptions(options.cuid);
+   }
+   if (options.uuidv4) {
+      validateUuidOptions(options.uuidv4);
+   }
+   if (options.uuidv7) {
+      validateUuidOptions(options.uuidv7);
+   }
+   if (options.uuidv5) {
+      validateUuidV5Options(options.uuidv5);
+   }
+   if (options.uuidv1) {
+      validateUuidV1Options(options.uuidv1);
+   }
+   if (options.uuidv6) {
+      validateUuidV1Options(options.uuidv6);
+   }
+   if (options.ulid) {
+      validateUlidOptions(options.ulid);
+   }
+   if (options.typeid) {
+      validateTypeIdOptions(options.typeid);
+   }
+   if (options.ksuid) {
+      validateKsuidOptions(options.ksuid);
+   }
+
+   for (const entity of Object.values(options.entities ?? {})) {
+      validatePrefixedIdOptions(entity);
+      if ((entity.type ?? options.type) === 'typeid') {
+         assertTypeIdEntity(entity);
+      }
+      validateIdGeneratorOptions(entity, customTypes);
+   }
+}
+
+/**
+ * Validates Snowflake options
+ * On top of the checks of resolveSnowflakeConfig(), rejects worker and process
+ * IDs that do not fit the layout and epochs later than the current time
+ * The node ID provider is not consulted: generators check the IDs it returns
+ * @param options Snowflake configuration options
+ * @returns The resolved configuration
+ * @throws IdConfigurationError if any option is invalid
+ * @example
+ * validateSnowflakeOptions({ workerId: 32 });
+ * // throws 'Worker ID must be between 0 and 31'
+ */
+export function validateSnowflakeOptions(
+   options?: SnowflakeOptions
+): SnowflakeConfig {
+   const config = resolveSnowflakeConfig(options);
+   const { layout, epoch } = config;
+   validateSnowflakeNodeId(config, layout);
+
+   // Checked against the system time, injected clocks are left untouched
+   if (epoch > Date.now()) {
+      throw new IdConfigurationError(
+         `Epoch ${new Date(epoch).toISOString()} is in the future`
+      );
+   }
+
+   if (options?.encoding !== undefined) {
+      assertValidEncoding(options.encoding);
+   }
+
+   return config;
+}
+
+/**
+ * Validates Snowflake worker and process IDs against a bit layout
+ * @param nodeId The worker and process IDs
+ * @param layout The bit layout the IDs must fit in
+ * @throws IdConfigurationError if an ID is not an integer that fits its field
+ * @example
+ * validateSnowflakeNodeId({ workerId: 32, processId: 0 }, layout);
+ * // throws 'Worker ID must be between 0 and 31'
+ */
+export function validateSnowflakeNodeId(
+   nodeId: NodeId,
+   layout: SnowflakeLayout
+): void {
+   const { workerId, processId } = nodeId;
+
+   const maxWorkerId = 2 ** layout.workerIdBits - 1;
+   if (!Number.isInteger(workerId) || workerId < 0 || workerId > maxWorkerId) {
+      throw new IdConfigurationError(
+         `Worker ID must be between 0 and ${maxWorkerId}`
+      );
+   }
+
+   const maxProcessId = 2 ** layout.processIdBits - 1;
+   if (
+      !Number.isInteger(processId) ||
+      processId < 0 ||
+      processId > maxProcessId
+   ) {
+      throw new IdConfigurationError(
+         `Process ID must be between 0 and ${maxProcessId}`
+      );
+   }
+}
+
+/**
+ * Validates NanoId options
+ * Also raises a low entropy warning when expectedIds is set and the alphabet
+ * and size give more than a one-in-a-million chance of a collision. The
+ * warning goes to onLowEntropy, or is emitted once per configuration as a
+ * process warning
+ * @param options NanoId configuration options
+ * @throws IdConfigurationError if the alphabet, size or expectedIds is invalid
+ * @example
+ * validateNanoIdOptions({ alphabet: 'aab' });
+ * // throws "NanoId alphabet contains duplicate character 'a'"
+ */
+export function validateNanoIdOptions(options?: NanoIdOptions): void {
+   const alphabet = options?.alphabet ?? urlAlphabet;
+   const size = options?.size ?? 21;
+
+   if (
+      typeof alphabet !== 'string' ||
+      alphabet.length < 2 ||
+      alphabet.length > MAX_NANOID_ALPHABET_LENGTH
+   ) {
+      throw new IdConfigurationError(
+         `NanoId alphabet must contain between 2 and ${MAX_NANOID_ALPHABET_LENGTH} characters`
+      );
+   }
+
+   const seen = new Set<string>();
+   for (const char of alphabet) {
+      if (seen.has(char)) {
+         throw new IdConfigurationError(
+            `NanoId alphabet contains duplicate character '${char}'`
+         );
+      }
+      seen.add(char);
+   }
+   if (seen.size !== alphabet.length) {
+      throw new IdConfigurationError(
+         'NanoId alphabet must contain only single UTF-16 code unit characters'
+      );
+   }
+
+   if (!Number.isInteger(size) || size < 1) {
+      throw new IdConfigurationError('NanoId size must be a positive integer');
+   }
+
+   const expectedIds = options?.expectedIds;
+   if (expectedIds === undefined) {
+      return;
+   }
+   if (!Number.isFinite(expectedIds) || expectedIds < 0) {
+      throw new IdConfigurationError(
+         'NanoId expectedIds must be a non-negative number'
+      );
+   }
+
+   const entropyBits = getNanoIdEntropyBits(alphabet, size);
+   const collisionProbability = getCollisionProbability(
+      expectedIds,
+      entropyBits
+   );
+   if (collisionProbability <= MAX_NANOID_COLLISION_PROBABILITY) {
+      return;
+   }
+
+   const warning = { entropyBits, expectedIds, collisionProbability };
+   if (options?.onLowEntropy) {
+      options.onLowEntropy(warning);
+      return;
+   }
+
+   const key = `${alphabet}:${size}:${expectedIds}`;
+   if (!emittedEntropyWarnings.has(key)) {
+      emittedEntropyWarnings.add(key);
+      process.emitWarning(
+         `NanoId of ${size} characters from a ${alphabet.length}-character alphabet has ${entropyBits.toFixed(1)} bits of entropy: ${expectedIds} IDs collide with a probability of ${collisionProbability.toPrecision(2)}`,
+         { type: 'IdWarning', code: 'ID_LOW_ENTROPY' }
+      );
+   }
+}
+
+/**
+ * Validates CUID options
+ * @param options CUID configuration options
+ * @throws IdConfigurationError if the length is out of range
+ */
+export function validateCuidOptions(options?: CuidOptions): void {
+   const length = options?.length;
+   if (
+      length !== undefined &&
+      (!Number.isInteger(length) ||
+         length < MIN_CUID_LENGTH ||
+         length > MAX_CUID_LENGTH)
+   ) {
+      throw new IdConfigurationError(
+         `CUID length must be between ${MIN_CUID_LENGTH} and ${MAX_CUID_LENGTH}`
+      );
+   }
+}
+
+/**
+ * Validates UUID v4 or v7 options
+ * @param options UUID configuration options
+ * @throws IdConfigurationError if the encoding is not supported
+ */
+export function validateUuidOptions(
+   options?: UuidV4Options | UuidV7Options
+): void {
+   if (options?.encoding !== undefined) {
+      assertValidEncoding(options.encoding);
+   }
+}
+
+/**
+ * Validates UUID v5 options
+ * @param options UUID v5 configuration options
+ * @throws IdConfigurationError if the namespace is not a UUID or the encoding
+ * is not supported
+ */
+export function validateUuidV5Options(options?: UuidV5Options): void {
+   const namespace = options?.namespace;
+   if (namespace !== undefined) {
+      try {
+         parseUuid(namespace);
+      } catch {
+         throw new IdConfigurationError(
+            `UUID namespace must be a UUID, got '${namespace}'`
+         );
+      }
+   }
+   validateUuidOptions(options);
+}
+
+/**
+ * Validates UUID v1 and v6 options
+ * @param options UUID v1 or v6 configuration options
+ * @throws IdConfigurationError if the node is not 6 hex bytes or the encoding
+ * is not supported
+ * @example
+ * validateUuidV1Options({ node: '00:1b:63:84:45' });
+ * // throws "UUID node must be 6 hex bytes (e.g. '00:1b:63:84:45:e6'), got '00:1b:63:84:45'"
+ */
+export function validateUuidV1Options(options?: UuidV1Options): void {
+   const node = options?.node;
+   if (
+      node !== undefined &&
+      (typeof node !== 'string' || !UUID_NODE_REGEX.test(node))
+   ) {
+      throw new IdConfigurationError(
+         `UUID node must be 6 hex bytes (e.g. '00:1b:63:84:45:e6'), got '${node}'`
+      );
+   }
+   validateUuidOptions(options);
+}
+
+/**
+ * Validates ULID options
+ * @param options ULID configuration options
+ * @throws IdConfigurationError if monotonic is not a boolean
+ * @example
+ * validateUlidOptions({ monotonic: 'yes' });
+ * // throws 'ULID monotonic option must be a boolean'
+ */
+export function validateUlidOptions(options?: UlidOptions): void {
+   const monotonic = options?.monotonic;
+   if (monotonic !== undefined && typeof monotonic !== 'boolean') {
+      throw new IdConfigurationError('ULID monotonic option must be a boolean');
+   }
+}
+
+/**
+ * Validates TypeID options
+ * @param options TypeID configuration options
+ * @throws IdConfigurationError if the prefix does not follow the TypeID specification
+ */
+export function validateTypeIdOptions(options?: TypeIdOptions): void {
+   assertValidTypeIdPrefix(options?.prefix ?? '');
+}
+
+/**
+ * Validates KSUID options
+ * @param options KSUID configuration options
+ * @throws IdConfigurationError if the epoch is not a non-negative integer or
+ * is later than the current time
+ * @example
+ * validateKsuidOptions({ epoch: -1 });
+ * // throws 'Epoch must be a non-negative integer (Unix timestamp in milliseconds)'
+ */
+export function validateKsuidOptions(options?: KsuidOptions): void {
+   const epoch = options?.epoch;
+   if (epoch === undefined) {
+      return;
+   }
+   if (!Number.isSafeInteger(epoch) || epoch < 0) {
+      throw new IdConfigurationError(
+         'Epoch must be a non-negative integer (Unix timestamp in milliseconds)'
+      );
+   }
+   // Checked against the system time, injected clocks are left untouched
+   if (epoch > Date.now()) {
+      throw new IdConfigurationError(
+         `Epoch ${new Date(epoch).toISOString()} is in the future`
+      );
+   }
+}
+
+/**
+ * Validates the prefix and separator of prefixed IDs
+ * @param options Prefix and separator
+ * @throws IdConfigurationError if the prefix or separator is invalid
+ * @example
+ * validatePrefixedIdOptions({ prefix: 'User' });
+ * // throws "Prefix 'User' must start with a lowercase letter and contain only lowercase letters and digits"
+ */
+export function validatePrefixedIdOptions(
+   options: PrefixedIdOptions<string, PrefixSeparator>
+): void {
+   const { prefix, separator = '_' } = options;
+
+   if (prefix.length < 1 || prefix.length > MAX_PREFIX_LENGTH) {
+      throw new IdConfigurationError(
+         `Prefix must be between 1 and ${MAX_PREFIX_LENGTH} characters long`
+      );
+   }
+   if (!PREFIX_REGEX.test(prefix)) {
+      throw new IdConfigurationError(
+         `Prefix '${prefix}' must start with a lowercase letter and contain only lowercase letters and digits`
+      );
+   }
+   if (!PREFIX_SEPARATORS.includes(separator)) {
+      throw new IdConfigurationError(
+         `Separator must be one of ${PREFIX_SEPARATORS.map((candidate) => `'${candidate}'`).join(', ')}`
+      );
+   }
+}
+
+/**
+ * Checks that the prefix and separator of a TypeID entity form a TypeID prefix
+ * The entity prefix is used as the TypeID prefix, not prepended to a TypeID
+ */
+function assertTypeIdEntity(
+   options: PrefixedIdOptions<string, PrefixSeparator>
+): void {
+   const { prefix, separator = '_' } = options;
+   if (separator !== '_') {
+      throw new IdConfigurationError(
+         `TypeID entities must use the '_' separator, got '${separator}'`
+      );
+   }
+   assertValidTypeIdPrefix(prefix);
+}
+
+/**
+ * Checks that a generator type is supported
+ */
+function assertSupportedType(
+   type: IdGeneratorType | undefined,
+   customTypes: readonly string[]
+): void {
+   if (
+      type !== undefined &&
+      !ID_GENERATOR_TYPES.includes(type) &&
+      !customTypes.includes(type)
+   ) {
+      throw new UnsupportedGeneratorError(type);
+   }
+}
+
+/**
+ * Checks that a string encoding is supported
+ */
+function assertValidEncoding(encoding: StringIdEncoding): void {
+   if (!STRING_ID_ENCODINGS.includes(encoding)) {
+      throw new IdConfigurationError(`Unsupported encoding: '${encoding}'`);
+   }
+}
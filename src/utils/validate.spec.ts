@@ -0,0 +1,377 @@
+import { describe, it, expect } from 'bun:test';
+import {
+   validate,
+   assertValidId,
+   isUuidV1,
+   isUuidV4,
+   isUuidV5,
+   isUuidV6,
+   isUuidV7,
+   isSnowflake,
+   isNanoId,
+   isCuid,
+   isUlid,
+   isKsuid,
+   isTypeId,
+   asUuidV1,
+   asUuidV4,
+   asUuidV5,
+   asUuidV6,
+   asSnowflake,
+   asNanoId,
+   asUlid,
+   asKsuid,
+} from './validate';
+import type { NanoId, Snowflake } from '../interfaces/id-generator.interface';
+import { UuidV4Generator } from '../generators/uuid-v4-generator';
+import { UuidV7Generator } from '../generators/uuid-v7-generator';
+import { createUuidV3, createUuidV5, UUID_NAMESPACES } from './uuid';
+import { SnowflakeGenerator } from '../generators/snowflake-generator';
+import { NanoIdGenerator } from '../generators/nano-id-generator';
+import { CuidGenerator } from '../generators/cuid-generator';
+import { UlidGenerator } from '../generators/ulid-generator';
+import { KsuidGenerator } from '../generators/ksuid-generator';
+import { FixedClock } from '../providers/clock.provider';
+
+describe('validate', () => {
+   it('should accept IDs produced by each generator', () => {
+      expect(validate(new UuidV4Generator().getId(), 'uuidv4')).toEqual({
+         valid: true,
+      });
+      expect(validate(new UuidV7Generator().getId(), 'uuidv7').valid).toBe(
+         true
+      );
+      expect(
+         validate(new SnowflakeGenerator().getId(), 'snowflake').valid
+      ).toBe(true);
+      expect(validate(new NanoIdGenerator().getId(), 'nanoid').valid).toBe(
+         true
+      );
+      expect(validate(new CuidGenerator().getId(), 'cuid').valid).toBe(true);
+      expect(validate(new UlidGenerator().getId(), 'ulid').valid).toBe(true);
+   });
+
+   it('should explain why a value is not a string', () => {
+      expect(validate(42, 'uuidv4')).toEqual({
+         valid: false,
+         reason: 'ID must be a string, got number',
+      });
+      expect(validate(null, 'ulid')).toEqual({
+         valid: false,
+         reason: 'ID must be a string, got null',
+      });
+   });
+
+   it('should reject unsupported types', () => {
+      // @ts-expect-error - Testing invalid type
+      expect(validate('abc', 'unknown')).toEqual({
+         valid: false,
+         reason: "Unsupported ID type: 'unknown'",
+      });
+   });
+
+   describe('UUID', () => {
+      it('should explain malformed UUIDs', () => {
+         expect(validate('9b1deb4d3b7d4bad9bdd2b0d7b3dcb6d', 'uuidv4')).toEqual(
+            {
+               valid: false,
+               reason:
+                  'UUID must be 36 characters in the 8-4-4-4-12 hexadecimal format',
+            }
+         );
+      });
+
+      it('should explain version mismatches', () => {
+         const v7 = new UuidV7Generator().getId();
+
+         expect(validate(v7, 'uuidv4')).toEqual({
+            valid: false,
+            reason: 'UUID version is 7, expected 4',
+         });
+         expect(isUuidV4(v7)).toBe(false);
+         expect(isUuidV7(v7)).toBe(true);
+      });
+
+      it('should validate name-based UUID v5s', () => {
+         const v5 = createUuidV5(UUID_NAMESPACES.DNS, 'www.example.com');
+
+         expect(isUuidV5(v5)).toBe(true);
+         expect(asUuidV5(v5)).toBe(v5);
+         expect(
+            validate(createUuidV3(UUID_NAMESPACES.DNS, 'example.com'), 'uuidv5')
+         ).toEqual({
+            valid: false,
+            reason: 'UUID version is 3, expected 5',
+         });
+      });
+
+      it('should validate time-based UUID v1s and v6s', () => {
+         const v1 = 'c232ab00-9414-11ec-b3c8-9f6bdeced846';
+         const v6 = '1ec9414c-232a-6b00-b3c8-9f6bdeced846';
+
+         expect(isUuidV1(v1)).toBe(true);
+         expect(asUuidV1(v1)).toBe(v1);
+         expect(isUuidV6(v6)).toBe(true);
+         expect(asUuidV6(v6)).toBe(v6);
+         expect(validate(v6, 'uuidv1')).toEqual({
+            valid: false,
+            reason: 'UUID version is 6, expected 1',
+         });
+         expect(isUuidV6(v1)).toBe(false);
+      });
+
+      it('should explain invalid variants', () => {
+         expect(
+            validate('9b1deb4d-3b7d-4bad-cbdd-2b0d7b3dcb6d', 'uuidv4')
+         ).toEqual({
+            valid: false,
+            reason: "UUID variant must be RFC 9562 (8, 9, a or b), got 'c'",
+         });
+      });
+
+      it('should accept uppercase UUIDs', () => {
+         expect(isUuidV4('9B1DEB4D-3B7D-4BAD-9BDD-2B0D7B3DCB6D')).toBe(true);
+      });
+   });
+
+   describe('Snowflake', () => {
+      it('should reject non-decimal and non-canonical values', () => {
+         expect(validate('12a', 'snowflake')).toEqual({
+            valid: false,
+            reason: 'Snowflake must be a decimal string',
+         });
+         expect(validate('0123', 'snowflake')).toEqual({
+            valid: false,
+            reason: 'Snowflake must not have leading zeros',
+         });
+      });
+
+      it('should reject values outside the 64-bit range', () => {
+         expect(validate('18446744073709551616', 'snowflake')).toEqual({
+            valid: false,
+            reason: 'Snowflake exceeds the 64-bit range',
+         });
+      });
+
+      it('should check the range of the layout', () => {
+         // The default layout uses 63 bits
+         expect(validate((1n << 63n).toString(), 'snowflake')).toEqual({
+            valid: false,
+            reason: 'Snowflake exceeds the 63-bit range of its layout',
+         });
+      });
+
+      it('should reject timestamps in the future', () => {
+         const future = new SnowflakeGenerator({
+            clock: new FixedClock(Date.now() + 3600000),
+         }).getId();
+
+         expect(isSnowflake(future)).toBe(false);
+         expect(validate(future, 'snowflake')).toMatchObject({
+            valid: false,
+            reason: expect.stringContaining('is in the future'),
+         });
+      });
+
+      it('should detect IDs minted with a different epoch', () => {
+         // A Discord ID read with the newer default epoch lands in the future
+         const id = new SnowflakeGenerator({ preset: 'discord' }).getId();
+
+         expect(isSnowflake(id, { preset: 'discord' })).toBe(true);
+         expect(isSnowflake(id)).toBe(false);
+      });
+   });
+
+   describe('NanoId', () => {
+      it('should honour the configured size', () => {
+         const id = new NanoIdGenerator({ size: 10 }).getId();
+
+         expect(isNanoId(id, { size: 10 })).toBe(true);
+         expect(validate(id, 'nanoid')).toEqual({
+            valid: false,
+            reason: 'NanoId must be 21 characters long, got 10',
+         });
+      });
+
+      it('should honour the configured alphabet', () => {
+         const options = { alphabet: '0123456789abcdef', size: 8 };
+
+         expect(isNanoId('deadbeef', options)).toBe(true);
+         expect(validate('deadbeeg', 'nanoid', { nanoid: options })).toEqual({
+            valid: false,
+            reason:
+               "NanoId contains character 'g' outside the configured alphabet",
+         });
+      });
+   });
+
+   describe('CUID', () => {
+      it('should honour the configured length', () => {
+         const id = new CuidGenerator({ length: 10 }).getId();
+
+         expect(isCuid(id, { length: 10 })).toBe(true);
+         expect(isCuid(id, { length: 24 })).toBe(false);
+         expect(isCuid(id)).toBe(true);
+      });
+
+      it('should explain invalid characters', () => {
+         expect(validate('1abc', 'cuid')).toEqual({
+            valid: false,
+            reason: 'CUID must start with a lowercase letter',
+         });
+         expect(validate('aBc', 'cuid')).toEqual({
+            valid: false,
+            reason: 'CUID must contain only lowercase letters and digits',
+         });
+      });
+   });
+
+   describe('KSUID', () => {
+      it('should validate KSUIDs', () => {
+         expect(isKsuid(new KsuidGenerator().getId())).toBe(true);
+         expect(asKsuid('0ujtsYcgvSTl8PAuAdqWYSMnLOv')).toBe(
+            '0ujtsYcgvSTl8PAuAdqWYSMnLOv'
+         );
+      });
+
+      it('should explain invalid KSUIDs', () => {
+         expect(validate('0ujtsYcgvSTl8PAuAdqWYSMnLO', 'ksuid')).toEqual({
+            valid: false,
+            reason: 'KSUID must be 27 characters long, got 26',
+         });
+         expect(validate('0ujtsYcgvSTl8PAuAdqWYSMnLO-', 'ksuid')).toEqual({
+            valid: false,
+            reason: "KSUID contains invalid Base62 character '-'",
+         });
+         expect(validate('aWgEPTl1tmebfsQzFP4bxwgy80W', 'ksuid')).toEqual({
+            valid: false,
+            reason: 'KSUID exceeds 160 bits',
+         });
+         expect(isKsuid('aWgEPTl1tmebfsQzFP4bxwgy80V')).toBe(true);
+      });
+   });
+
+   describe('ULID', () => {
+      it('should accept lowercase ULIDs', () => {
+         expect(isUlid(new UlidGenerator().getId().toLowerCase())).toBe(true);
+      });
+
+      it('should explain invalid ULIDs', () => {
+         expect(validate('01ARZ3NDEKTSV4RRFFQ69G5FA', 'ulid')).toEqual({
+            valid: false,
+            reason: 'ULID must be 26 characters long, got 25',
+         });
+         expect(validate('01ARZ3NDEKTSV4RRFFQ69G5FAU', 'ulid')).toEqual({
+            valid: false,
+            reason: "ULID contains invalid Crockford Base32 character 'U'",
+         });
+         expect(validate('81ARZ3NDEKTSV4RRFFQ69G5FAV', 'ulid')).toEqual({
+            valid: false,
+            reason: 'ULID timestamp exceeds 48 bits',
+         });
+      });
+   });
+
+   describe('Encodings', () => {
+      it('should validate Snowflake IDs in the configured encoding', () => {
+         const options = { encoding: 'base62' as const };
+         const id = new SnowflakeGenerator(options).getId();
+
+         expect(isSnowflake(id, options)).toBe(true);
+         expect(isSnowflake(id)).toBe(false);
+         expect(
+            validate(id.slice(1), 'snowflake', { snowflake: options })
+         ).toEqual({
+            valid: false,
+            reason: 'ID is not in canonical base62 form',
+         });
+      });
+
+      it('should validate UUIDs in the configured encoding', () => {
+         const id = new UuidV7Generator({ encoding: 'base58' }).getId();
+
+         expect(
+            validate(id, 'uuidv7', { uuidv7: { encoding: 'base58' } })
+         ).toEqual({ valid: true });
+         expect(
+            validate(id, 'uuidv4', { uuidv4: { encoding: 'base58' } })
+         ).toEqual({ valid: false, reason: 'UUID version is 7, expected 4' });
+         expect(
+            validate('!', 'uuidv7', { uuidv7: { encoding: 'base58' } })
+         ).toEqual({ valid: false, reason: "Invalid base58 character '!'" });
+      });
+   });
+
+   describe('TypeID', () => {
+      it('should accept TypeIDs with any prefix by default', () => {
+         expect(isTypeId('user_01h455vb4pex5vsknk084sn02q')).toBe(true);
+         expect(isTypeId('01h455vb4pex5vsknk084sn02q')).toBe(true);
+      });
+
+      it('should honour the configured prefix', () => {
+         expect(
+            validate('team_01h455vb4pex5vsknk084sn02q', 'typeid', {
+               typeid: { prefix: 'user' },
+            })
+         ).toEqual({
+            valid: false,
+            reason: "TypeID prefix 'team' does not match 'user'",
+         });
+      });
+
+      it('should explain invalid TypeIDs', () => {
+         expect(validate('user_01H455VB4PEX5VSKNK084SN02Q', 'typeid')).toEqual({
+            valid: false,
+            reason:
+               'TypeID suffix must contain only lowercase Crockford Base32 characters',
+         });
+      });
+   });
+
+   describe('assertValidId', () => {
+      it('should throw with the reason', () => {
+         expect(() => assertValidId('abc', 'ulid')).toThrow(
+            'Invalid ulid ID: ULID must be 26 characters long, got 3'
+         );
+         expect(() =>
+            assertValidId(new UlidGenerator().getId(), 'ulid')
+         ).not.toThrow();
+      });
+   });
+
+   describe('Casting', () => {
+      it('should brand valid IDs', () => {
+         const snowflake: Snowflake = asSnowflake('1234567890123456789', {
+            preset: 'twitter',
+         });
+         const nanoId: NanoId = asNanoId('V1StGXR8_Z', { size: 10 });
+
+         expect(snowflake).toBe('1234567890123456789');
+         expect(nanoId).toBe('V1StGXR8_Z');
+         expect(asUuidV4('9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d')).toBe(
+            '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d'
+         );
+      });
+
+      it('should throw instead of branding invalid IDs', () => {
+         expect(() => asUlid('not-a-ulid')).toThrow(
+            'Invalid ulid ID: ULID must be 26 characters long, got 10'
+         );
+         expect(() => asNanoId('V1StGXR8_Z')).toThrow(
+            'NanoId must be 21 characters long, got 10'
+         );
+      });
+
+      it('should keep brands apart at compile time', () => {
+         const snowflake = asSnowflake('1234567890123456789', {
+            preset: 'twitter',
+         });
+
+         // @ts-expect-error - A Snowflake is not a NanoId
+         const nanoId: NanoId = snowflake;
+         const plain: string = snowflake;
+
+         expect(nanoId).toBe(plain);
+      });
+   });
+});
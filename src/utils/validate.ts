@@ -0,0 +1,555 @@
+import type {
+   Cuid,
+   CuidOptions,
+   IdGeneratorOptions,
+   IdValidationType,
+   IdValidationTypeMap,
+   Ksuid,
+   NanoId,
+   NanoIdOptions,
+   Snowflake,
+   SnowflakeOptions,
+   StringIdEncoding,
+   TypeId,
+   TypeIdOptions,
+   Ulid,
+   UuidV1,
+   UuidV4,
+   UuidV5,
+   UuidV6,
+   UuidV7,
+} from '../interfaces/id-generator.interface';
+import {
+   deconstructSnowflake,
+   resolveSnowflakeConfig,
+} from '../generators/snowflake-layout';
+import { urlAlphabet } from 'nanoid';
+import { decodeTypeId } from './typeid';
+import { decodeId, encodeId } from './id-encoding';
+import { InvalidIdError } from '../errors/invalid-id.error';
+
+/**
+ * Result of validating an ID
+ * Failed validations carry a human-readable reason
+ */
+export type ValidationResult =
+   | { valid: true }
+   | { valid: false; reason: string };
+
+/**
+ * How far in the future a Snowflake timestamp may be (clock skew between hosts)
+ */
+export const MAX_SNOWFLAKE_FUTURE_SKEW = 60000;
+
+const UUID_REGEX =
+   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates an ID against a generator type and its options
+ * @param id The value to validate
+ * @param type The expected ID type
+ * @param options Generator options the ID is expected to match
+ * (Snowflake epoch/layout, NanoId alphabet/size, CUID length)
+ * @returns `{ valid: true }` or `{ valid: false, reason }`
+ * @example
+ * validate('abc', 'uuidv4');
+ * // { valid: false, reason: 'UUID must be 36 characters in the 8-4-4-4-12 hexadecimal format' }
+ */
+export function validate(
+   id: unknown,
+   type: IdValidationType,
+   options?: IdGeneratorOptions
+): ValidationResult {
+   const reason =
+      typeof id !== 'string'
+         ? `ID must be a string, got ${id === null ? 'null' : typeof id}`
+         : getInvalidReason(id, type, options);
+
+   return reason === undefined ? { valid: true } : { valid: false, reason };
+}
+
+/**
+ * Asserts that an ID is valid for a generator type
+ * @param id The value to validate
+ * @param type The expected ID type
+ * @param options Generator options the ID is expected to match
+ * @throws InvalidIdError explaining why the ID is invalid
+ * @example
+ * assertValidId(req.params.id, 'snowflake');
+ */
+export function assertValidId<T extends IdValidationType>(
+   id: unknown,
+   type: T,
+   options?: IdGeneratorOptions
+): asserts id is IdValidationTypeMap[T] {
+   const result = validate(id, type, options);
+   if (!result.valid) {
+      throw new InvalidIdError(`Invalid ${type} ID: ${result.reason}`);
+   }
+}
+
+/**
+ * Checks whether a value is a UUID v4
+ * @param id The value to check
+ * @returns True if the value is a lowercase or uppercase UUID v4
+ */
+export function isUuidV4(id: unknown): id is UuidV4 {
+   return validate(id, 'uuidv4').valid;
+}
+
+/**
+ * Checks whether a value is a UUID v7
+ * @param id The value to check
+ * @returns True if the value is a UUID v7
+ */
+export function isUuidV7(id: unknown): id is UuidV7 {
+   return validate(id, 'uuidv7').valid;
+}
+
+/**
+ * Checks whether a value is a UUID v5
+ * The namespace and name cannot be checked, only the version and variant
+ * @param id The value to check
+ * @returns True if the value is a UUID v5
+ */
+export function isUuidV5(id: unknown): id is UuidV5 {
+   return validate(id, 'uuidv5').valid;
+}
+
+/**
+ * Checks whether a value is a UUID v1
+ * @param id The value to check
+ * @returns True if the value is a UUID v1
+ */
+export function isUuidV1(id: unknown): id is UuidV1 {
+   return validate(id, 'uuidv1').valid;
+}
+
+/**
+ * Checks whether a value is a UUID v6
+ * @param id The value to check
+ * @returns True if the value is a UUID v6
+ */
+export function isUuidV6(id: unknown): id is UuidV6 {
+   return validate(id, 'uuidv6').valid;
+}
+
+/**
+ * Checks whether a value is a Snowflake ID
+ * The value must be a canonical decimal string that fits the layout, and its
+ * timestamp must not be more than a minute in the future
+ * @param id The value to check
+ * @param options The epoch and layout the ID is expected to use
+ * @returns True if the value is a valid Snowflake ID
+ */
+export function isSnowflake(
+   id: unknown,
+   options?: SnowflakeOptions
+): id is Snowflake {
+   return validate(id, 'snowflake', { snowflake: options }).valid;
+}
+
+/**
+ * Checks whether a value is a NanoId
+ * @param id The value to check
+ * @param options The alphabet and size the ID is expected to use
+ * @returns True if the value is a valid NanoId
+ */
+export function isNanoId(id: unknown, options?: NanoIdOptions): id is NanoId {
+   return validate(id, 'nanoid', { nanoid: options }).valid;
+}
+
+/**
+ * Checks whether a value is a CUID
+ * @param id The value to check
+ * @param options The length the ID is expected to have
+ * @returns True if the value is a valid CUID
+ */
+export function isCuid(id: unknown, options?: CuidOptions): id is Cuid {
+   return validate(id, 'cuid', { cuid: options }).valid;
+}
+
+/**
+ * Checks whether a value is a KSUID
+ * The timestamp depends on the epoch, so only the format is checked
+ * @param id The value to check
+ * @returns True if the value is a valid KSUID
+ */
+export function isKsuid(id: unknown): id is Ksuid {
+   return validate(id, 'ksuid').valid;
+}
+
+/**
+ * Checks whether a value is a ULID
+ * @param id The value to check
+ * @returns True if the value is a valid ULID (case-insensitive)
+ */
+export function isUlid(id: unknown): id is Ulid {
+   return validate(id, 'ulid').valid;
+}
+
+/**
+ * Checks whether a value is a TypeID
+ * @param id The value to check
+ * @param options The prefix the ID is expected to carry (any prefix if omitted)
+ * @returns True if the value is a valid TypeID
+ */
+export function isTypeId(id: unknown, options?: TypeIdOptions): id is TypeId {
+   return validate(id, 'typeid', { typeid: options }).valid;
+}
+
+/**
+ * Validates a string and brands it as a UUID v4
+ * @param id The string to cast
+ * @returns The same string, typed as UuidV4
+ * @throws InvalidIdError if the string is not a valid UUID v4
+ * @example
+ * const id = asUuidV4(req.params.id);
+ */
+export function asUuidV4(id: string): UuidV4 {
+   assertValidId(id, 'uuidv4');
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a UUID v7
+ * @param id The string to cast
+ * @returns The same string, typed as UuidV7
+ * @throws InvalidIdError if the string is not a valid UUID v7
+ */
+export function asUuidV7(id: string): UuidV7 {
+   assertValidId(id, 'uuidv7');
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a UUID v5
+ * @param id The string to cast
+ * @returns The same string, typed as UuidV5
+ * @throws InvalidIdError if the string is not a valid UUID v5
+ */
+export function asUuidV5(id: string): UuidV5 {
+   assertValidId(id, 'uuidv5');
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a UUID v1
+ * @param id The string to cast
+ * @returns The same string, typed as UuidV1
+ * @throws InvalidIdError if the string is not a valid UUID v1
+ */
+export function asUuidV1(id: string): UuidV1 {
+   assertValidId(id, 'uuidv1');
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a UUID v6
+ * @param id The string to cast
+ * @returns The same string, typed as UuidV6
+ * @throws InvalidIdError if the string is not a valid UUID v6
+ */
+export function asUuidV6(id: string): UuidV6 {
+   assertValidId(id, 'uuidv6');
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a Snowflake ID
+ * @param id The string to cast
+ * @param options The epoch and layout the ID is expected to use
+ * @returns The same string, typed as Snowflake
+ * @throws InvalidIdError if the string is not a valid Snowflake ID
+ */
+export function asSnowflake(id: string, options?: SnowflakeOptions): Snowflake {
+   assertValidId(id, 'snowflake', { snowflake: options });
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a NanoId
+ * @param id The string to cast
+ * @param options The alphabet and size the ID is expected to use
+ * @returns The same string, typed as NanoId
+ * @throws InvalidIdError if the string is not a valid NanoId
+ */
+export function asNanoId(id: string, options?: NanoIdOptions): NanoId {
+   assertValidId(id, 'nanoid', { nanoid: options });
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a CUID
+ * @param id The string to cast
+ * @param options The length the ID is expected to have
+ * @returns The same string, typed as Cuid
+ * @throws InvalidIdError if the string is not a valid CUID
+ */
+export function asCuid(id: string, options?: CuidOptions): Cuid {
+   assertValidId(id, 'cuid', { cuid: options });
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a KSUID
+ * @param id The string to cast
+ * @returns The same string, typed as Ksuid
+ * @throws InvalidIdError if the string is not a valid KSUID
+ */
+export function asKsuid(id: string): Ksuid {
+   assertValidId(id, 'ksuid');
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a ULID
+ * @param id The string to cast
+ * @returns The same string, typed as Ulid
+ * @throws InvalidIdError if the string is not a valid ULID
+ */
+export function asUlid(id: string): Ulid {
+   assertValidId(id, 'ulid');
+   return id;
+}
+
+/**
+ * Validates a string and brands it as a TypeID
+ * @param id The string to cast
+ * @param options The prefix the ID is expected to carry (any prefix if omitted)
+ * @returns The same string, typed as TypeId
+ * @throws InvalidIdError if the string is not a valid TypeID
+ */
+export function asTypeId(id: string, options?: TypeIdOptions): TypeId {
+   assertValidId(id, 'typeid', { typeid: options });
+   return id;
+}
+
+/**
+ * Gets the reason why an ID is invalid, or undefined if it is valid
+ */
+function getInvalidReason(
+   id: string,
+   type: IdValidationType,
+   options?: IdGeneratorOptions
+): string | undefined {
+   switch (type) {
+      case 'uuidv4':
+         return getInvalidUuidReason(id, 4, options?.uuidv4?.encoding);
+      case 'uuidv7':
+         return getInvalidUuidReason(id, 7, options?.uuidv7?.encoding);
+      case 'uuidv5':
+         return getInvalidUuidReason(id, 5, options?.uuidv5?.encoding);
+      case 'uuidv1':
+         return getInvalidUuidReason(id, 1, options?.uuidv1?.encoding);
+      case 'uuidv6':
+         return getInvalidUuidReason(id, 6, options?.uuidv6?.encoding);
+      case 'snowflake':
+         return getInvalidSnowflakeReason(id, options?.snowflake);
+      case 'cuid':
+         return getInvalidCuidReason(id, options?.cuid);
+      case 'nanoid':
+         return getInvalidNanoIdReason(id, options?.nanoid);
+      case 'ulid':
+         return getInvalidUlidReason(id);
+      case 'typeid':
+         return getInvalidTypeIdReason(id, options?.typeid);
+      case 'ksuid':
+         return getInvalidKsuidReason(id);
+      default:
+         return `Unsupported ID type: '${type}'`;
+   }
+}
+
+function getInvalidUuidReason(
+   id: string,
+   version: number,
+   encoding: StringIdEncoding = 'uuid'
+): string | undefined {
+   if (encoding !== 'uuid') {
+      const decoded = decodeToCanonical(id, encoding, 'uuid', 128);
+      if ('reason' in decoded) {
+         return decoded.reason;
+      }
+      id = decoded.id;
+   }
+
+   if (!UUID_REGEX.test(id)) {
+      return 'UUID must be 36 characters in the 8-4-4-4-12 hexadecimal format';
+   }
+
+   const actualVersion = parseInt(id[14], 16);
+   if (actualVersion !== version) {
+      return `UUID version is ${actualVersion}, expected ${version}`;
+   }
+
+   if (!/[89ab]/i.test(id[19])) {
+      return `UUID variant must be RFC 9562 (8, 9, a or b), got '${id[19]}'`;
+   }
+
+   return undefined;
+}
+
+function getInvalidSnowflakeReason(
+   id: string,
+   options?: SnowflakeOptions
+): string | undefined {
+   const encoding = options?.encoding ?? 'decimal';
+   if (encoding !== 'decimal') {
+      const decoded = decodeToCanonical(id, encoding, 'decimal', 64);
+      if ('reason' in decoded) {
+         return decoded.reason;
+      }
+      id = decoded.id;
+   }
+
+   if (!/^\d+$/.test(id)) {
+      return 'Snowflake must be a decimal string';
+   }
+   if (id.length > 1 && id[0] === '0') {
+      return 'Snowflake must not have leading zeros';
+   }
+
+   const value = BigInt(id);
+   if (value >= 1n << 64n) {
+      return 'Snowflake exceeds the 64-bit range';
+   }
+
+   const { layout } = resolveSnowflakeConfig(options);
+   const totalBits =
+      layout.timestampBits +
+      layout.workerIdBits +
+      layout.processIdBits +
+      layout.sequenceBits;
+   if (value >= 1n << BigInt(totalBits)) {
+      return `Snowflake exceeds the ${totalBits}-bit range of its layout`;
+   }
+
+   const { timestamp } = deconstructSnowflake(id, {
+      ...options,
+      encoding: 'decimal',
+   });
+   if (timestamp > Date.now() + MAX_SNOWFLAKE_FUTURE_SKEW) {
+      return `Snowflake timestamp ${new Date(timestamp).toISOString()} is in the future - check the epoch`;
+   }
+
+   return undefined;
+}
+
+/**
+ * Decodes an encoded ID back to its canonical form
+ * The input must be exactly what the encoding produces (padding and case)
+ */
+function decodeToCanonical(
+   id: string,
+   encoding: StringIdEncoding,
+   canonical: 'decimal' | 'uuid',
+   bits: number
+): { id: string } | { reason: string } {
+   let value: bigint;
+   try {
+      value = decodeId(id, encoding, { bits });
+   } catch (error) {
+      return { reason: (error as Error).message };
+   }
+
+   if (encodeId(value, encoding, { bits }) !== id) {
+      return { reason: `ID is not in canonical ${encoding} form` };
+   }
+
+   return { id: encodeId(value, canonical, { bits }) };
+}
+
+function getInvalidNanoIdReason(
+   id: string,
+   options?: NanoIdOptions
+): string | undefined {
+   const alphabet = options?.alphabet ?? urlAlphabet;
+   const size = options?.size ?? 21;
+
+   if (id.length !== size) {
+      return `NanoId must be ${size} characters long, got ${id.length}`;
+   }
+
+   for (const char of id) {
+      if (!alphabet.includes(char)) {
+         return `NanoId contains character '${char}' outside the configured alphabet`;
+      }
+   }
+
+   return undefined;
+}
+
+function getInvalidCuidReason(
+   id: string,
+   options?: CuidOptions
+): string | undefined {
+   const length = options?.length;
+
+   if (length !== undefined && id.length !== length) {
+      return `CUID must be ${length} characters long, got ${id.length}`;
+   }
+   if (id.length < 2 || id.length > 32) {
+      return `CUID must be between 2 and 32 characters long, got ${id.length}`;
+   }
+   if (!/^[a-z]/.test(id)) {
+      return 'CUID must start with a lowercase letter';
+   }
+   if (!/^[0-9a-z]+$/.test(id)) {
+      return 'CUID must contain only lowercase letters and digits';
+   }
+
+   return undefined;
+}
+
+function getInvalidUlidReason(id: string): string | undefined {
+   if (id.length !== 26) {
+      return `ULID must be 26 characters long, got ${id.length}`;
+   }
+
+   const invalid = id.match(/[^0-9A-HJKMNP-TV-Z]/i);
+   if (invalid) {
+      return `ULID contains invalid Crockford Base32 character '${invalid[0]}'`;
+   }
+
+   if (id[0] > '7') {
+      return 'ULID timestamp exceeds 48 bits';
+   }
+
+   return undefined;
+}
+
+function getInvalidKsuidReason(id: string): string | undefined {
+   if (id.length !== 27) {
+      return `KSUID must be 27 characters long, got ${id.length}`;
+   }
+
+   const invalid = id.match(/[^0-9A-Za-z]/);
+   if (invalid) {
+      return `KSUID contains invalid Base62 character '${invalid[0]}'`;
+   }
+
+   if (decodeId(id, 'base62') >= 1n << 160n) {
+      return 'KSUID exceeds 160 bits';
+   }
+
+   return undefined;
+}
+
+function getInvalidTypeIdReason(
+   id: string,
+   options?: TypeIdOptions
+): string | undefined {
+   let prefix: string;
+   try {
+      prefix = decodeTypeId(id).prefix;
+   } catch (error) {
+      return (error as Error).message;
+   }
+
+   if (options?.prefix !== undefined && prefix !== options.prefix) {
+      return `TypeID prefix '${prefix}' does not match '${options.prefix}'`;
+   }
+
+   return undefined;
+}